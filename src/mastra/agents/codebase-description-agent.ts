@@ -2,6 +2,7 @@ import { Agent } from "@mastra/core";
 import { dockerExecTool } from "../tools/docker-exec-tool";
 import { cliTool } from "../tools/cli-tool";
 import { openai } from "@ai-sdk/openai";
+import { secretRedactionProcessor } from "../tools/redaction";
 
 export const codebaseDescriptionAgent = new Agent({
     id: "codebaseDescriptionAgent",
@@ -31,6 +32,8 @@ When asked, return STRICT JSON with keys: {"description": string, "sources": str
         parallelToolCalls: true,
         reasoningEffort: "medium",
     }),
+    inputProcessors: [secretRedactionProcessor],
+    outputProcessors: [secretRedactionProcessor],
     tools: {
         docker_exec: dockerExecTool,
         exec_command: cliTool,
@@ -1,7 +1,9 @@
 import { Agent } from "@mastra/core";
 import { cliTool } from "../tools/cli-tool";
 import { dockerExecTool } from "../tools/docker-exec-tool";
+import { repoScanTool } from "../tools/repo-scanner";
 import { openai } from "@ai-sdk/openai";
+import { secretRedactionProcessor } from "../tools/redaction";
 
 export const contextAgent = new Agent({
     id: "contextAgent",
@@ -12,8 +14,11 @@ export const contextAgent = new Agent({
         parallelToolCalls: true,
         reasoningEffort: "high",
     }),
+    inputProcessors: [secretRedactionProcessor],
+    outputProcessors: [secretRedactionProcessor],
     tools: {
         exec_command: cliTool,
         docker_exec: dockerExecTool,
+        repo_scan: repoScanTool,
     },
 });
\ No newline at end of file
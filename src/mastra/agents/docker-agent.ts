@@ -1,6 +1,7 @@
 import { Agent } from "@mastra/core";
 import { cliTool } from "../tools/cli-tool";
 import { openai } from "@ai-sdk/openai";
+import { secretRedactionProcessor } from "../tools/redaction";
 
 export const dockerAgent = new Agent({
     id: "dockerAgent",
@@ -9,6 +10,8 @@ export const dockerAgent = new Agent({
     model: openai("gpt-5-nano", {
         parallelToolCalls: true,
     }),
+    inputProcessors: [secretRedactionProcessor],
+    outputProcessors: [secretRedactionProcessor],
     tools: {
         exec_command: cliTool,
     },
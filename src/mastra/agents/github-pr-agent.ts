@@ -2,6 +2,7 @@ import { Agent } from "@mastra/core";
 import { dockerExecTool } from "../tools/docker-exec-tool";
 import { cliTool } from "../tools/cli-tool";
 import { openai } from "@ai-sdk/openai";
+import { secretRedactionProcessor } from "../tools/redaction";
 
 export const githubPrAgent = new Agent({
     id: "githubPrAgent",
@@ -35,6 +36,8 @@ BEST PRACTICES:
         parallelToolCalls: true,
         reasoningEffort: "medium",
     }),
+    inputProcessors: [secretRedactionProcessor],
+    outputProcessors: [secretRedactionProcessor],
     tools: {
         docker_exec: dockerExecTool,
         exec_command: cliTool,
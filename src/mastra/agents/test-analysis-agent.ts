@@ -3,6 +3,7 @@ import { cliTool } from "../tools/cli-tool";
 import { dockerExecTool } from "../tools/docker-exec-tool";
 import { codeAnalysisTool } from "../tools/code-analysis-tool";
 import { openai } from "@ai-sdk/openai";
+import { secretRedactionProcessor } from "../tools/redaction";
 
 export const testAnalysisAgent = new Agent({
     id: "testAnalysisAgent",
@@ -35,6 +36,8 @@ Be precise, thorough, and focus only on analysis - no test generation.`,
         parallelToolCalls: true,
         reasoningEffort: "high",
     }),
+    inputProcessors: [secretRedactionProcessor],
+    outputProcessors: [secretRedactionProcessor],
     tools: {
         exec_command: cliTool,
         docker_exec: dockerExecTool,
@@ -4,6 +4,7 @@ import { openai } from "@ai-sdk/openai";
 import { taskLoggingTool } from "../tools/task-logging-tool";
 import { cliTool } from "../tools/cli-tool";
 import { dockerExecTool } from "../tools/docker-exec-tool";
+import { secretRedactionProcessor } from "../tools/redaction";
 
 export const testCoderAgent = new Agent({
     id: "testCoderAgent",
@@ -71,6 +72,8 @@ Always use task_logging to report your progress: start, planning, coding, valida
         parallelToolCalls: true,
         reasoningEffort: "high", // High reasoning for complex code generation and testing logic
     }),
+    inputProcessors: [secretRedactionProcessor],
+    outputProcessors: [secretRedactionProcessor],
     tools: {
         task_logging: taskLoggingTool,
         exec_command: cliTool,
@@ -6,6 +6,7 @@ import { coverageRunnerTool } from "../tools/coverage-runner-tool";
 import { coverageParseTool } from "../tools/coverage-parse-tool";
 import { cliTool } from "../tools/cli-tool";
 import { openai } from "@ai-sdk/openai";
+import { secretRedactionProcessor } from "../tools/redaction";
 
 export const testCoveringAgent = new Agent({
     id: "testCoveringAgent",
@@ -36,6 +37,8 @@ You must:
         parallelToolCalls: true,
         reasoningEffort: "low",
     }),
+    inputProcessors: [secretRedactionProcessor],
+    outputProcessors: [secretRedactionProcessor],
     tools: {
         coverage_detection: coverageDetectionTool,
         coverage_runner: coverageRunnerTool,
@@ -3,6 +3,7 @@ import { cliTool } from "../tools/cli-tool";
 import { dockerExecTool } from "../tools/docker-exec-tool";
 import { fileOperationsTool } from "../tools/file-operations-tool";
 import { openai } from "@ai-sdk/openai";
+import { secretRedactionProcessor } from "../tools/redaction";
 
 export const testGenerationAgent = new Agent({
     id: "testGenerationAgent",
@@ -50,6 +51,8 @@ Focus on generating production-ready test code that actually validates business
         parallelToolCalls: true,
         reasoningEffort: "high",
     }),
+    inputProcessors: [secretRedactionProcessor],
+    outputProcessors: [secretRedactionProcessor],
     tools: {
         exec_command: cliTool,
         docker_exec: dockerExecTool,
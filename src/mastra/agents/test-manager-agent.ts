@@ -4,6 +4,7 @@ import { openai } from "@ai-sdk/openai";
 import { taskLoggingTool } from "../tools/task-logging-tool";
 import { cliTool } from "../tools/cli-tool";
 import { dockerExecTool } from "../tools/docker-exec-tool";
+import { secretRedactionProcessor } from "../tools/redaction";
 
 export const testManagerAgent = new Agent({
     id: "testManagerAgent",
@@ -55,6 +56,8 @@ Always start by logging your planning phase and end by logging completion status
         parallelToolCalls: true,
         reasoningEffort: "high", // High reasoning for complex coordination and planning tasks
     }),
+    inputProcessors: [secretRedactionProcessor],
+    outputProcessors: [secretRedactionProcessor],
     tools: {
         task_logging: taskLoggingTool,
         exec_command: cliTool,
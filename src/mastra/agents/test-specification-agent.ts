@@ -2,6 +2,7 @@ import { Agent } from "@mastra/core";
 import { cliTool } from "../tools/cli-tool";
 import { dockerExecTool } from "../tools/docker-exec-tool";
 import { openai } from "@ai-sdk/openai";
+import { secretRedactionProcessor } from "../tools/redaction";
 
 export const testSpecificationAgent = new Agent({
     id: "testSpecificationAgent",
@@ -45,6 +46,8 @@ Focus on creating thorough, well-organized test specifications that ensure compl
         parallelToolCalls: true,
         reasoningEffort: "high",
     }),
+    inputProcessors: [secretRedactionProcessor],
+    outputProcessors: [secretRedactionProcessor],
     tools: {
         exec_command: cliTool,
         docker_exec: dockerExecTool,
@@ -2,6 +2,7 @@ import { Agent } from "@mastra/core";
 import { cliTool } from "../tools/cli-tool";
 import { dockerExecTool } from "../tools/docker-exec-tool";
 import { openai } from "@ai-sdk/openai";
+import { secretRedactionProcessor } from "../tools/redaction";
 
 export const testValidationAgent = new Agent({
     id: "testValidationAgent",
@@ -53,6 +54,8 @@ Be thorough in validation but practical in recommendations - focus on meaningful
         parallelToolCalls: true,
         reasoningEffort: "high",
     }),
+    inputProcessors: [secretRedactionProcessor],
+    outputProcessors: [secretRedactionProcessor],
     tools: {
         exec_command: cliTool,
         docker_exec: dockerExecTool,
@@ -4,29 +4,32 @@ import { dockerExecTool } from "../tools/docker-exec-tool";
 import { codeAnalysisTool } from "../tools/code-analysis-tool";
 import { fileOperationsTool } from "../tools/file-operations-tool";
 import { openai } from "@ai-sdk/openai";
+import { secretRedactionProcessor } from "../tools/redaction";
 
 export const unitTestAgent = new Agent({
     id: "unitTestAgent", 
     name: "Unit Test Generation Manager",
-    instructions: `You are a simple unit test generator focused on creating basic vitest test files.
+    instructions: `You are a simple unit test generator focused on creating basic test files for the framework named in the task.
 
 SIMPLE RESPONSIBILITIES:
-- Generate basic unit test files using vitest framework
+- Generate basic unit test files using the task's FRAMEWORK (vitest, jest or pytest)
 - Read source files and create corresponding test files
 - Use simple mocking and testing patterns
 - Focus on functional tests that work
 
 BASIC APPROACH:
 - Read the source file to understand structure
-- Create test file with vitest imports and mocks
+- Create test file with the framework's imports and mocks
 - Write simple test cases covering main functionality
 - Use straightforward assertions and mocking
 - Keep tests simple but functional
 
 REQUIREMENTS:
-- Use vitest syntax (vi.mock, vi.fn, expect, describe, it)
+- FRAMEWORK: vitest → vitest syntax (import from 'vitest'; vi.mock, vi.fn, vi.mocked, expect, describe, it)
+- FRAMEWORK: jest → Jest syntax (jest.mock, jest.fn, jest.mocked, expect, describe, it as globals); never import from 'vitest' or use vi.*
 - Mock external dependencies like child_process, fs
 - Create co-located test files (.test.ts next to source)
+- For Python sources (FRAMEWORK: pytest) write pytest tests with unittest.mock instead, at the test path given in the task
 - Follow basic testing patterns
 - Return JSON responses when requested
 
@@ -35,6 +38,8 @@ Keep it simple and functional. Focus on creating working test files quickly.`,
         parallelToolCalls: true,
         reasoningEffort: "low", // Changed from "high" to "low" for MVP validation
     }),
+    inputProcessors: [secretRedactionProcessor],
+    outputProcessors: [secretRedactionProcessor],
     tools: {
         exec_command: cliTool,
         docker_exec: dockerExecTool,
@@ -1,7 +1,6 @@
 
 import { Mastra } from '@mastra/core/mastra';
 import { registerApiRoute } from '@mastra/core/server';
-import { PinoLogger } from '@mastra/loggers';
 import type { LogLevel } from '@mastra/loggers';
 import { LibSQLStore } from '@mastra/libsql';
 import { dockerAgent } from './agents/docker-agent';
@@ -21,12 +20,21 @@ import { testDockerWorkflow } from './workflows/test/01-docker-test-workflow';
 import { gatherContextWorkflow } from './workflows/test/02-gather-context-workflow';
 import { generateUnitTestsWorkflow } from './workflows/test/03-generate-unit-tests-workflow';
 import { githubPrWorkflow } from './workflows/test/04-github-pr-workflow';
+import { patchExportWorkflow } from './workflows/test/04-patch-export-workflow';
 import { testCoverageWorkflow } from './workflows/test/05-test-coverage-workflow';
 // import { unitTestWorkflow } from './workflows/unit-test-workflow';
 import { fullPipelineWorkflow } from './workflows/full-pipeline-workflow';
-import { writeFileSync } from 'fs';
-import path from 'path';
-import { associateRunWithProject } from './tools/alert-notifier';
+import { associateRunWithProject, notifyStepStatus, resolveProjectIdForRun } from './tools/alert-notifier';
+import { prepareRunResume } from './tools/run-resume';
+import { cancelPipelineRun, enqueuePipelineRun, getPipelineRunStatus, isPipelineRunActive, releasePipelineRun, trackPipelineRun } from './tools/pipeline-runs';
+import { cleanupRunContainer, discardWorkspaceSnapshot, setKeepContainer, snapshotRunWorkspace, startContainerSweeper } from './tools/container-lifecycle';
+import { deleteRunSecrets, GIT_TOKEN_SECRET, putRunSecret } from './tools/secret-store';
+import { redact, redactError, RedactingPinoLogger } from './tools/redaction';
+import { CloneOptionsSchema } from './tools/clone-options';
+import { GenerationBudgetSchema } from './tools/generation-budget';
+import { discardUploadedSource, getPatchArtifactPath, readMultipartStartBody, resolveLocalSource, type LocalSource } from './tools/local-source';
+import { readFileSync } from 'fs';
+import { getStoredRun, listAlerts, listStepOutputs, listStoredRuns, markInterruptedRuns, storageClient, updateRunStatus } from './tools/run-store';
 
 // Runtime log/telemetry controls
 const LOG_MODE = process.env.LOG_MODE || process.env.MASTRA_LOG_MODE || (process.env.ALERTS_ONLY === 'true' ? 'alerts_only' : 'default');
@@ -40,8 +48,61 @@ const getLogLevel = (): LogLevel => {
   return level;
 };
 
+const GIT_TOKEN_ERROR = 'Missing required git host access token in body (token | gitToken | githubToken | github_access_token | GITHUB_PAT)';
+
+// Body fields a git host token may arrive in, in order of precedence
+const GIT_TOKEN_FIELDS = ['token', 'gitToken', 'githubToken', 'github_access_token', 'GITHUB_PAT'];
+
+function readGitAccessToken(authHeader: string | undefined, body: any): string | undefined {
+  const headerToken = authHeader && authHeader.startsWith('Bearer ')
+    ? authHeader.slice(7).trim()
+    : undefined;
+  const token = headerToken || GIT_TOKEN_FIELDS.map((field) => body[field]).find(Boolean);
+  return typeof token === 'string' && token ? token : undefined;
+}
+
+// Workflow input lands in Mastra's snapshot unredacted and is written into the sandbox, so the token fields
+// never travel with the context data; the token reaches the steps through the secret store only
+function withoutGitTokens(contextData: unknown): unknown {
+  if (!contextData || typeof contextData !== 'object' || Array.isArray(contextData)) return contextData;
+  return Object.fromEntries(Object.entries(contextData).filter(([key]) => !GIT_TOKEN_FIELDS.includes(key)));
+}
+
+type PipelineRun = Awaited<ReturnType<typeof fullPipelineWorkflow.createRunAsync>>;
+
+/**
+ * Track and queue a full pipeline run. Fresh and resumed runs share the teardown: a failed run leaves a
+ * workspace snapshot behind before its container goes, so a later resume can rebuild the sandbox from it.
+ */
+function launchPipelineRun(run: PipelineRun, inputData: Record<string, unknown>, onSettled?: () => void): { queued: boolean; queuePosition?: number } {
+  trackPipelineRun(run as any);
+  return enqueuePipelineRun(run.runId, () => {
+    console.log(`[start-full-pipeline] Starting run ${run.runId}`);
+    let status = 'failed';
+    return run.start({ inputData: inputData as any })
+      .then((result: any) => {
+        status = result.status;
+        console.log(`[start-full-pipeline] Run ${run.runId} completed with status: ${result.status}`);
+        return updateRunStatus(run.runId, result.status).catch(() => undefined);
+      })
+      .catch((err: any) => {
+        console.error(`[start-full-pipeline] Run ${run.runId} failed:`, redactError(err));
+        return updateRunStatus(run.runId, 'failed').catch(() => undefined);
+      })
+      .finally(async () => {
+        releasePipelineRun(run.runId);
+        deleteRunSecrets(run.runId);
+        onSettled?.();
+        if (status === 'failed') await snapshotRunWorkspace(run.runId);
+        else if (status === 'success') discardWorkspaceSnapshot(run.runId);
+        // Finished, failed and cancelled runs all give their container back unless keepContainer was requested
+        await cleanupRunContainer(run.runId);
+      });
+  });
+}
+
 export const mastra = new Mastra({
-  workflows: { testDockerWorkflow, gatherContextWorkflow, generateUnitTestsWorkflow, githubPrWorkflow, testCoverageWorkflow, fullPipelineWorkflow },
+  workflows: { testDockerWorkflow, gatherContextWorkflow, generateUnitTestsWorkflow, githubPrWorkflow, patchExportWorkflow, testCoverageWorkflow, fullPipelineWorkflow },
   agents: { 
     dockerAgent, 
     contextAgent, 
@@ -57,74 +118,283 @@ export const mastra = new Mastra({
     // testManagerAgent, // COMMENTED OUT FOR MVP VALIDATION
     // testCoderAgent    // COMMENTED OUT FOR MVP VALIDATION
   },
+  // Run snapshots, telemetry and evals share the run store's database (MASTRA_STORAGE_URL, file-backed by default)
   storage: new LibSQLStore({
-    // stores telemetry, evals, ... into memory storage, if it needs to persist, change to file:../mastra.db
-    url: ":memory:",
+    client: storageClient,
   }),
   server: {
     apiRoutes: [
       registerApiRoute('/start-full-pipeline', {
         method: 'POST',
         handler: async (c) => {
+          // multipart/form-data carries an uploaded .tar.gz in the `source` part; everything else is JSON
+          const isMultipart = (c.req.header('content-type') || '').includes('multipart/form-data');
+          let source: LocalSource | undefined;
+          let started = false;
           try {
-            const body = await c.req.json().catch(() => ({}));
-            const authHeader = c.req.header('authorization') || c.req.header('Authorization');
-            const headerToken = authHeader && authHeader.startsWith('Bearer ')
-              ? authHeader.slice(7).trim()
-              : undefined;
-            const githubAccessToken = headerToken || body.token || body.githubToken || body.github_access_token || body.GITHUB_PAT;
-            const contextData = body.contextData ?? body;
+            let body: any;
+            try {
+              body = isMultipart
+                ? await readMultipartStartBody(await c.req.parseBody({ all: true }))
+                : await c.req.json().catch(() => ({}));
+            } catch (err) {
+              return c.json({ error: err instanceof Error ? err.message : String(err) }, 400);
+            }
+            // Token for whichever host repositoryUrl points at (GitHub, GitLab or Bitbucket)
+            const gitAccessToken = readGitAccessToken(c.req.header('authorization') || c.req.header('Authorization'), body);
+            const repositoryUrl: string | undefined = typeof body.repositoryUrl === 'string' ? body.repositoryUrl : undefined;
+            const ref: string | undefined = typeof body.ref === 'string' && body.ref.trim() ? body.ref.trim() : undefined;
+            const pullRequestNumber = body.pullRequestNumber !== undefined ? Number(body.pullRequestNumber) : undefined;
+            const cloneOptions = body.cloneOptions !== undefined ? CloneOptionsSchema.safeParse(body.cloneOptions) : undefined;
+            const generationBudget = body.generationBudget !== undefined ? GenerationBudgetSchema.safeParse(body.generationBudget) : undefined;
+            const contextData = withoutGitTokens(body.contextData ?? body);
             const projectId: string = body.projectId || body.projectID || body.project_id;
+            const keepContainer = body.keepContainer === true || body.keepContainer === 'true';
 
-            if (!githubAccessToken || typeof githubAccessToken !== 'string') {
-              return c.json({ error: 'Missing required GitHub access token in body (token | githubToken | github_access_token | GITHUB_PAT)' }, 400);
+            if (body.source !== undefined) {
+              try {
+                source = resolveLocalSource(body.source, { allowUploads: isMultipart });
+              } catch (err) {
+                if (isMultipart) discardUploadedSource(body.source);
+                return c.json({ error: err instanceof Error ? err.message : String(err) }, 400);
+              }
             }
 
-            if (!projectId || typeof projectId !== 'string') {
-              return c.json({ error: 'Missing required projectId in body (projectId | projectID | project_id)' }, 400);
+            // Local sources never reach a git host, so they need no token
+            if (!source && !gitAccessToken) {
+              return c.json({ error: `${GIT_TOKEN_ERROR}, or a local source` }, 400);
+            }
+
+            if (pullRequestNumber !== undefined && (!Number.isInteger(pullRequestNumber) || pullRequestNumber <= 0)) {
+              return c.json({ error: 'pullRequestNumber must be a positive integer' }, 400);
             }
 
-            const credentialsContent = `GITHUB_PAT=${githubAccessToken}\n`;
+            if (cloneOptions && !cloneOptions.success) {
+              return c.json({ error: `Invalid cloneOptions: ${cloneOptions.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')}` }, 400);
+            }
 
-            const cwd = process.cwd();
-            const primaryPath = path.resolve(cwd, '.docker.credentials');
-            const fallbackPath = path.resolve(cwd, '..', '..', '.docker.credentials');
+            if (generationBudget && !generationBudget.success) {
+              return c.json({ error: `Invalid generationBudget: ${generationBudget.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')}` }, 400);
+            }
 
-            try { writeFileSync(primaryPath, credentialsContent, 'utf8'); } catch {}
-            try { writeFileSync(fallbackPath, credentialsContent, 'utf8'); } catch {}
+            if (!projectId || typeof projectId !== 'string') {
+              return c.json({ error: 'Missing required projectId in body (projectId | projectID | project_id)' }, 400);
+            }
 
             const workflow = (c.get('mastra') as typeof mastra).getWorkflow('fullPipelineWorkflow');
             const run = await workflow.createRunAsync();
 
             // Associate run with project (projectId is now required and validated above)
             associateRunWithProject(run.runId, projectId);
+            // Token lives only in memory for this run; clone and PR steps read it from the secret store
+            if (gitAccessToken) putRunSecret(run.runId, GIT_TOKEN_SECRET, gitAccessToken);
+            setKeepContainer(run.runId, keepContainer);
 
-            // Fire-and-forget with visible logging
-            setImmediate(() => {
-              try {
-                console.log(`[start-full-pipeline] Starting run ${run.runId}`);
-                run.start({ inputData: { contextData, projectId } })
-                  .then((result: any) => {
-                    console.log(`[start-full-pipeline] Run ${run.runId} completed with status: ${result.status}`);
-                  })
-                  .catch((err: any) => {
-                    console.error(`[start-full-pipeline] Run ${run.runId} failed:`, err);
-                  });
-              } catch (err) {
-                console.error(`[start-full-pipeline] Failed to schedule run ${run.runId}:`, err);
-              }
-            });
+            // Fire-and-forget with visible logging; runs beyond PIPELINE_MAX_CONCURRENCY wait in a queue
+            const { queued, queuePosition } = launchPipelineRun(
+              run,
+              { contextData, projectId, repositoryUrl, ref, pullRequestNumber, cloneOptions: cloneOptions?.data, generationBudget: generationBudget?.data, source },
+              () => { if (isMultipart) discardUploadedSource(source); },
+            );
+
+            started = true;
+
+            if (queued) {
+              console.log(`[start-full-pipeline] Run ${run.runId} queued at position ${queuePosition}`);
+              return c.json({ message: 'fullPipelineWorkflow queued', runId: run.runId, queuePosition });
+            }
 
             return c.json({ message: 'fullPipelineWorkflow started', runId: run.runId });
           } catch (err) {
             const message = err instanceof Error ? err.message : 'Unknown error';
             return c.json({ error: message }, 500);
+          } finally {
+            // Uploads belong to the run once it is enqueued; before that they are ours to clean up
+            if (!started && isMultipart) discardUploadedSource(source);
+          }
+        }
+      }),
+      registerApiRoute('/pipeline-runs', {
+        method: 'GET',
+        handler: async (c) => {
+          try {
+            const projectId = c.req.query('projectId') || undefined;
+            const limit = c.req.query('limit') ? Number(c.req.query('limit')) : undefined;
+            const runs = await listStoredRuns({ projectId, limit: Number.isFinite(limit) ? limit : undefined });
+            return c.json({ runs });
+          } catch (err) {
+            const message = err instanceof Error ? err.message : 'Unknown error';
+            return c.json({ error: message }, 500);
+          }
+        }
+      }),
+      registerApiRoute('/pipeline-runs/:runId', {
+        method: 'GET',
+        handler: async (c) => {
+          try {
+            const runId = c.req.param('runId');
+            const workflow = (c.get('mastra') as typeof mastra).getWorkflow('fullPipelineWorkflow');
+            const status = await getPipelineRunStatus(workflow, runId);
+
+            if (!status) {
+              return c.json({ error: `Pipeline run ${runId} not found` }, 404);
+            }
+
+            return c.json(redact(status));
+          } catch (err) {
+            const message = err instanceof Error ? err.message : 'Unknown error';
+            return c.json({ error: message }, 500);
+          }
+        }
+      }),
+      registerApiRoute('/pipeline-runs/:runId/alerts', {
+        method: 'GET',
+        handler: async (c) => {
+          try {
+            const runId = c.req.param('runId');
+            if (!(await getStoredRun(runId))) {
+              return c.json({ error: `Pipeline run ${runId} not found` }, 404);
+            }
+            return c.json({ runId, alerts: await listAlerts(runId) });
+          } catch (err) {
+            const message = err instanceof Error ? err.message : 'Unknown error';
+            return c.json({ error: message }, 500);
+          }
+        }
+      }),
+      registerApiRoute('/pipeline-runs/:runId/outputs', {
+        method: 'GET',
+        handler: async (c) => {
+          try {
+            const runId = c.req.param('runId');
+            if (!(await getStoredRun(runId))) {
+              return c.json({ error: `Pipeline run ${runId} not found` }, 404);
+            }
+            return c.json({ runId, steps: await listStepOutputs(runId) });
+          } catch (err) {
+            const message = err instanceof Error ? err.message : 'Unknown error';
+            return c.json({ error: message }, 500);
+          }
+        }
+      }),
+      registerApiRoute('/pipeline-runs/:runId/artifacts/:name', {
+        method: 'GET',
+        handler: async (c) => {
+          try {
+            const runId = c.req.param('runId');
+            const name = c.req.param('name');
+            const file = getPatchArtifactPath(runId, name);
+
+            if (!file) {
+              return c.json({ error: `Artifact ${name} not found for pipeline run ${runId}` }, 404);
+            }
+
+            const contentType = name.endsWith('.patch') ? 'text/x-diff; charset=utf-8' : 'application/octet-stream';
+            return c.body(readFileSync(file), 200, {
+              'Content-Type': contentType,
+              'Content-Disposition': `attachment; filename="${name}"`,
+            });
+          } catch (err) {
+            const message = err instanceof Error ? err.message : 'Unknown error';
+            return c.json({ error: message }, 500);
+          }
+        }
+      }),
+      registerApiRoute('/pipeline-runs/:runId/resume', {
+        method: 'POST',
+        handler: async (c) => {
+          try {
+            const runId = c.req.param('runId');
+            const body: any = await c.req.json().catch(() => ({}));
+            const workflow = (c.get('mastra') as typeof mastra).getWorkflow('fullPipelineWorkflow');
+            const status = await getPipelineRunStatus(workflow, runId);
+
+            if (!status) {
+              return c.json({ error: `Pipeline run ${runId} not found` }, 404);
+            }
+
+            // Interrupted runs report as failed, so they are resumable too
+            if (isPipelineRunActive(runId) || (status.status !== 'failed' && status.status !== 'canceled')) {
+              return c.json({ error: `Pipeline run ${runId} cannot be resumed (status: ${status.status})` }, 409);
+            }
+
+            const persisted = await workflow.getWorkflowRunExecutionResult(runId);
+            const inputData: Record<string, any> = (persisted?.payload as Record<string, any>) || {};
+            const projectId = (await resolveProjectIdForRun(runId)) || inputData.projectId;
+            // Tokens are never persisted, so the caller supplies one again
+            const gitAccessToken = readGitAccessToken(c.req.header('authorization') || c.req.header('Authorization'), body);
+
+            if (!inputData.source && !gitAccessToken) {
+              return c.json({ error: GIT_TOKEN_ERROR }, 400);
+            }
+
+            if (!projectId) {
+              return c.json({ error: `Pipeline run ${runId} has no projectId to resume with` }, 409);
+            }
+
+            const run = await workflow.createRunAsync({ runId });
+            associateRunWithProject(runId, projectId);
+            if (gitAccessToken) putRunSecret(runId, GIT_TOKEN_SECRET, gitAccessToken);
+            setKeepContainer(runId, body.keepContainer === true || body.keepContainer === 'true');
+
+            const { plan, container } = await prepareRunResume({ runId, projectId, steps: (persisted?.steps || {}) as Record<string, any> });
+            const replayedSteps = Object.keys(plan.outputs);
+            const resumeFrom = status.steps.find((step) => !replayedSteps.includes(step.stepId))?.stepId;
+
+            await notifyStepStatus({
+              stepId: 'full-pipeline-workflow',
+              status: 'starting',
+              runId,
+              projectId,
+              title: 'Pipeline resumed',
+              subtitle: resumeFrom ? `Resuming from ${resumeFrom} (container ${container})` : `Replaying all steps (container ${container})`,
+              metadata: { resumeFrom, container, replayedSteps },
+            });
+            await updateRunStatus(runId, 'pending').catch(() => undefined);
+
+            const { queued, queuePosition } = launchPipelineRun(run, inputData);
+            const response = { runId, resumeFrom, container, replayedSteps };
+
+            if (queued) {
+              console.log(`[start-full-pipeline] Resumed run ${runId} queued at position ${queuePosition}`);
+              return c.json({ message: 'fullPipelineWorkflow resume queued', ...response, queuePosition });
+            }
+
+            return c.json({ message: 'fullPipelineWorkflow resumed', ...response });
+          } catch (err) {
+            const message = err instanceof Error ? err.message : 'Unknown error';
+            return c.json({ error: message }, 500);
+          }
+        }
+      }),
+      registerApiRoute('/pipeline-runs/:runId/cancel', {
+        method: 'POST',
+        handler: async (c) => {
+          try {
+            const runId = c.req.param('runId');
+            const workflow = (c.get('mastra') as typeof mastra).getWorkflow('fullPipelineWorkflow');
+            const status = await getPipelineRunStatus(workflow, runId);
+
+            if (!status) {
+              return c.json({ error: `Pipeline run ${runId} not found` }, 404);
+            }
+
+            if (!isPipelineRunActive(runId)) {
+              return c.json({ error: `Pipeline run ${runId} is not running (status: ${status.status})` }, 409);
+            }
+
+            const result = await cancelPipelineRun(runId);
+            return c.json({ message: 'fullPipelineWorkflow cancelled', ...result });
+          } catch (err) {
+            const message = err instanceof Error ? err.message : 'Unknown error';
+            return c.json({ error: message }, 500);
           }
         }
       })
     ]
   },
-  logger: new PinoLogger({
+  // Every log line goes through the redaction layer before reaching Pino
+  logger: new RedactingPinoLogger({
     name: 'Mastra',
     // Set to 'silent' when running in alerts-only mode to suppress all logs except notifyStepStatus
     level: getLogLevel(),
@@ -141,3 +411,29 @@ export const mastra = new Mastra({
     },
   },
 });
+
+// Runs this server was executing when it last stopped can never finish. The routes may already serve by the
+// time the update runs, so only runs last touched before this point are marked.
+markInterruptedRuns(new Date())
+  .then((runIds) => {
+    if (runIds.length > 0) console.log(`[run-store] Marked ${runIds.length} run(s) interrupted by the last restart`);
+  })
+  .catch((err) => console.warn('[run-store] Failed to mark interrupted runs:', err instanceof Error ? err.message : err));
+
+// Periodically remove labelled run containers that outlived their TTL or whose run has finished
+const FINISHED_RUN_STATUSES = ['success', 'failed', 'canceled', 'interrupted'];
+startContainerSweeper({
+  isRunFinished: async (runId) => {
+    if (isPipelineRunActive(runId)) return false;
+    // Pipeline runs are recorded; interrupted ones keep a `running` snapshot forever, so the run store knows better
+    const stored = await getStoredRun(runId);
+    if (stored) return FINISHED_RUN_STATUSES.includes(stored.status);
+    // Standalone workflow runs have no record, only their snapshot. A run without a snapshot may not have
+    // saved one yet, so it counts as unfinished and its container waits for the TTL.
+    for (const workflow of Object.values(mastra.getWorkflows())) {
+      const state = await workflow.getWorkflowRunExecutionResult(runId);
+      if (state) return FINISHED_RUN_STATUSES.includes(state.status);
+    }
+    return false;
+  },
+});
@@ -1,4 +1,6 @@
 import z from "zod";
+import { redact } from "./redaction";
+import { getStoredRun, recordAlert, recordRun } from "./run-store";
 
 export const AlertLevelSchema = z.enum(['debug', 'info', 'success', 'warning', 'error']);
 export type AlertLevel = z.infer<typeof AlertLevelSchema>;
@@ -34,17 +36,30 @@ export const AlertEventSchema = z.object({
 });
 export type AlertEventPayload = z.infer<typeof AlertEventSchema>;
 
-// In-memory association between a run and the project it belongs to.
+// Association between a run and the project it belongs to, cached in memory and persisted in the run store.
 // This lets us enrich alerts with projectId without forcing every step to pass it explicitly.
 const runIdToProjectId = new Map<string, string>();
 export function associateRunWithProject(runId: string, projectId: string): void {
     if (runId && projectId) {
         runIdToProjectId.set(runId, projectId);
+        recordRun(runId, projectId).catch((err) => {
+            // eslint-disable-next-line no-console
+            console.warn('associateRunWithProject: failed to persist run', err instanceof Error ? err.message : err);
+        });
     }
 }
 export function getProjectIdForRun(runId?: string): string | undefined {
     return runId ? runIdToProjectId.get(runId) : undefined;
 }
+// Same as getProjectIdForRun, falling back to the run store for runs started before a restart
+export async function resolveProjectIdForRun(runId?: string): Promise<string | undefined> {
+    if (!runId) return undefined;
+    const cached = runIdToProjectId.get(runId);
+    if (cached) return cached;
+    const projectId = await getStoredRun(runId).then((run) => run?.projectId).catch(() => undefined);
+    if (projectId) runIdToProjectId.set(runId, projectId);
+    return projectId;
+}
 
 function getAlertsApiUrl(): string {
     const baseUrl = process.env.BASE_URL || 'http://localhost:3000';
@@ -59,15 +74,25 @@ export async function sendAlertEvent(payload: AlertEventPayload): Promise<void>
             // eslint-disable-next-line no-console
             console.warn('sendAlertEvent: invalid payload', safe.error.flatten());
         }
+        // Titles, subtitles and metadata often embed command output; mask secrets before they leave
+        const safePayload = redact(payload);
+        const event = {
+            ...safePayload,
+            level: payload.level || 'info',
+            source: payload.source || 'mastra-agent',
+            timestamp: payload.timestamp || new Date().toISOString(),
+        };
+        // Keep run alerts in the run store so the history survives backend outages and restarts
+        if (event.runId) {
+            await recordAlert({ ...event, runId: event.runId }).catch((err) => {
+                // eslint-disable-next-line no-console
+                console.warn('sendAlertEvent: failed to persist alert', err instanceof Error ? err.message : err);
+            });
+        }
         const res = await fetch(getAlertsApiUrl(), {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-                ...payload,
-                level: payload.level || 'info',
-                source: payload.source || 'mastra-agent',
-                timestamp: payload.timestamp || new Date().toISOString(),
-            }),
+            body: JSON.stringify(event),
         });
 
         // Swallow non-2xx but log to console for debugging
@@ -97,8 +122,8 @@ export async function notifyStepStatus(params: {
 }): Promise<void> {
     const { stepId, status, runId, projectId: paramProjectId, containerId, contextPath, toolCallCount, level, title, subtitle, metadata } = params;
 
-    // Resolve projectId from param or association map
-    const projectId = paramProjectId || getProjectIdForRun(runId);
+    // Resolve projectId from param, association map or run store
+    const projectId = paramProjectId || await resolveProjectIdForRun(runId);
 
     // console.log("🔔 Notifying step status", {
     //     title: title || `[${stepId}] ${status}`,
@@ -166,6 +191,12 @@ export function formatFriendlyAlert(title?: string, subtitle?: string): string {
     if (/^repository cloned$/i.test(rawTitle)) {
         return 'Repository cloned successfully';
     }
+    if (/^provisioning sandbox$/i.test(rawTitle)) {
+        return 'Selecting sandbox toolchain image';
+    }
+    if (/^sandbox provisioned$/i.test(rawTitle)) {
+        return join('Sandbox ready', rawSubtitle || undefined);
+    }
     if (/^saving context to container$/i.test(rawTitle)) {
         const hasData = /provided/i.test(rawSubtitle);
         return `Saving context to container — ${hasData ? 'with data' : 'no data'}`;
@@ -252,6 +283,11 @@ export function formatFriendlyAlert(title?: string, subtitle?: string): string {
         return join('Finalized', rawSubtitle || undefined);
     }
 
+    // ----- Pipeline control -----
+    if (/^pipeline cancelled$/i.test(rawTitle)) {
+        return join('Pipeline cancelled', rawSubtitle || undefined);
+    }
+
     // ----- Generic failures -----
     if (/failed$/i.test(rawTitle)) {
         const base = rawTitle.replace(/\s*failed$/i, '').trim();
@@ -1,11 +1,12 @@
 import { createTool } from "@mastra/core";
 import z from "zod";
+import { withRedaction } from "./redaction";
 
 export const cliToolMetrics = {
     callCount: 0,
 };
 
-export const cliTool = createTool({
+export const cliTool = withRedaction(createTool({
     id: "exec_command",
     description: "Run a shell command locally",
     inputSchema: z.object({
@@ -31,4 +32,4 @@ export const cliTool = createTool({
             });
         });
     },
-});
\ No newline at end of file
+}));
\ No newline at end of file
@@ -0,0 +1,59 @@
+import z from "zod";
+
+// Clone tuning for large repositories: shallow history, sparse (cone) checkout, submodules and LFS.
+export const CloneOptionsSchema = z.object({
+    depth: z.number().int().positive().optional().describe("Shallow clone depth (history is truncated to this many commits)"),
+    sparsePaths: z.array(z.string()).optional().describe("Directories to check out in cone mode, e.g. ['packages/billing']; top-level files are always included"),
+    recurseSubmodules: z.boolean().optional().describe("Initialise and update submodules after checkout"),
+    lfs: z.boolean().optional().describe("Download Git LFS objects (pointer files are left in place otherwise)"),
+});
+export type CloneOptions = z.infer<typeof CloneOptionsSchema>;
+
+const SAFE_PATH = /^[\w.@+\/-]+$/;
+
+/**
+ * Normalise sparse paths to repo-relative directories without leading "./" or trailing "/".
+ * Throws on anything that could escape the repository or the shell.
+ */
+export function normalizeSparsePaths(paths?: string[]): string[] {
+    const out: string[] = [];
+    for (const raw of paths || []) {
+        const p = String(raw).trim().replace(/^\.\/+/, '').replace(/^\/+/, '').replace(/\/+$/, '');
+        if (!p) continue;
+        if (!SAFE_PATH.test(p) || p.split('/').includes('..') || p.startsWith('-')) {
+            throw new Error(`Invalid sparse checkout path: ${raw}`);
+        }
+        if (!out.includes(p)) out.push(p);
+    }
+    return out;
+}
+
+// Repo-relative form of a path reported by an agent ("/app/<repo>/x", "./x" or "x")
+function toRepoRelative(filePath: string, repoPath?: string): string {
+    let p = filePath.trim();
+    if (repoPath && p.startsWith(`${repoPath}/`)) p = p.slice(repoPath.length + 1);
+    else if (p.startsWith('/app/')) p = p.split('/').slice(3).join('/');
+    return p.replace(/^\.\/+/, '');
+}
+
+/**
+ * Whether a file was checked out under the sparse scope. Without sparse paths everything is in scope;
+ * top-level files are always present in cone mode.
+ */
+export function isInSparseScope(filePath: string, sparsePaths?: string[], repoPath?: string): boolean {
+    if (!sparsePaths || sparsePaths.length === 0) return true;
+    const rel = toRepoRelative(filePath, repoPath);
+    if (!rel.includes('/')) return true;
+    return sparsePaths.some((p) => rel === p || rel.startsWith(`${p}/`));
+}
+
+// Prompt block that keeps agents inside the sparse checkout. Empty when the full tree was cloned.
+export function describeSparseScope(sparsePaths?: string[]): string {
+    if (!sparsePaths || sparsePaths.length === 0) return '';
+    return `
+SPARSE CHECKOUT SCOPE (MANDATORY):
+- Only these directories were checked out (plus top-level files): ${sparsePaths.join(', ')}
+- Other directories do not exist on disk. Do not list, read, analyze or plan tests for paths outside this scope.
+- Run source scans from these directories instead of the repository root (e.g. find ${sparsePaths[0]} -name "*.ts").
+- Any new test file must be created inside one of these directories.`;
+}
@@ -1,10 +1,25 @@
 import { createTool } from "@mastra/core";
 import z from "zod";
 import { cliToolMetrics } from "./cli-tool";
+import { withRedaction } from "./redaction";
+import { analyzeTypeScriptSources, isTypeScriptAnalyzable, readContainerFiles, type SourceAnalysis } from "./source-analysis";
+import { analyzePythonSources, isPythonAnalyzable } from "./python-analysis";
 
-export const codeAnalysisTool = createTool({
+// The parts of a compiler analysis each analysis type returns
+function selectAnalysis(analysis: SourceAnalysis, analysisType: string): Partial<SourceAnalysis> {
+    const { filePath, language, lineCount, parseErrors, exports, functions, imports } = analysis;
+    switch (analysisType) {
+        case "structure": return { filePath, language, lineCount, parseErrors, exports };
+        case "functions": return { functions };
+        case "dependencies": return { imports };
+        case "exports": return { exports, functions: functions.filter((f) => f.exported) };
+        default: return analysis;
+    }
+}
+
+export const codeAnalysisTool = withRedaction(createTool({
     id: "code_analysis",
-    description: "Perform deep analysis of source code files to extract structure, functions, classes, and testing requirements",
+    description: "Perform deep analysis of source code files to extract structure, functions, classes, and testing requirements. TypeScript/JavaScript files are parsed with the TypeScript compiler and Python files with the `ast` module: exported symbols and their kinds, parameter and return types, async-ness, thrown errors, decorators, relative vs package imports and cyclomatic complexity per function.",
     inputSchema: z.object({
         containerId: z.string().describe("Docker container ID to run analysis in"),
         filePath: z.string().describe("Path to the source code file to analyze"),
@@ -26,6 +41,26 @@ export const codeAnalysisTool = createTool({
         // Count every tool invocation
         cliToolMetrics.callCount += 1;
 
+        // Missing and oversized files, and Python files in sandboxes without an interpreter, fall through to the
+        // grep analysis below
+        let analysis: SourceAnalysis | undefined;
+        if (isPythonAnalyzable(filePath, language)) {
+            [analysis] = await analyzePythonSources(containerId, [filePath]).catch(() => []);
+        } else if (isTypeScriptAnalyzable(filePath, language)) {
+            const [file] = await readContainerFiles(containerId, [filePath]);
+            if (file) [analysis] = analyzeTypeScriptSources([file]);
+        }
+        if (analysis) {
+            return {
+                filePath,
+                analysisType,
+                language: analysis.language,
+                fileExists: true,
+                analysis: selectAnalysis(analysis, analysisType),
+                timestamp: new Date().toISOString(),
+            };
+        }
+
         const { exec } = await import("child_process");
 
         // Build analysis commands based on type
@@ -43,11 +78,7 @@ export const codeAnalysisTool = createTool({
 
         if (analysisType === "functions" || analysisType === "full") {
             // Language-specific function extraction
-            if (language === "typescript" || language === "javascript" || filePath.endsWith(".ts") || filePath.endsWith(".js")) {
-                // Extract functions, classes, exports for TS/JS
-                commands.push(`docker exec ${containerId} bash -lc "grep -n 'function\\|class\\|const.*=\\|export' ${filePath} || true"`);
-                commands.push(`docker exec ${containerId} bash -lc "grep -n 'async\\|await\\|Promise' ${filePath} || true"`);
-            } else if (language === "python" || filePath.endsWith(".py")) {
+            if (language === "python" || filePath.endsWith(".py")) {
                 // Extract functions, classes for Python
                 commands.push(`docker exec ${containerId} bash -lc "grep -n 'def\\|class\\|@' ${filePath} || true"`);
             } else {
@@ -106,4 +137,4 @@ export const codeAnalysisTool = createTool({
 
         return analysisResult;
     },
-});
+}));
@@ -0,0 +1,311 @@
+import { exec } from "child_process";
+import { existsSync, mkdirSync, rmSync } from "fs";
+import path from "path";
+import os from "os";
+import { getSandboxNetworkArgs } from "./sandbox-network";
+
+// Containers are named and labelled per run so concurrent pipelines never touch each other's sandbox,
+// and so the sweeper can find every container this service created.
+export const RUN_CONTAINER_LABELS = {
+    managed: "yc.managed",
+    runId: "yc.runId",
+    projectId: "yc.projectId",
+    keep: "yc.keep",
+} as const;
+
+export function getRunContainerName(runId: string): string {
+    return `yc-run-${runId}`;
+}
+
+function sh(cmd: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        exec(cmd, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(stderr || error.message));
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
+
+export type SandboxLimits = {
+    memory: string;
+    cpus: string;
+    pidsLimit: number;
+    readOnlyRoot: boolean;
+    tmpSize: string;
+};
+
+// Resource limits for run sandboxes. Agents run arbitrary shell in there, so keep them bounded.
+export function getSandboxLimits(): SandboxLimits {
+    const pids = Number(process.env.SANDBOX_PIDS_LIMIT);
+    return {
+        memory: process.env.SANDBOX_MEMORY || "4g",
+        cpus: process.env.SANDBOX_CPUS || "2",
+        pidsLimit: Number.isFinite(pids) && pids > 0 ? Math.floor(pids) : 512,
+        readOnlyRoot: process.env.SANDBOX_READ_ONLY_ROOT !== 'false',
+        tmpSize: process.env.SANDBOX_TMP_SIZE || "512m",
+    };
+}
+
+function buildLimitArgs(limits: SandboxLimits): string {
+    const args = [
+        `--memory ${limits.memory}`,
+        `--memory-swap ${limits.memory}`,
+        `--cpus ${limits.cpus}`,
+        `--pids-limit ${limits.pidsLimit}`,
+        // Workspace and home are (anonymous) volumes so they stay writable and are dropped with `docker rm -v`
+        `--mount type=volume,target=/app`,
+        `--mount type=volume,target=/root`,
+    ];
+    if (limits.readOnlyRoot) {
+        args.push(`--read-only`, `--tmpfs /tmp:rw,exec,size=${limits.tmpSize}`);
+    }
+    return args.join(" ");
+}
+
+function shellEscape(str: string): string {
+    return "'" + str.replace(/'/g, "'\"'\"'") + "'";
+}
+
+/**
+ * Start a detached, labelled sandbox container for a run and return its full ID.
+ * `name` defaults to the run's canonical container name.
+ */
+export async function createRunContainer(params: {
+    runId: string;
+    projectId: string;
+    image: string;
+    name?: string;
+}): Promise<string> {
+    const { runId, projectId, image } = params;
+    const name = params.name || getRunContainerName(runId);
+    const limitArgs = buildLimitArgs(getSandboxLimits());
+    const networkArgs = await getSandboxNetworkArgs();
+    const labels = [
+        `--label ${RUN_CONTAINER_LABELS.managed}=true`,
+        `--label ${RUN_CONTAINER_LABELS.runId}=${runId}`,
+        `--label ${RUN_CONTAINER_LABELS.projectId}=${shellEscape(projectId)}`,
+        `--label ${RUN_CONTAINER_LABELS.keep}=${shouldKeepContainer(runId)}`,
+    ].join(" ");
+
+    // Remove a leftover container with the same name (e.g. a restarted step) to avoid conflicts
+    await sh(`docker rm -f -v ${name} || true`);
+    await sh(`docker run -d --name ${name} ${labels} ${limitArgs} ${networkArgs} ${image} tail -f /dev/null`);
+
+    const inspectOut = await sh(`docker inspect -f '{{.Id}}' ${name}`);
+    return (inspectOut || "").trim();
+}
+
+/**
+ * Move a run onto a new image: start a container from `image`, stream /app across,
+ * then replace the old container under the run's canonical name.
+ */
+export async function replaceRunContainer(params: {
+    runId: string;
+    projectId: string;
+    image: string;
+    fromContainerId: string;
+}): Promise<string> {
+    const { runId, projectId, image, fromContainerId } = params;
+    const name = getRunContainerName(runId);
+    const nextName = `${name}-next`;
+
+    const nextId = await createRunContainer({ runId, projectId, image, name: nextName });
+    try {
+        // Stream through tar so the copy lands in the /app volume even when the root filesystem is read-only
+        await sh(`docker exec ${fromContainerId} tar -C /app -cf - . | docker exec -i ${nextId} tar -C /app -xf -`);
+    } catch (error) {
+        await removeContainer(nextId);
+        throw error;
+    }
+    await removeContainer(fromContainerId);
+    await sh(`docker rename ${nextId} ${name}`);
+    return nextId;
+}
+
+export async function removeContainer(containerIdOrName: string): Promise<boolean> {
+    try {
+        await sh(`docker rm -f -v ${containerIdOrName}`);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+export async function isRunContainerRunning(runId: string): Promise<boolean> {
+    try {
+        return (await sh(`docker inspect -f '{{.State.Running}}' ${getRunContainerName(runId)}`)).trim() === "true";
+    } catch {
+        return false;
+    }
+}
+
+// Failed runs leave a gzipped tar of /app behind so a resume can rebuild the sandbox after the container is gone.
+// /app is a volume, so `docker commit` would not capture it.
+function getWorkspaceSnapshotDir(): string {
+    return process.env.RUN_SNAPSHOT_DIR || path.join(os.tmpdir(), "yc-snapshots");
+}
+
+export function getWorkspaceSnapshotPath(runId: string): string | undefined {
+    const file = path.join(getWorkspaceSnapshotDir(), `${runId}.tar.gz`);
+    return existsSync(file) ? file : undefined;
+}
+
+export async function snapshotRunWorkspace(runId: string): Promise<boolean> {
+    if (process.env.RUN_WORKSPACE_SNAPSHOTS === "false" || !(await isRunContainerRunning(runId))) return false;
+    mkdirSync(getWorkspaceSnapshotDir(), { recursive: true });
+    const file = path.join(getWorkspaceSnapshotDir(), `${runId}.tar.gz`);
+    try {
+        await sh(`docker exec ${getRunContainerName(runId)} tar -C /app -czf - . > ${shellEscape(file)}`);
+        return true;
+    } catch (error) {
+        rmSync(file, { force: true });
+        console.warn(`[container-lifecycle] Workspace snapshot of run ${runId} failed:`, error instanceof Error ? error.message : error);
+        return false;
+    }
+}
+
+export function discardWorkspaceSnapshot(runId: string): void {
+    rmSync(path.join(getWorkspaceSnapshotDir(), `${runId}.tar.gz`), { force: true });
+}
+
+/**
+ * Recreate a run's container on `image` and unpack its workspace snapshot into /app.
+ * Returns the new container ID.
+ */
+export async function restoreRunContainer(params: { runId: string; projectId: string; image: string }): Promise<string> {
+    const snapshot = getWorkspaceSnapshotPath(params.runId);
+    if (!snapshot) {
+        throw new Error(`No workspace snapshot for run ${params.runId}`);
+    }
+    const containerId = await createRunContainer(params);
+    try {
+        await sh(`gzip -dc ${shellEscape(snapshot)} | docker exec -i ${containerId} tar -C /app -xf -`);
+    } catch (error) {
+        await removeContainer(containerId);
+        throw error;
+    }
+    return containerId;
+}
+
+// Runs that asked to keep their container after completion (debugging aid).
+const keepContainerRunIds = new Set<string>();
+
+export function setKeepContainer(runId: string, keep: boolean): void {
+    if (keep) {
+        keepContainerRunIds.add(runId);
+    } else {
+        keepContainerRunIds.delete(runId);
+    }
+}
+
+export function shouldKeepContainer(runId?: string): boolean {
+    return runId ? keepContainerRunIds.has(runId) : false;
+}
+
+/**
+ * Remove the container of a finished run unless the run opted into keepContainer.
+ * Kept containers still expire through the sweeper TTL.
+ */
+export async function cleanupRunContainer(runId: string): Promise<{ removed: boolean; kept: boolean }> {
+    if (shouldKeepContainer(runId)) {
+        keepContainerRunIds.delete(runId);
+        console.log(`[container-lifecycle] Keeping container ${getRunContainerName(runId)} (keepContainer)`);
+        return { removed: false, kept: true };
+    }
+    const removed = await removeContainer(getRunContainerName(runId));
+    if (removed) {
+        console.log(`[container-lifecycle] Removed container ${getRunContainerName(runId)}`);
+    }
+    return { removed, kept: false };
+}
+
+type ManagedContainer = {
+    id: string;
+    createdAt: number;
+    runId?: string;
+    keep: boolean;
+};
+
+async function listManagedContainers(): Promise<ManagedContainer[]> {
+    const ids = (await sh(`docker ps -aq --filter label=${RUN_CONTAINER_LABELS.managed}=true`))
+        .split("\n")
+        .map((id) => id.trim())
+        .filter(Boolean);
+    if (ids.length === 0) return [];
+
+    const format = `{{.Id}}|{{.Created}}|{{index .Config.Labels "${RUN_CONTAINER_LABELS.runId}"}}|{{index .Config.Labels "${RUN_CONTAINER_LABELS.keep}"}}`;
+    const out = await sh(`docker inspect -f '${format}' ${ids.join(" ")}`);
+    return out
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .map((line) => {
+            const [id, created, runId, keep] = line.split("|");
+            return {
+                id,
+                createdAt: Date.parse(created),
+                runId: runId && runId !== "<no value>" ? runId : undefined,
+                keep: keep === "true",
+            };
+        });
+}
+
+/**
+ * One sweep over labelled containers. A container is removed when it is older than the TTL, or when its run
+ * is known to have finished (kept containers are only subject to the TTL). A run nothing is known about yet
+ * keeps its container until the TTL.
+ */
+export async function sweepContainers(options: {
+    ttlMs: number;
+    isRunFinished: (runId: string) => Promise<boolean>;
+}): Promise<{ removed: string[]; inspected: number }> {
+    const containers = await listManagedContainers();
+    const removed: string[] = [];
+    const now = Date.now();
+
+    for (const container of containers) {
+        const expired = Number.isFinite(container.createdAt) && now - container.createdAt > options.ttlMs;
+        let orphaned = false;
+        if (!expired && !container.keep) {
+            orphaned = !container.runId || await options.isRunFinished(container.runId).catch(() => false);
+        }
+        if (expired || orphaned) {
+            if (await removeContainer(container.id)) {
+                removed.push(container.id);
+                console.log(`[container-lifecycle] Swept container ${container.id.substring(0, 12)} (run ${container.runId || 'unknown'}, ${expired ? 'ttl expired' : 'run finished'})`);
+            }
+        }
+    }
+
+    return { removed, inspected: containers.length };
+}
+
+let sweeperTimer: NodeJS.Timeout | undefined;
+
+export function startContainerSweeper(options: {
+    isRunFinished: (runId: string) => Promise<boolean>;
+    intervalMs?: number;
+    ttlMs?: number;
+}): void {
+    if (sweeperTimer) return;
+    const intervalMs = options.intervalMs ?? (Number(process.env.CONTAINER_SWEEP_INTERVAL_MS) || 10 * 60 * 1000);
+    const ttlMs = options.ttlMs ?? (Number(process.env.CONTAINER_TTL_MS) || 6 * 60 * 60 * 1000);
+
+    sweeperTimer = setInterval(() => {
+        sweepContainers({ ttlMs, isRunFinished: options.isRunFinished }).catch((err) => {
+            console.warn('[container-lifecycle] Sweep failed:', err instanceof Error ? err.message : err);
+        });
+    }, intervalMs);
+    // Never keep the process alive just for the sweeper
+    sweeperTimer.unref();
+}
+
+export function stopContainerSweeper(): void {
+    if (sweeperTimer) {
+        clearInterval(sweeperTimer);
+        sweeperTimer = undefined;
+    }
+}
@@ -0,0 +1,225 @@
+import { exec } from "child_process";
+import { storageClient } from "./run-store";
+import { redact } from "./redaction";
+
+// Bump whenever the RepoContext schema (or what the analysis prompts put into it) changes, so older
+// cached contexts stop matching instead of failing validation or feeding stale fields to the planner.
+export const CONTEXT_CACHE_SCHEMA_VERSION = 1;
+
+// The three analysis sections of a RepoContext, plus the synthesized insights that depend on all of them
+export type ContextSection = "repository" | "codebase" | "buildDeploy" | "insights";
+
+// Top-level directories whose contents feed the build & deployment analysis
+const BUILD_DIRS = [".github", ".gitlab", ".circleci", ".buildkite", ".devcontainer", "docker", "deploy", "deployment", "infra", "k8s", "helm", "scripts"];
+
+/**
+ * Object IDs of the tree down to two levels: top-level files and directories, and the entries directly
+ * inside each top-level directory. Comparing two fingerprints tells which directories changed without
+ * needing both commits in the (possibly shallow) clone.
+ */
+export type RepoFingerprint = Record<string, string>;
+
+export type ContextCacheLookup = {
+    repo: string;
+    scope: string;
+    sha: string;
+    fingerprint: RepoFingerprint;
+    // hit: reuse the cached context as is; incremental: refresh the stale sections of an older context; miss: analyse from scratch
+    mode: "hit" | "incremental" | "miss";
+    context?: Record<string, any>;
+    baseSha?: string;
+    changedPaths: string[];
+    staleSections: ContextSection[];
+    // Set when an analysis step fell back to placeholder data; such contexts are not cached
+    degraded?: boolean;
+};
+
+function sh(cmd: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        exec(cmd, { maxBuffer: 1024 * 1024 * 50 }, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(stderr || error.message));
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
+
+function shellEscape(str: string): string {
+    return "'" + str.replace(/'/g, "'\"'\"'") + "'";
+}
+
+export function isContextCacheEnabled(): boolean {
+    return process.env.CONTEXT_CACHE !== "false";
+}
+
+// Past this many changed directories an incremental refresh costs about as much as a full analysis
+function getMaxChangedPaths(): number {
+    const parsed = Number(process.env.CONTEXT_CACHE_MAX_CHANGED_DIRS);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : 20;
+}
+
+const SCHEMA = [
+    `CREATE TABLE IF NOT EXISTS repo_context_cache (
+        repo TEXT NOT NULL,
+        scope TEXT NOT NULL,
+        sha TEXT NOT NULL,
+        schema_version INTEGER NOT NULL,
+        context TEXT NOT NULL,
+        fingerprint TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (repo, scope, sha, schema_version)
+    )`,
+    `CREATE INDEX IF NOT EXISTS repo_context_cache_recent ON repo_context_cache (repo, scope, schema_version, created_at)`,
+];
+
+let ready: Promise<void> | undefined;
+function ensureSchema(): Promise<void> {
+    if (!ready) {
+        ready = storageClient.batch(SCHEMA, "write").then(() => undefined);
+        ready.catch(() => { ready = undefined; });
+    }
+    return ready;
+}
+
+function parseJson(text: unknown): any {
+    if (typeof text !== "string") return undefined;
+    try { return JSON.parse(text); } catch { return undefined; }
+}
+
+// `host/owner/repo` from the origin remote; sources without one are keyed by their root commit, which stays the
+// same across runs of one project while unrelated projects never share it
+export function repoKeyFromRemote(remoteUrl: string, rootSha: string): string {
+    const url = remoteUrl.trim();
+    const match = url.match(/^[\w+.-]+:\/\/(?:[^@/]+@)?([^/]+)\/(.+?)(?:\.git)?\/?$/) || url.match(/^(?:[^@/]+@)?([^:/]+):(.+?)(?:\.git)?\/?$/);
+    if (match) return `${match[1].toLowerCase()}/${match[2]}`;
+    return `local/${rootSha}`;
+}
+
+// Records `git ls-tree -z` entries (paths relative to the repo root) and returns the directories among them
+function parseLsTree(output: string, into: RepoFingerprint): string[] {
+    const dirs: string[] = [];
+    for (const entry of output.split("\0")) {
+        const tab = entry.indexOf("\t");
+        if (tab === -1) continue;
+        const [, type, objectId] = entry.slice(0, tab).split(" ");
+        const name = entry.slice(tab + 1);
+        into[name] = objectId;
+        if (type === "tree") dirs.push(name);
+    }
+    return dirs;
+}
+
+export async function computeRepoFingerprint(containerId: string, repoPath: string): Promise<{ sha: string; remoteUrl: string; rootSha: string; fingerprint: RepoFingerprint }> {
+    const run = (command: string) => sh(`docker exec ${containerId} bash -lc ${shellEscape(`cd ${shellEscape(repoPath)} && ${command}`)}`);
+    const [sha, remoteUrl = ""] = (await run("git rev-parse HEAD && (git remote get-url origin 2>/dev/null || true)")).split(/\r?\n/);
+    // Only sources without a remote are keyed by their root commit, which walks the whole history
+    const rootSha = remoteUrl.trim() ? "" : (await run("git rev-list --max-parents=0 HEAD | tail -n 1")).trim();
+    const fingerprint: RepoFingerprint = {};
+    const dirs = parseLsTree(await run("git ls-tree -z HEAD"), fingerprint);
+    if (dirs.length > 0) {
+        // `dir/` lists the directory's entries rather than the directory itself
+        parseLsTree(await run(`git ls-tree -z HEAD -- ${dirs.map((d) => shellEscape(`${d}/`)).join(" ")}`), fingerprint);
+    }
+    return { sha: sha.trim(), remoteUrl: remoteUrl.trim(), rootSha, fingerprint };
+}
+
+/**
+ * Directories (or top-level files) that differ between two fingerprints, as specific as the fingerprint
+ * allows: a changed top-level directory is reported through its changed entries when it has any.
+ */
+export function diffFingerprints(previous: RepoFingerprint, next: RepoFingerprint): string[] {
+    const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+    const changed = [...keys].filter((key) => previous[key] !== next[key]).sort();
+    return changed.filter((key) => !changed.some((other) => other !== key && other.startsWith(`${key}/`)));
+}
+
+// Which parts of a cached context the changed paths invalidate. Code changes always refresh the codebase
+// analysis; the repository layout only when top-level entries come or go or a top-level file changes, and
+// the build analysis only when manifests, Dockerfiles or CI/deploy directories change.
+export function staleSectionsFor(changedPaths: string[], previous: RepoFingerprint, next: RepoFingerprint): ContextSection[] {
+    if (changedPaths.length === 0) return [];
+    const topLevel = (p: string) => p.split("/")[0];
+    const isDirectory = (p: string) => [previous, next].some((f) => Object.keys(f).some((k) => k.startsWith(`${p}/`)));
+    const layoutChanged = changedPaths.some((p) => !(topLevel(p) in previous) || !(topLevel(p) in next));
+    const rootFileChanged = changedPaths.some((p) => !p.includes("/") && !isDirectory(p));
+    const buildChanged = changedPaths.some((p) => BUILD_DIRS.includes(topLevel(p)) || /(^|\/)(Dockerfile[^/]*|docker-compose[^/]*|package\.json|pyproject\.toml|setup\.py|requirements[^/]*\.txt)$/.test(p));
+
+    const sections: ContextSection[] = ["codebase"];
+    if (layoutChanged || rootFileChanged) sections.push("repository");
+    if (rootFileChanged || buildChanged) sections.push("buildDeploy");
+    sections.push("insights");
+    return sections;
+}
+
+/**
+ * Look up the RepoContext for the repository checked out at `repoPath`. An entry for the same commit (and
+ * sparse scope) is a hit; otherwise the newest entry for the repository becomes the base of an incremental
+ * refresh when few enough directories changed since it was analysed.
+ */
+export async function lookupRepoContext(params: { containerId: string; repoPath?: string; sparsePaths?: string[] }): Promise<ContextCacheLookup> {
+    const repoPath = params.repoPath
+        || (await sh(`docker exec ${params.containerId} bash -lc ${shellEscape(`for d in /app/*; do if [ -d "$d/.git" ]; then echo "$d"; break; fi; done`)}`)).trim()
+        || "/app";
+    const { sha, remoteUrl, rootSha, fingerprint } = await computeRepoFingerprint(params.containerId, repoPath);
+    const repo = repoKeyFromRemote(remoteUrl, rootSha);
+    const scope = [...(params.sparsePaths || [])].sort().join(",");
+    const lookup: ContextCacheLookup = { repo, scope, sha, fingerprint, mode: "miss", changedPaths: [], staleSections: [] };
+
+    await ensureSchema();
+    const { rows } = await storageClient.execute({
+        sql: `SELECT * FROM repo_context_cache WHERE repo = ? AND scope = ? AND schema_version = ? ORDER BY (sha = ?) DESC, created_at DESC LIMIT 1`,
+        args: [repo, scope, CONTEXT_CACHE_SCHEMA_VERSION, sha],
+    });
+    const row = rows[0] as Record<string, any> | undefined;
+    const context = parseJson(row?.context);
+    const previous: RepoFingerprint | undefined = parseJson(row?.fingerprint);
+    if (!row || !context || !previous) return lookup;
+
+    const changedPaths = String(row.sha) === sha ? [] : diffFingerprints(previous, fingerprint);
+    if (changedPaths.length === 0) {
+        return { ...lookup, mode: "hit", context, baseSha: String(row.sha) };
+    }
+    if (changedPaths.length > getMaxChangedPaths()) return lookup;
+    return {
+        ...lookup,
+        mode: "incremental",
+        context,
+        baseSha: String(row.sha),
+        changedPaths,
+        staleSections: staleSectionsFor(changedPaths, previous, fingerprint),
+    };
+}
+
+export async function saveRepoContext(lookup: ContextCacheLookup, context: Record<string, any>): Promise<void> {
+    await ensureSchema();
+    await storageClient.execute({
+        sql: `INSERT INTO repo_context_cache (repo, scope, sha, schema_version, context, fingerprint, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)
+              ON CONFLICT(repo, scope, sha, schema_version) DO UPDATE SET context = excluded.context, fingerprint = excluded.fingerprint, created_at = excluded.created_at`,
+        args: [lookup.repo, lookup.scope, lookup.sha, CONTEXT_CACHE_SCHEMA_VERSION, JSON.stringify(redact(context)), JSON.stringify(lookup.fingerprint), new Date().toISOString()],
+    });
+}
+
+// Cached section to reuse for this run, or undefined when the step has to run its analysis
+export function reusableSection(lookup: ContextCacheLookup | undefined, section: ContextSection): any {
+    if (!lookup?.context || lookup.mode === "miss") return undefined;
+    if (lookup.mode === "incremental" && lookup.staleSections.includes(section)) return undefined;
+    return section === "insights" ? lookup.context : lookup.context[section];
+}
+
+/**
+ * Prompt block for a stale section of an incremental refresh: the previous result and the directories
+ * that changed since, so the agent only re-inspects those. Empty when the step runs a full analysis.
+ */
+export function describeIncrementalRefresh(lookup: ContextCacheLookup | undefined, section: ContextSection): string {
+    if (lookup?.mode !== "incremental" || !lookup.context?.[section]) return "";
+    return `
+
+INCREMENTAL REFRESH (MANDATORY):
+- This repository was analysed at commit ${lookup.baseSha?.substring(0, 12)}. Since then only these paths changed: ${lookup.changedPaths.join(", ")}
+- Inspect only the changed paths (and files that reference them). Keep every other field from the previous result.
+- Return the complete updated JSON in the same shape as the previous result.
+Previous result:
+${JSON.stringify(lookup.context[section], null, 2)}`;
+}
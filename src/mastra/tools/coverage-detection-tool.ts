@@ -1,6 +1,8 @@
 import { createTool } from "@mastra/core";
 import z from "zod";
 import { cliToolMetrics } from "./cli-tool";
+import { withRedaction } from "./redaction";
+import { detectScriptTestFramework } from "./test-frameworks";
 
 function sh(cmd: string): Promise<{ stdout: string; stderr: string }>{
     return new Promise((resolve, reject) => {
@@ -19,7 +21,7 @@ function shellEscape(str: string): string {
     return "'" + String(str).replace(/'/g, "'\"'\"'") + "'";
 }
 
-export const coverageDetectionTool = createTool({
+export const coverageDetectionTool = withRedaction(createTool({
     id: "coverage_detection",
     description: "Detect project type and choose best coverage command inside a Docker container",
     inputSchema: z.object({
@@ -53,9 +55,8 @@ export const coverageDetectionTool = createTool({
             const { stdout } = await sh(`docker exec ${containerId} bash -lc "cd ${shellEscape(repoPath)} && test -f package.json && echo YES || echo NO"`);
             if (stdout.trim() === 'YES') {
                 language = 'node';
-                // Look for vitest or jest
-                const { stdout: whichFw } = await sh(`docker exec ${containerId} bash -lc "cd ${shellEscape(repoPath)} && node -e \"try{const p=require('./package.json');const d=p.devDependencies||{};const dp=p.dependencies||{};if(d['vitest']||dp['vitest']){console.log('vitest')}else if(d['jest']||dp['jest']){console.log('jest')}else{console.log('unknown')}}catch(e){console.log('unknown')}\""`);
-                framework = whichFw.trim() || 'unknown';
+                // Vitest or Jest, from their config files, then package.json
+                framework = await detectScriptTestFramework(containerId, repoPath).catch(() => undefined) || 'unknown';
                 // Prefer npm ci when lockfile exists
                 const { stdout: hasLock } = await sh(`docker exec ${containerId} bash -lc "cd ${shellEscape(repoPath)} && test -f package-lock.json && echo YES || echo NO"`);
                 installCmd = hasLock.trim() === 'YES' ? 'npm ci --no-audit --no-fund' : 'npm install --no-audit --no-fund';
@@ -101,6 +102,6 @@ export const coverageDetectionTool = createTool({
             run: coverageCmd || 'echo "No coverage command detected"',
         };
     },
-});
+}));
 
 
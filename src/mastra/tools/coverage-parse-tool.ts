@@ -1,6 +1,7 @@
 import { createTool } from "@mastra/core";
 import z from "zod";
 import { cliToolMetrics } from "./cli-tool";
+import { withRedaction } from "./redaction";
 
 function parseCoverageFromText(text: string): number | null {
     try {
@@ -35,7 +36,7 @@ function parseCoverageFromText(text: string): number | null {
     }
 }
 
-export const coverageParseTool = createTool({
+export const coverageParseTool = withRedaction(createTool({
     id: "coverage_parse",
     description: "Parse coverage ratio (0..1) from coverage files or stdout",
     inputSchema: z.object({
@@ -105,6 +106,6 @@ export const coverageParseTool = createTool({
 
         return 0;
     },
-});
+}));
 
 
@@ -1,6 +1,7 @@
 import { createTool } from "@mastra/core";
 import z from "zod";
 import { cliToolMetrics } from "./cli-tool";
+import { withRedaction } from "./redaction";
 
 function sh(cmd: string): Promise<{ stdout: string; stderr: string }>{
     return new Promise((resolve, reject) => {
@@ -19,7 +20,7 @@ function shellEscape(str: string): string {
     return "'" + String(str).replace(/'/g, "'\"'\"'") + "'";
 }
 
-export const coverageRunnerTool = createTool({
+export const coverageRunnerTool = withRedaction(createTool({
     id: "coverage_runner",
     description: "Run installation and coverage command inside Docker container and return stdout/stderr",
     inputSchema: z.object({
@@ -40,6 +41,6 @@ export const coverageRunnerTool = createTool({
         const { stdout, stderr } = await sh(`docker exec ${containerId} bash -lc "cd ${shellEscape(repoPath)} && ${run} 2>&1 || true"`);
         return { stdout, stderr };
     },
-});
+}));
 
 
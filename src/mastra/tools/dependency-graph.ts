@@ -0,0 +1,463 @@
+import ts from "typescript";
+import { exec } from "child_process";
+import { writeFileSync, unlinkSync, mkdtempSync, rmdirSync } from "fs";
+import path from "path";
+import os from "os";
+import { listSourceFiles, readContainerFiles, resolveRepoPath } from "./source-analysis";
+import { analyzePythonSources, isPythonAnalyzable } from "./python-analysis";
+
+// Module dependency graph of a checkout, built from the import statements themselves: relative imports,
+// tsconfig/jsconfig `paths` aliases and `baseUrl`, package.json / pnpm workspaces and Python packages (repo
+// root, `src/` layouts and directories with a pyproject.toml or setup.py). Nodes are source files; anything an
+// import does not resolve to inside the checkout counts as an external package.
+
+const GRAPH_VERSION = 1;
+const MAX_GRAPH_FILES = 5000;
+const MAX_UNRESOLVED = 200;
+const MAX_CYCLES = 50;
+
+const RESOLVE_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"];
+
+export type ImportVia = "relative" | "alias" | "workspace" | "package";
+
+export type GraphNode = {
+    path: string;
+    language: string;
+    // Workspace package the file belongs to
+    package?: string;
+    // Files importing this file / files this file imports
+    fanIn: number;
+    fanOut: number;
+    external: string[];
+};
+
+export type DependencyGraph = {
+    version: number;
+    generatedAt: string;
+    repoPath: string;
+    nodes: GraphNode[];
+    edges: Array<{ from: string; to: string; via: ImportVia }>;
+    // Strongly connected groups of files (and files importing themselves), largest first
+    cycles: string[][];
+    // Relative imports that point at nothing in the checkout
+    unresolved: Array<{ from: string; module: string }>;
+    workspaces: Record<string, string>;
+    aliases: Record<string, string[]>;
+    truncated: boolean;
+};
+
+type AliasRule = { dir: string; baseUrl?: string; paths: Record<string, string[]> };
+type WorkspacePackage = { name: string; dir: string; entries: string[] };
+
+function sh(cmd: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        exec(cmd, { maxBuffer: 1024 * 1024 * 50 }, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(stderr || error.message));
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
+
+function shellEscape(str: string): string {
+    return "'" + str.replace(/'/g, "'\"'\"'") + "'";
+}
+
+// Where the graph is written: next to the context file
+export function dependencyGraphPathFor(contextPath: string = "/app/agent.context.json"): string {
+    return path.posix.join(path.posix.dirname(contextPath), "agent.dependency-graph.json");
+}
+
+function globToRegExp(glob: string): RegExp {
+    const pattern = glob.replace(/^\.\//, "").replace(/\/+$/, "")
+        .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+        .replace(/\*\*/g, "\0")
+        .replace(/\*/g, "[^/]+")
+        .replace(/\0/g, ".*");
+    return new RegExp(`^${pattern}$`);
+}
+
+function parseJsonc(text: string | undefined): any {
+    if (!text) return undefined;
+    const { config, error } = ts.parseConfigFileTextToJson("config.json", text);
+    return error ? undefined : config;
+}
+
+// `packages:` entries of a pnpm-workspace.yaml
+function pnpmWorkspaceGlobs(text: string | undefined): string[] {
+    if (!text) return [];
+    const block = text.match(/^packages:\s*\n((?:\s+-.*\n?)+)/m)?.[1] || "";
+    return block.split("\n")
+        .map((line) => line.trim().replace(/^-\s*/, "").replace(/^["']|["']$/g, ""))
+        .filter((glob) => glob && !glob.startsWith("!"));
+}
+
+function createResolver(files: Set<string>) {
+    const resolveFile = (base: string): string | undefined => {
+        const normalized = path.posix.normalize(base).replace(/^\.\//, "");
+        if (normalized.startsWith("..")) return undefined;
+        // ESM sources import their own compiled names: `./util.js` for util.ts
+        const stem = normalized.replace(/\.([cm]?js|jsx)$/, "");
+        const candidates = [
+            normalized,
+            ...RESOLVE_EXTENSIONS.map((ext) => `${stem}${ext}`),
+            ...RESOLVE_EXTENSIONS.map((ext) => `${normalized}/index${ext}`),
+        ];
+        return candidates.find((c) => files.has(c));
+    };
+    const resolvePython = (modulePath: string): string | undefined => {
+        const normalized = path.posix.normalize(modulePath).replace(/^\.\//, "");
+        if (normalized.startsWith("..")) return undefined;
+        return [`${normalized}.py`, `${normalized}/__init__.py`].find((c) => files.has(c));
+    };
+    return { resolveFile, resolvePython };
+}
+
+function aliasTargets(rule: AliasRule, specifier: string): string[] {
+    const base = path.posix.join(rule.dir, rule.baseUrl || ".");
+    const targets: string[] = [];
+    for (const [pattern, replacements] of Object.entries(rule.paths)) {
+        const star = pattern.indexOf("*");
+        let captured: string | undefined;
+        if (star === -1) {
+            if (specifier === pattern) captured = "";
+        } else if (specifier.startsWith(pattern.slice(0, star)) && specifier.endsWith(pattern.slice(star + 1))) {
+            captured = specifier.slice(star, specifier.length - (pattern.length - star - 1));
+        }
+        if (captured === undefined) continue;
+        for (const replacement of replacements) targets.push(path.posix.join(base, replacement.replace("*", captured)));
+    }
+    if (rule.baseUrl) targets.push(path.posix.join(base, specifier));
+    return targets;
+}
+
+// Positions of `import type` / `export type ... from` specifiers: erased at runtime, so not dependencies
+function typeOnlySpecifierPositions(filePath: string, text: string): Set<number> {
+    if (!/\b(import|export)\s+type\b/.test(text)) return new Set();
+    const source = ts.createSourceFile(filePath, text, ts.ScriptTarget.ES2022, false);
+    const positions = new Set<number>();
+    for (const statement of source.statements) {
+        const typeOnly = (ts.isImportDeclaration(statement) && statement.importClause?.isTypeOnly)
+            || (ts.isExportDeclaration(statement) && statement.isTypeOnly);
+        const specifier = (statement as ts.ImportDeclaration | ts.ExportDeclaration).moduleSpecifier;
+        // Matches the `pos` the pre-processor reports for the same specifier
+        if (typeOnly && specifier) positions.add(specifier.getStart(source));
+    }
+    return positions;
+}
+
+// Tarjan's strongly connected components; only groups that form a cycle are returned
+function findCycles(nodes: string[], adjacency: Map<string, Set<string>>): string[][] {
+    let index = 0;
+    const indices = new Map<string, number>();
+    const lowlinks = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const cycles: string[][] = [];
+
+    const connect = (node: string) => {
+        indices.set(node, index);
+        lowlinks.set(node, index);
+        index += 1;
+        stack.push(node);
+        onStack.add(node);
+        for (const next of adjacency.get(node) || []) {
+            if (!indices.has(next)) {
+                connect(next);
+                lowlinks.set(node, Math.min(lowlinks.get(node)!, lowlinks.get(next)!));
+            } else if (onStack.has(next)) {
+                lowlinks.set(node, Math.min(lowlinks.get(node)!, indices.get(next)!));
+            }
+        }
+        if (lowlinks.get(node) === indices.get(node)) {
+            const component: string[] = [];
+            let member: string;
+            do {
+                member = stack.pop()!;
+                onStack.delete(member);
+                component.push(member);
+            } while (member !== node);
+            if (component.length > 1 || adjacency.get(node)?.has(node)) cycles.push(component.sort());
+        }
+    };
+    for (const node of nodes) {
+        if (!indices.has(node)) connect(node);
+    }
+    return cycles.sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Build the import graph of the checkout in the container. TS/JS imports are read with the compiler's
+ * pre-processor (static, `require` and dynamic imports); Python imports come from the `ast` analyzer, so a
+ * sandbox without Python yields a graph of the TS/JS files only.
+ */
+export async function buildDependencyGraph(containerId: string, options: { repoPath?: string; sparsePaths?: string[] } = {}): Promise<DependencyGraph> {
+    const repoPath = await resolveRepoPath(containerId, options.repoPath);
+    const listed = await listSourceFiles(containerId, repoPath, options.sparsePaths);
+    const sources = listed.slice(0, MAX_GRAPH_FILES);
+    const files = new Set(sources);
+    // Imports resolve against every tracked file; tests, configs and the like just are not nodes
+    const trackedList = await sh(`docker exec ${containerId} bash -lc ${shellEscape(`cd ${shellEscape(repoPath)} && git ls-files -- ${[...RESOLVE_EXTENSIONS, ".py"].map((ext) => shellEscape(`*${ext}`)).join(" ")}`)}`);
+    const { resolveFile, resolvePython } = createResolver(new Set(trackedList.split(/\r?\n/).map((f) => f.trim()).filter(Boolean)));
+
+    // Manifests and compiler configs anywhere outside dependencies
+    const manifestList = await sh(`docker exec ${containerId} bash -lc ${shellEscape(`cd ${shellEscape(repoPath)} && git ls-files -- 'package.json' '*/package.json' 'tsconfig*.json' '*/tsconfig*.json' 'jsconfig.json' '*/jsconfig.json' 'pnpm-workspace.yaml' 'pyproject.toml' '*/pyproject.toml' 'setup.py' '*/setup.py'`)}`);
+    const manifestPaths = manifestList.split(/\r?\n/).map((f) => f.trim()).filter((f) => f && !f.includes("node_modules/"));
+    const manifests = new Map((await readContainerFiles(containerId, manifestPaths.filter((f) => !/\.(toml|py)$/.test(f)).map((f) => path.posix.join(repoPath, f))))
+        .map((f) => [path.posix.relative(repoPath, f.filePath), f.text]));
+
+    // Workspace packages: declared globs, or every nested package.json when the root declares none
+    const rootPackage = parseJsonc(manifests.get("package.json"));
+    const declaredGlobs: string[] = [
+        ...(Array.isArray(rootPackage?.workspaces) ? rootPackage.workspaces : rootPackage?.workspaces?.packages || []),
+        ...pnpmWorkspaceGlobs(manifests.get("pnpm-workspace.yaml")),
+    ];
+    const globs = declaredGlobs.map(globToRegExp);
+    const packages: WorkspacePackage[] = [];
+    for (const [file, text] of manifests) {
+        if (path.posix.basename(file) !== "package.json" || file === "package.json") continue;
+        const dir = path.posix.dirname(file);
+        if (globs.length > 0 && !globs.some((g) => g.test(dir))) continue;
+        const pkg = parseJsonc(text);
+        if (!pkg?.name) continue;
+        const declared = [pkg.source, pkg.module, pkg.main, pkg.types].filter((e): e is string => typeof e === "string");
+        packages.push({ name: pkg.name, dir, entries: [...declared, "src/index", "index", "lib/index"] });
+    }
+    // Longest directories first so nested packages win
+    packages.sort((a, b) => b.dir.length - a.dir.length);
+
+    // Path aliases per tsconfig/jsconfig, following relative `extends`
+    const loadAliasRule = (file: string, depth = 0): AliasRule | undefined => {
+        const config = parseJsonc(manifests.get(file));
+        if (!config) return undefined;
+        const dir = path.posix.dirname(file);
+        const inherited = typeof config.extends === "string" && config.extends.startsWith(".") && depth < 3
+            ? loadAliasRule(path.posix.normalize(path.posix.join(dir, config.extends.endsWith(".json") ? config.extends : `${config.extends}.json`)), depth + 1)
+            : undefined;
+        const options = config.compilerOptions || {};
+        const paths = options.paths || inherited?.paths;
+        const baseUrl = options.baseUrl ?? (inherited?.baseUrl !== undefined ? path.posix.relative(dir, path.posix.join(inherited.dir, inherited.baseUrl)) || "." : undefined);
+        if (!paths && baseUrl === undefined) return undefined;
+        // Inherited paths stay relative to the config that declared them
+        const ruleDir = options.paths || !inherited ? dir : inherited.dir;
+        return { dir: ruleDir, baseUrl: options.paths ? baseUrl : inherited?.baseUrl ?? baseUrl, paths: paths || {} };
+    };
+    const aliasRules = new Map<string, AliasRule>();
+    for (const file of manifests.keys()) {
+        if (!/(^|\/)(tsconfig[^/]*|jsconfig)\.json$/.test(file)) continue;
+        const rule = loadAliasRule(file);
+        // `tsconfig.json` wins over `tsconfig.build.json` and friends in the same directory
+        const dir = path.posix.dirname(file);
+        if (rule && (!aliasRules.has(dir) || /(^|\/)(tsconfig|jsconfig)\.json$/.test(file))) aliasRules.set(dir, rule);
+    }
+    const nearest = <T>(byDir: Map<string, T>, file: string): T | undefined => {
+        for (let dir = path.posix.dirname(file); ; dir = path.posix.dirname(dir)) {
+            if (byDir.has(dir)) return byDir.get(dir);
+            if (dir === "." || dir === "/") return undefined;
+        }
+    };
+    const packageOf = (file: string) => packages.find((p) => file.startsWith(`${p.dir}/`));
+
+    // Python import roots: the repository root, `src/` layouts and project directories
+    const pythonRoots = new Set<string>([".", "src"]);
+    for (const file of manifestPaths) {
+        if (/(^|\/)(pyproject\.toml|setup\.py)$/.test(file)) {
+            const dir = path.posix.dirname(file);
+            pythonRoots.add(dir);
+            pythonRoots.add(path.posix.join(dir, "src"));
+        }
+    }
+
+    const edges = new Map<string, { from: string; to: string; via: ImportVia }>();
+    const external = new Map<string, Set<string>>();
+    const unresolved: Array<{ from: string; module: string }> = [];
+    const addEdge = (from: string, to: string, via: ImportVia) => {
+        if (files.has(to)) edges.set(`${from}\0${to}`, { from, to, via });
+    };
+    const addExternal = (from: string, module: string) => {
+        const name = module.startsWith("@") ? module.split("/").slice(0, 2).join("/") : module.split(/[/.]/)[0];
+        if (!external.has(from)) external.set(from, new Set());
+        external.get(from)!.add(name);
+    };
+
+    const resolveScript = (from: string, specifier: string) => {
+        if (specifier.startsWith(".") || specifier.startsWith("/")) {
+            const target = resolveFile(specifier.startsWith("/") ? specifier.slice(1) : path.posix.join(path.posix.dirname(from), specifier));
+            if (target) addEdge(from, target, "relative");
+            else if (unresolved.length < MAX_UNRESOLVED) unresolved.push({ from, module: specifier });
+            return;
+        }
+        const rule = nearest(aliasRules, from);
+        for (const candidate of rule ? aliasTargets(rule, specifier) : []) {
+            const target = resolveFile(candidate);
+            if (target) return addEdge(from, target, "alias");
+        }
+        const pkg = packages.find((p) => specifier === p.name || specifier.startsWith(`${p.name}/`));
+        if (pkg) {
+            const subpath = specifier.slice(pkg.name.length + 1);
+            const candidates = subpath
+                ? [path.posix.join(pkg.dir, subpath), path.posix.join(pkg.dir, "src", subpath)]
+                : pkg.entries.map((entry) => path.posix.join(pkg.dir, entry.replace(/^(\.\/)?(dist|build|lib)\//, "src/").replace(/\.d\.ts$/, "")));
+            for (const candidate of candidates) {
+                const target = resolveFile(candidate);
+                if (target) return addEdge(from, target, "workspace");
+            }
+        }
+        addExternal(from, specifier);
+    };
+
+    const resolvePythonImport = (from: string, module: string, names: string[]) => {
+        const level = module.match(/^\.*/)![0].length;
+        const dotted = module.slice(level).split(".").filter(Boolean).join("/");
+        const bases = level > 0
+            ? [path.posix.join(path.posix.dirname(from), ...Array(level - 1).fill(".."), dotted)]
+            : [...pythonRoots].map((root) => path.posix.join(root, dotted));
+        for (const base of bases) {
+            // `from pkg import mod` may name submodules rather than attributes
+            const submodules = names.map((name) => resolvePython(path.posix.join(base, name))).filter((t): t is string => !!t);
+            const target = dotted || level > 0 ? resolvePython(base) : undefined;
+            if (submodules.length > 0 || target) {
+                for (const t of submodules) addEdge(from, t, level > 0 ? "relative" : "package");
+                if (target && submodules.length < names.length) addEdge(from, target, level > 0 ? "relative" : "package");
+                return;
+            }
+        }
+        if (level > 0) {
+            if (unresolved.length < MAX_UNRESOLVED) unresolved.push({ from, module });
+        } else {
+            addExternal(from, module);
+        }
+    };
+
+    const scriptFiles = await readContainerFiles(containerId, sources.filter((f) => !isPythonAnalyzable(f)).map((f) => path.posix.join(repoPath, f)));
+    for (const file of scriptFiles) {
+        const from = path.posix.relative(repoPath, file.filePath);
+        const typeOnly = typeOnlySpecifierPositions(file.filePath, file.text);
+        for (const imported of ts.preProcessFile(file.text, true, true).importedFiles) {
+            if (!typeOnly.has(imported.pos)) resolveScript(from, imported.fileName);
+        }
+    }
+    const pythonSources = sources.filter((f) => isPythonAnalyzable(f));
+    try {
+        for (const analysis of await analyzePythonSources(containerId, pythonSources.map((f) => path.posix.join(repoPath, f)))) {
+            const from = path.posix.relative(repoPath, analysis.filePath);
+            for (const i of [...analysis.imports.relative, ...analysis.imports.packages]) resolvePythonImport(from, i.module, i.names);
+        }
+    } catch (error) {
+        console.warn(`[dependency-graph] Python imports skipped:`, error instanceof Error ? error.message : error);
+    }
+
+    const adjacency = new Map<string, Set<string>>();
+    const fanIn = new Map<string, number>();
+    for (const { from, to } of edges.values()) {
+        if (!adjacency.has(from)) adjacency.set(from, new Set());
+        adjacency.get(from)!.add(to);
+        if (from !== to) fanIn.set(to, (fanIn.get(to) || 0) + 1);
+    }
+    const nodes: GraphNode[] = sources.map((file) => ({
+        path: file,
+        language: isPythonAnalyzable(file) ? "python" : /\.[cm]?tsx?$/.test(file) ? "typescript" : "javascript",
+        ...(packageOf(file) ? { package: packageOf(file)!.name } : {}),
+        fanIn: fanIn.get(file) || 0,
+        fanOut: [...(adjacency.get(file) || [])].filter((to) => to !== file).length,
+        external: [...(external.get(file) || [])].sort(),
+    }));
+
+    return {
+        version: GRAPH_VERSION,
+        generatedAt: new Date().toISOString(),
+        repoPath,
+        nodes,
+        edges: [...edges.values()],
+        cycles: findCycles(sources, adjacency).slice(0, MAX_CYCLES),
+        unresolved,
+        workspaces: Object.fromEntries(packages.map((p) => [p.name, p.dir])),
+        aliases: Object.fromEntries([...aliasRules.values()].flatMap((rule) => Object.entries(rule.paths))),
+        truncated: listed.length > sources.length,
+    };
+}
+
+export async function saveDependencyGraph(containerId: string, graph: DependencyGraph, graphPath: string): Promise<void> {
+    const tempDir = mkdtempSync(path.join(os.tmpdir(), "docker-graph-"));
+    const tempFile = path.join(tempDir, path.posix.basename(graphPath));
+    try {
+        writeFileSync(tempFile, JSON.stringify(graph, null, 2), "utf8");
+        await sh(`docker cp ${shellEscape(tempFile)} ${containerId}:${graphPath}`);
+    } finally {
+        try { unlinkSync(tempFile); rmdirSync(tempDir); } catch { /* ignore */ }
+    }
+}
+
+// The graph saved by the gather-context workflow, if there is one
+export async function loadDependencyGraph(containerId: string, graphPath: string): Promise<DependencyGraph | undefined> {
+    try {
+        const graph = JSON.parse(await sh(`docker exec ${containerId} cat ${shellEscape(graphPath)}`));
+        return graph?.version === GRAPH_VERSION ? graph : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+// Directory of a file, or the workspace package name when it has one
+function moduleOf(graph: DependencyGraph, file: string): string {
+    return graph.nodes.find((n) => n.path === file)?.package || path.posix.dirname(file);
+}
+
+/**
+ * Imports between modules (directories, or workspace packages) with how many file-level imports each edge
+ * stands for, busiest first. This is what the RepoContext records as internal dependencies.
+ */
+export function internalModuleDependencies(graph: DependencyGraph, limit: number = 100): Array<{ from: string; to: string; type: string }> {
+    const counts = new Map<string, { from: string; to: string; via: Set<ImportVia>; count: number }>();
+    for (const edge of graph.edges) {
+        const from = moduleOf(graph, edge.from);
+        const to = moduleOf(graph, edge.to);
+        if (from === to) continue;
+        const key = `${from}\0${to}`;
+        const entry = counts.get(key) || { from, to, via: new Set<ImportVia>(), count: 0 };
+        entry.via.add(edge.via);
+        entry.count += 1;
+        counts.set(key, entry);
+    }
+    return [...counts.values()]
+        .sort((a, b) => b.count - a.count)
+        .slice(0, limit)
+        .map(({ from, to, via, count }) => ({ from, to, type: `imports (${count} ${count === 1 ? "file" : "files"}, ${[...via].join("/")})` }));
+}
+
+// Internal files `file` imports from outside its own module: what a unit test of it mocks
+export function boundaryImports(graph: DependencyGraph, file: string): string[] {
+    const own = moduleOf(graph, file);
+    return graph.edges.filter((e) => e.from === file && e.to !== file && moduleOf(graph, e.to) !== own).map((e) => e.to);
+}
+
+// Fan-in per file, for ranking test targets
+export function fanInByFile(graph: DependencyGraph | undefined): Map<string, number> | undefined {
+    return graph ? new Map(graph.nodes.map((n) => [n.path, n.fanIn])) : undefined;
+}
+
+/**
+ * Prompt block for the planner: the most depended-on files, and for the chosen candidates the internal modules
+ * they import across a module boundary (mock candidates) and the cycles they are part of.
+ */
+export function describeDependencyGraph(graph: DependencyGraph | undefined, candidates: string[] = [], limit: number = 10): string {
+    if (!graph || graph.edges.length === 0) return "";
+    const topFanIn = [...graph.nodes].filter((n) => n.fanIn > 0).sort((a, b) => b.fanIn - a.fanIn).slice(0, limit);
+    const boundaries = candidates.slice(0, 5).map((file) => {
+        const crossing = boundaryImports(graph, file);
+        const cycle = graph.cycles.find((c) => c.includes(file));
+        return [
+            crossing.length > 0 ? `- ${file}: mock at the module boundary: ${crossing.join(", ")}` : "",
+            cycle ? `- ${file} is in an import cycle with ${cycle.filter((f) => f !== file).join(", ")}; import it the way the app does and avoid partial mocks of the cycle` : "",
+        ].filter(Boolean).join("\n");
+    }).filter(Boolean);
+    return `
+
+MODULE DEPENDENCY GRAPH (${graph.nodes.length} files, ${graph.edges.length} internal imports, ${graph.cycles.length} cycles):
+Most depended-on files (fan-in = files importing it, fan-out = internal files it imports):
+${topFanIn.map((n) => `- ${n.path} (fan-in ${n.fanIn}, fan-out ${n.fanOut})`).join("\n")}${boundaries.length > 0 ? `\n${boundaries.join("\n")}` : ""}
+- High fan-in files break the most callers when they regress: prefer them as targets.
+- Internal imports across a module boundary are mocked in the test; imports inside the target's own module are exercised for real.`;
+}
@@ -1,8 +1,9 @@
 import { createTool } from "@mastra/core";
 import z from "zod";
 import { cliToolMetrics } from "./cli-tool";
+import { withRedaction } from "./redaction";
 
-export const dockerExecTool = createTool({
+export const dockerExecTool = withRedaction(createTool({
     id: "docker_exec",
     description: "Run a shell command inside a docker container. Pass RAW commands only (no 'bash -lc' wrapper).",
     inputSchema: z.object({
@@ -44,6 +45,6 @@ export const dockerExecTool = createTool({
             });
         });
     },
-});
+}));
 
 
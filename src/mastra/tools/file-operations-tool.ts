@@ -4,8 +4,9 @@ import { cliToolMetrics } from "./cli-tool";
 import { writeFileSync, unlinkSync, mkdtempSync } from "fs";
 import os from "os";
 import path from "path";
+import { withRedaction } from "./redaction";
 
-export const fileOperationsTool = createTool({
+export const fileOperationsTool = withRedaction(createTool({
     id: "file_operations",
     description: "Perform file operations like reading, writing, creating directories for test files",
     inputSchema: z.object({
@@ -133,4 +134,4 @@ export const fileOperationsTool = createTool({
             });
         });
     },
-});
+}));
@@ -0,0 +1,103 @@
+import z from "zod";
+import type { TestFramework } from "./test-frameworks";
+import { runGeneratedTests, type TestFileRun } from "./test-runner";
+
+// Generated tests that already passed are run several more times, each time in an order shuffled by a fresh
+// seed. A test that fails in any of those runs depends on order, shared state, real timers, unseeded
+// randomness or the network, and would make the PR's CI flaky.
+
+const DEFAULT_FLAKY_RUNS = 3;
+
+export const FlakyTestSchema = z.object({
+    testFile: z.string(),
+    name: z.string().describe("Test name, or the test file when the file itself failed to load in some runs"),
+    runs: z.number().describe("Shuffled runs the test took part in"),
+    failures: z.number().describe("Runs it failed in"),
+    flakeRate: z.number().describe("failures / runs (0..1)"),
+    seeds: z.array(z.number()).describe("Seeds of the failing runs, to reproduce the order"),
+    message: z.string().optional().describe("Failure message from the first failing run"),
+    resolution: z.enum(["repaired", "quarantined"]).optional().describe("Made deterministic by a rewrite, or quarantined"),
+});
+export type FlakyTest = z.infer<typeof FlakyTestSchema>;
+
+export const FlakinessReportSchema = z.object({
+    runs: z.number().describe("Shuffled runs per test file"),
+    seeds: z.array(z.number()).describe("Seed of each run"),
+    flakyTests: z.array(FlakyTestSchema),
+});
+export type FlakinessReport = z.infer<typeof FlakinessReportSchema>;
+
+// Shuffled runs per generated test file (FLAKY_TEST_RUNS, 0 turns the check off)
+export function flakyRunCount(): number {
+    const raw = process.env.FLAKY_TEST_RUNS;
+    const parsed = Number(raw);
+    return raw && Number.isFinite(parsed) && parsed >= 0 ? Math.floor(parsed) : DEFAULT_FLAKY_RUNS;
+}
+
+export function randomSeeds(count: number): number[] {
+    return Array.from({ length: count }, () => Math.floor(Math.random() * 2 ** 31));
+}
+
+/**
+ * Run `testFiles` once per seed in shuffled order and report every test that failed in at least one run.
+ * Runs where the runner produced no report are left out of the counts; if every run did, the runner's error
+ * is thrown.
+ */
+export async function detectFlakyTests(
+    containerId: string,
+    repoPath: string,
+    framework: TestFramework,
+    testFiles: string[],
+    seeds: number[],
+): Promise<FlakinessReport> {
+    const outcomes = new Map<string, FlakyTest>();
+    const record = (testFile: string, name: string, failed: boolean, seed: number, message?: string) => {
+        const key = `${testFile}\0${name}`;
+        const outcome = outcomes.get(key) || { testFile, name, runs: 0, failures: 0, flakeRate: 0, seeds: [] };
+        outcome.runs++;
+        if (failed) {
+            outcome.failures++;
+            outcome.seeds.push(seed);
+            outcome.message ??= message;
+        }
+        outcomes.set(key, outcome);
+    };
+
+    const completed: number[] = [];
+    let lastError: string | undefined;
+    for (const seed of seeds) {
+        const run = await runGeneratedTests(containerId, repoPath, framework, testFiles, { seed });
+        if (run.error) {
+            lastError = run.error;
+            continue;
+        }
+        completed.push(seed);
+        for (const file of run.files) recordFile(file, seed, record);
+    }
+    if (completed.length === 0 && lastError) throw new Error(lastError);
+
+    const flakyTests = [...outcomes.values()]
+        .filter((o) => o.failures > 0)
+        .map((o) => ({ ...o, flakeRate: Math.round((o.failures / o.runs) * 100) / 100 }));
+    return { runs: completed.length, seeds: completed, flakyTests };
+}
+
+// A file that did not load counts against the file as a whole; otherwise each test that ran counts
+function recordFile(file: TestFileRun, seed: number, record: (testFile: string, name: string, failed: boolean, seed: number, message?: string) => void) {
+    record(file.testFile, file.testFile, !!file.error, seed, file.error);
+    for (const test of file.tests) {
+        if (test.status !== "skipped") record(file.testFile, test.name, test.status === "failed", seed, test.message);
+    }
+}
+
+// How often and with which seeds a flaky test failed, and its first failure message line
+export function describeFlakeRate(test: FlakyTest): string {
+    const message = (test.message || "").split("\n").map((l) => l.trim()).find(Boolean);
+    return `failed ${test.failures}/${test.runs} shuffled runs (seed ${test.seeds.join(", ")})${message ? `: ${message}` : ""}`;
+}
+
+// One line per flaky test for the repair prompt and the report
+export function describeFlakyTest(test: FlakyTest): string {
+    const subject = test.name === test.testFile ? `${test.testFile} (failed to load)` : test.name;
+    return `${subject}: ${describeFlakeRate(test)}`;
+}
@@ -0,0 +1,82 @@
+import z from "zod";
+
+// How much test generation one run may do: how many source files get a test file, how many are generated at
+// once, and the wall-clock and token limits after which no further files are started. Files already in
+// flight when a limit is reached are allowed to finish.
+export const GenerationBudgetSchema = z.object({
+    maxFiles: z.number().int().positive().optional().describe("Source files to generate tests for (default GENERATION_MAX_FILES or 5)"),
+    concurrency: z.number().int().positive().optional().describe("Test files generated in parallel (default GENERATION_CONCURRENCY or 2)"),
+    maxDurationMs: z.number().int().positive().optional().describe("Stop starting new files after this long (default GENERATION_MAX_DURATION_MS or 30 minutes)"),
+    maxTokens: z.number().int().positive().optional().describe("Stop starting new files once the agents used this many tokens (default GENERATION_MAX_TOKENS, unlimited)"),
+});
+export type GenerationBudget = z.infer<typeof GenerationBudgetSchema>;
+
+const MAX_CONCURRENCY = 8;
+
+function envNumber(name: string): number | undefined {
+    const parsed = Number(process.env[name]);
+    return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : undefined;
+}
+
+// Request values win over the environment, the environment over the defaults
+export function resolveGenerationBudget(budget?: GenerationBudget) {
+    return {
+        maxFiles: budget?.maxFiles ?? envNumber("GENERATION_MAX_FILES") ?? 5,
+        concurrency: Math.min(budget?.concurrency ?? envNumber("GENERATION_CONCURRENCY") ?? 2, MAX_CONCURRENCY),
+        maxDurationMs: budget?.maxDurationMs ?? envNumber("GENERATION_MAX_DURATION_MS") ?? 30 * 60 * 1000,
+        maxTokens: budget?.maxTokens ?? envNumber("GENERATION_MAX_TOKENS"),
+    };
+}
+
+export type ResolvedGenerationBudget = ReturnType<typeof resolveGenerationBudget>;
+
+export type BudgetTracker = {
+    addTokens: (count: number | undefined) => void;
+    tokensUsed: () => number;
+    elapsedMs: () => number;
+    // Why no further work should start, or undefined while there is budget left
+    exhausted: () => string | undefined;
+};
+
+// Spend tracker for one generation pass; agent calls report their token usage to it
+export function createBudgetTracker(budget: ResolvedGenerationBudget): BudgetTracker {
+    const startedAt = Date.now();
+    let tokens = 0;
+    return {
+        addTokens: (count) => {
+            if (typeof count === "number" && Number.isFinite(count)) tokens += count;
+        },
+        tokensUsed: () => tokens,
+        elapsedMs: () => Date.now() - startedAt,
+        exhausted: () => {
+            if (Date.now() - startedAt >= budget.maxDurationMs) return `time budget of ${Math.round(budget.maxDurationMs / 1000)}s used`;
+            if (budget.maxTokens !== undefined && tokens >= budget.maxTokens) return `token budget of ${budget.maxTokens} tokens used`;
+            return undefined;
+        },
+    };
+}
+
+/**
+ * Run `worker` over `items` with at most `concurrency` in flight, in order. Items not started because the
+ * tracker ran out of budget (or the signal was aborted) get `onSkipped` instead; results keep input order.
+ */
+export async function runWithBudget<T, R>(
+    items: T[],
+    concurrency: number,
+    tracker: BudgetTracker,
+    worker: (item: T, index: number) => Promise<R>,
+    onSkipped: (item: T, reason: string) => R,
+    signal?: AbortSignal,
+): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+    const lane = async () => {
+        while (next < items.length) {
+            const index = next++;
+            const reason = signal?.aborted ? "run cancelled" : tracker.exhausted();
+            results[index] = reason ? onSkipped(items[index], reason) : await worker(items[index], index);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, lane));
+    return results;
+}
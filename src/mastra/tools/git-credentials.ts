@@ -0,0 +1,56 @@
+import { exec } from "child_process";
+
+// Git inside the sandbox asks this script for credentials. The script only echoes an env var,
+// and that env var is set per `docker exec` call, so the token is never written into the
+// container, the remote URL or a command line.
+const ASKPASS_PATH = "/root/.yc-git-askpass";
+const TOKEN_ENV = "YC_GIT_TOKEN";
+const USERNAME_ENV = "YC_GIT_USERNAME";
+
+const ASKPASS_SCRIPT = `#!/bin/sh
+case "$1" in
+  Username*) echo "\${${USERNAME_ENV}:-x-access-token}" ;;
+  *) echo "$${TOKEN_ENV}" ;;
+esac
+`;
+
+function sh(cmd: string, env?: NodeJS.ProcessEnv): Promise<{ stdout: string; stderr: string }> {
+    return new Promise((resolve, reject) => {
+        exec(cmd, { maxBuffer: 1024 * 1024 * 10, env: env ? { ...process.env, ...env } : process.env }, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(stderr || error.message));
+            } else {
+                resolve({ stdout, stderr });
+            }
+        });
+    });
+}
+
+function shellEscape(str: string): string {
+    return "'" + str.replace(/'/g, "'\"'\"'") + "'";
+}
+
+export async function installGitAskpass(containerId: string): Promise<void> {
+    const encoded = Buffer.from(ASKPASS_SCRIPT, "utf8").toString("base64");
+    await sh(`docker exec ${containerId} sh -c "echo ${encoded} | base64 -d > ${ASKPASS_PATH} && chmod 700 ${ASKPASS_PATH}"`);
+}
+
+/**
+ * Run a shell command in the container with git wired to the askpass helper.
+ * `docker exec -e NAME` (without a value) copies NAME from the docker CLI environment,
+ * which is where the token lives for the duration of this call only.
+ * `username` is the host's token username (see GitHostProvider.gitUsername); GitHub's is the default.
+ */
+export async function execWithGitCredentials(
+    containerId: string,
+    command: string,
+    token: string | undefined,
+    username: string = "x-access-token",
+): Promise<{ stdout: string; stderr: string }> {
+    if (!token) {
+        return await sh(`docker exec ${containerId} bash -lc ${shellEscape(command)}`);
+    }
+    await installGitAskpass(containerId);
+    const envArgs = `-e GIT_ASKPASS=${ASKPASS_PATH} -e GIT_TERMINAL_PROMPT=0 -e ${TOKEN_ENV} -e ${USERNAME_ENV}`;
+    return await sh(`docker exec ${envArgs} ${containerId} bash -lc ${shellEscape(command)}`, { [TOKEN_ENV]: token, [USERNAME_ENV]: username });
+}
@@ -0,0 +1,392 @@
+import z from "zod";
+
+// Git-host providers. Everything host-specific (clone URL, default branch, repo metadata,
+// pull/merge request creation) goes through the provider picked from the repository URL host.
+
+export type GitHostKind = 'github' | 'gitlab' | 'bitbucket';
+
+export type RepoCoordinates = {
+    kind: GitHostKind;
+    hostname: string;
+    // GitLab owners can be nested groups ("group/subgroup")
+    owner: string;
+    repo: string;
+    fullName: string;
+};
+
+export type RepoMetadata = {
+    description?: string;
+    topics?: string[];
+    defaultBranch?: string;
+};
+
+export type PullRequestInfo = {
+    number: number;
+    url: string;
+    headBranch: string;
+    headSha?: string;
+    baseBranch: string;
+    // False for PRs opened from a fork, whose head branch is not on origin
+    sameRepository: boolean;
+    // Ref on origin that points at the PR head, where the host provides one
+    headRef?: string;
+};
+
+// What the clone step actually checked out. `targetBranch` is where the tests PR should be opened
+// (the PR's own branch, or the requested feature branch); unset means the usual base-branch heuristics.
+// `local` checkouts were copied from a host path or upload and are delivered as a patch instead of a PR.
+export const RepoCheckoutSchema = z.object({
+    ref: z.string().optional().describe("Requested branch, tag or commit SHA"),
+    refType: z.enum(['default', 'branch', 'tag', 'commit', 'pull-request', 'local']),
+    sha: z.string().describe("Resolved commit SHA"),
+    branch: z.string().optional().describe("Checked-out branch, absent when HEAD is detached"),
+    targetBranch: z.string().optional(),
+    pullRequest: z.object({
+        number: z.number(),
+        url: z.string().optional(),
+        headBranch: z.string(),
+        baseBranch: z.string(),
+        sameRepository: z.boolean(),
+    }).optional(),
+    depth: z.number().optional().describe("Shallow clone depth, absent for full clones"),
+    sparsePaths: z.array(z.string()).optional().describe("Sparse checkout cone; agents stay inside these paths"),
+    baselineCreated: z.boolean().optional().describe("Local sources: the baseline commit was made in the sandbox and exists nowhere else"),
+});
+export type RepoCheckout = z.infer<typeof RepoCheckoutSchema>;
+
+export type MergeRequestInput = {
+    title: string;
+    body: string;
+    head: string;
+    base: string;
+};
+
+export type MergeRequestResult =
+    | { ok: true; url: string; number?: number }
+    | { ok: false; status: number; text: string; noCommits: boolean };
+
+export interface GitHostProvider {
+    kind: GitHostKind;
+    label: string;
+    // Username git sends together with the token over HTTPS
+    gitUsername: string;
+    cloneUrl(coords: RepoCoordinates): string;
+    webUrl(coords: RepoCoordinates): string;
+    mergeRequestsUrl(coords: RepoCoordinates): string;
+    getMetadata(coords: RepoCoordinates, token?: string): Promise<RepoMetadata>;
+    // Language name -> weight (bytes on GitHub, percent on GitLab); callers only rely on the ordering
+    getLanguages(coords: RepoCoordinates, token?: string): Promise<Record<string, number>>;
+    getPullRequest(coords: RepoCoordinates, number: number, token?: string): Promise<PullRequestInfo | undefined>;
+    createMergeRequest(coords: RepoCoordinates, token: string, input: MergeRequestInput): Promise<MergeRequestResult>;
+    addComment(coords: RepoCoordinates, token: string, number: number, body: string): Promise<void>;
+}
+
+async function fetchJson(url: string, headers: Record<string, string>): Promise<any | undefined> {
+    try {
+        const res = await fetch(url, { headers });
+        if (!res.ok) return undefined;
+        return await res.json();
+    } catch {
+        return undefined;
+    }
+}
+
+async function postJson(url: string, headers: Record<string, string>, payload: unknown): Promise<{ ok: boolean; status: number; text: string; json?: any }> {
+    const res = await fetch(url, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+    });
+    const text = await res.text().catch(() => "");
+    let json: any;
+    try { json = text ? JSON.parse(text) : undefined; } catch { json = undefined; }
+    return { ok: res.ok, status: res.status, text, json };
+}
+
+// ----------------------------------------------------------------------------
+// GitHub
+// ----------------------------------------------------------------------------
+function githubApiBase(hostname: string): string {
+    return hostname === 'github.com' ? 'https://api.github.com' : `https://${hostname}/api/v3`;
+}
+
+function githubHeaders(token?: string): Record<string, string> {
+    const headers: Record<string, string> = { 'Accept': 'application/vnd.github+json' };
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    return headers;
+}
+
+const githubProvider: GitHostProvider = {
+    kind: 'github',
+    label: 'GitHub',
+    gitUsername: 'x-access-token',
+    cloneUrl: (c) => `https://${c.hostname}/${c.fullName}.git`,
+    webUrl: (c) => `https://${c.hostname}/${c.fullName}`,
+    mergeRequestsUrl: (c) => `https://${c.hostname}/${c.fullName}/pulls`,
+    async getMetadata(c, token) {
+        const json = await fetchJson(`${githubApiBase(c.hostname)}/repos/${c.fullName}`, githubHeaders(token));
+        if (!json) return {};
+        return {
+            description: typeof json.description === 'string' ? json.description : undefined,
+            topics: Array.isArray(json.topics) ? json.topics : undefined,
+            defaultBranch: typeof json.default_branch === 'string' ? json.default_branch : undefined,
+        };
+    },
+    async getLanguages(c, token) {
+        return (await fetchJson(`${githubApiBase(c.hostname)}/repos/${c.fullName}/languages`, githubHeaders(token))) || {};
+    },
+    async getPullRequest(c, number, token) {
+        const json = await fetchJson(`${githubApiBase(c.hostname)}/repos/${c.fullName}/pulls/${number}`, githubHeaders(token));
+        if (!json?.head?.ref) return undefined;
+        return {
+            number,
+            url: json.html_url,
+            headBranch: json.head.ref,
+            headSha: json.head.sha,
+            baseBranch: json.base?.ref,
+            sameRepository: json.head.repo?.full_name === json.base?.repo?.full_name,
+            headRef: `refs/pull/${number}/head`,
+        };
+    },
+    async createMergeRequest(c, token, input) {
+        const res = await postJson(`${githubApiBase(c.hostname)}/repos/${c.fullName}/pulls`, githubHeaders(token), {
+            title: input.title,
+            head: input.head,
+            base: input.base,
+            body: input.body,
+            maintainer_can_modify: true,
+        });
+        if (!res.ok) {
+            return { ok: false, status: res.status, text: res.text, noCommits: res.status === 422 && /No commits between/i.test(res.text) };
+        }
+        return { ok: true, url: res.json?.html_url || githubProvider.mergeRequestsUrl(c), number: res.json?.number };
+    },
+    async addComment(c, token, number, body) {
+        await postJson(`${githubApiBase(c.hostname)}/repos/${c.fullName}/issues/${number}/comments`, githubHeaders(token), { body });
+    },
+};
+
+// ----------------------------------------------------------------------------
+// GitLab (gitlab.com and self-hosted)
+// ----------------------------------------------------------------------------
+function gitlabProjectApi(c: RepoCoordinates): string {
+    return `https://${c.hostname}/api/v4/projects/${encodeURIComponent(c.fullName)}`;
+}
+
+function gitlabHeaders(token?: string): Record<string, string> {
+    const headers: Record<string, string> = { 'Accept': 'application/json' };
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    return headers;
+}
+
+const gitlabProvider: GitHostProvider = {
+    kind: 'gitlab',
+    label: 'GitLab',
+    gitUsername: 'oauth2',
+    cloneUrl: (c) => `https://${c.hostname}/${c.fullName}.git`,
+    webUrl: (c) => `https://${c.hostname}/${c.fullName}`,
+    mergeRequestsUrl: (c) => `https://${c.hostname}/${c.fullName}/-/merge_requests`,
+    async getMetadata(c, token) {
+        const json = await fetchJson(gitlabProjectApi(c), gitlabHeaders(token));
+        if (!json) return {};
+        const topics = Array.isArray(json.topics) ? json.topics : (Array.isArray(json.tag_list) ? json.tag_list : undefined);
+        return {
+            description: typeof json.description === 'string' ? json.description : undefined,
+            topics,
+            defaultBranch: typeof json.default_branch === 'string' ? json.default_branch : undefined,
+        };
+    },
+    async getLanguages(c, token) {
+        return (await fetchJson(`${gitlabProjectApi(c)}/languages`, gitlabHeaders(token))) || {};
+    },
+    async getPullRequest(c, number, token) {
+        const json = await fetchJson(`${gitlabProjectApi(c)}/merge_requests/${number}`, gitlabHeaders(token));
+        if (!json?.source_branch) return undefined;
+        return {
+            number,
+            url: json.web_url,
+            headBranch: json.source_branch,
+            headSha: json.sha,
+            baseBranch: json.target_branch,
+            sameRepository: json.source_project_id === json.target_project_id,
+            headRef: `refs/merge-requests/${number}/head`,
+        };
+    },
+    async createMergeRequest(c, token, input) {
+        const res = await postJson(`${gitlabProjectApi(c)}/merge_requests`, gitlabHeaders(token), {
+            title: input.title,
+            description: input.body,
+            source_branch: input.head,
+            target_branch: input.base,
+            remove_source_branch: true,
+        });
+        if (!res.ok) {
+            // GitLab has no "no commits" rejection; an empty diff still opens a merge request
+            return { ok: false, status: res.status, text: res.text, noCommits: false };
+        }
+        return { ok: true, url: res.json?.web_url || gitlabProvider.mergeRequestsUrl(c), number: res.json?.iid };
+    },
+    async addComment(c, token, number, body) {
+        await postJson(`${gitlabProjectApi(c)}/merge_requests/${number}/notes`, gitlabHeaders(token), { body });
+    },
+};
+
+// ----------------------------------------------------------------------------
+// Bitbucket Cloud
+// ----------------------------------------------------------------------------
+const BITBUCKET_API = 'https://api.bitbucket.org/2.0';
+
+// Repository/workspace access tokens authenticate as Bearer. App passwords need the account
+// username as well, which is read from BITBUCKET_USERNAME.
+function bitbucketHeaders(token?: string): Record<string, string> {
+    const headers: Record<string, string> = { 'Accept': 'application/json' };
+    const username = process.env.BITBUCKET_USERNAME;
+    if (token && username) headers['Authorization'] = `Basic ${Buffer.from(`${username}:${token}`).toString('base64')}`;
+    else if (token) headers['Authorization'] = `Bearer ${token}`;
+    return headers;
+}
+
+const bitbucketProvider: GitHostProvider = {
+    kind: 'bitbucket',
+    label: 'Bitbucket',
+    get gitUsername() {
+        return process.env.BITBUCKET_USERNAME || 'x-token-auth';
+    },
+    cloneUrl: (c) => `https://${c.hostname}/${c.fullName}.git`,
+    webUrl: (c) => `https://${c.hostname}/${c.fullName}`,
+    mergeRequestsUrl: (c) => `https://${c.hostname}/${c.fullName}/pull-requests`,
+    async getMetadata(c, token) {
+        const json = await fetchJson(`${BITBUCKET_API}/repositories/${c.fullName}`, bitbucketHeaders(token));
+        if (!json) return {};
+        return {
+            description: typeof json.description === 'string' && json.description ? json.description : undefined,
+            defaultBranch: typeof json.mainbranch?.name === 'string' ? json.mainbranch.name : undefined,
+        };
+    },
+    async getLanguages(c, token) {
+        // Bitbucket only reports a single primary language
+        const json = await fetchJson(`${BITBUCKET_API}/repositories/${c.fullName}`, bitbucketHeaders(token));
+        return typeof json?.language === 'string' && json.language ? { [json.language]: 100 } : {};
+    },
+    async getPullRequest(c, number, token) {
+        const json = await fetchJson(`${BITBUCKET_API}/repositories/${c.fullName}/pullrequests/${number}`, bitbucketHeaders(token));
+        if (!json?.source?.branch?.name) return undefined;
+        // Bitbucket has no pull request refs and only reports a short head hash; the source branch is fetched instead
+        return {
+            number,
+            url: json.links?.html?.href,
+            headBranch: json.source.branch.name,
+            headSha: json.source.commit?.hash,
+            baseBranch: json.destination?.branch?.name,
+            sameRepository: json.source.repository?.full_name === json.destination?.repository?.full_name,
+        };
+    },
+    async createMergeRequest(c, token, input) {
+        const res = await postJson(`${BITBUCKET_API}/repositories/${c.fullName}/pullrequests`, bitbucketHeaders(token), {
+            title: input.title,
+            description: input.body,
+            source: { branch: { name: input.head } },
+            destination: { branch: { name: input.base } },
+            close_source_branch: true,
+        });
+        if (!res.ok) {
+            return { ok: false, status: res.status, text: res.text, noCommits: res.status === 400 && /no changes/i.test(res.text) };
+        }
+        return { ok: true, url: res.json?.links?.html?.href || bitbucketProvider.mergeRequestsUrl(c), number: res.json?.id };
+    },
+    async addComment(c, token, number, body) {
+        await postJson(`${BITBUCKET_API}/repositories/${c.fullName}/pullrequests/${number}/comments`, bitbucketHeaders(token), { content: { raw: body } });
+    },
+};
+
+const PROVIDERS: Record<GitHostKind, GitHostProvider> = {
+    github: githubProvider,
+    gitlab: gitlabProvider,
+    bitbucket: bitbucketProvider,
+};
+
+// Self-hosted instances whose hostname does not say which product they run
+function hostsFromEnv(name: string): string[] {
+    return (process.env[name] || '').split(',').map((h) => h.trim().toLowerCase()).filter(Boolean);
+}
+
+export function detectGitHostKind(hostname: string): GitHostKind {
+    const host = hostname.toLowerCase();
+    if (hostsFromEnv('GITLAB_HOSTS').includes(host) || host.includes('gitlab')) return 'gitlab';
+    if (host === 'bitbucket.org' || host.endsWith('.bitbucket.org')) return 'bitbucket';
+    return 'github';
+}
+
+export function getGitHostProvider(kind: GitHostKind): GitHostProvider {
+    return PROVIDERS[kind];
+}
+
+/**
+ * Parse a repository reference into host coordinates. Accepts:
+ * - "owner/repo" (GitHub)
+ * - https URLs, with or without ".git" and trailing paths ("/-/tree/main", "/src/main")
+ * - scp-style SSH remotes ("git@gitlab.com:group/sub/repo.git")
+ */
+export function parseRepositoryUrl(input: string): RepoCoordinates | undefined {
+    const value = (input || '').trim();
+    if (!value || value.includes(' ')) return undefined;
+
+    let hostname: string;
+    let pathPart: string;
+    const scp = value.match(/^[\w.-]+@([^:/]+):(.+)$/);
+    if (scp) {
+        hostname = scp[1];
+        pathPart = scp[2];
+    } else if (/^[a-z+]+:\/\//i.test(value)) {
+        try {
+            const url = new URL(value);
+            hostname = url.hostname;
+            pathPart = url.pathname;
+        } catch {
+            return undefined;
+        }
+    } else if (/^[^/]+\.[a-z]{2,}\//i.test(value)) {
+        // "gitlab.com/group/repo" without a scheme
+        const idx = value.indexOf('/');
+        hostname = value.slice(0, idx);
+        pathPart = value.slice(idx + 1);
+    } else {
+        hostname = 'github.com';
+        pathPart = value;
+    }
+
+    const kind = detectGitHostKind(hostname);
+    let segments = pathPart.replace(/\.git$/, '').split('/').filter(Boolean);
+    // Drop UI paths after the project (GitLab "/-/...", GitHub "/tree/...", Bitbucket "/src/...")
+    const dash = segments.indexOf('-');
+    if (dash >= 0) segments = segments.slice(0, dash);
+    if (kind !== 'gitlab') segments = segments.slice(0, 2);
+    if (segments.length < 2) return undefined;
+
+    const repo = segments[segments.length - 1].replace(/\.git$/, '');
+    const owner = segments.slice(0, -1).join('/');
+    return { kind, hostname: hostname.toLowerCase(), owner, repo, fullName: `${owner}/${repo}` };
+}
+
+/**
+ * Resolve coordinates from an explicit repository URL, falling back to contextData
+ * (repositoryUrl/url, then owner/repo or fullName, which are assumed to be on GitHub).
+ */
+export function resolveRepoCoordinates(repositoryUrl: string | undefined, contextData?: any): RepoCoordinates | undefined {
+    if (repositoryUrl) return parseRepositoryUrl(repositoryUrl);
+
+    const context: any = contextData || {};
+    const contextUrl = [context.repositoryUrl, context.repoUrl, context.url, context.html_url, context.web_url]
+        .find((u) => typeof u === 'string' && u.trim().length > 0);
+    if (contextUrl) {
+        const parsed = parseRepositoryUrl(contextUrl);
+        if (parsed) return parsed;
+    }
+
+    const owner = typeof context.owner === 'string' ? context.owner : undefined;
+    const repo = typeof context.repo === 'string' ? context.repo : undefined;
+    const fullName: string | undefined = typeof context.fullName === 'string' ? context.fullName : (typeof context.full_name === 'string' ? context.full_name : undefined);
+    if (owner && repo) return parseRepositoryUrl(`${owner}/${repo}`);
+    if (fullName && fullName.includes('/')) return parseRepositoryUrl(fullName);
+    return undefined;
+}
@@ -0,0 +1,237 @@
+import z from "zod";
+import { exec } from "child_process";
+import { existsSync, mkdirSync, rmSync, statSync, writeFileSync } from "fs";
+import path from "path";
+import os from "os";
+
+// Local source instead of a git host: a directory on this host or an uploaded .tar.gz
+export const LocalSourceSchema = z.object({
+    path: z.string().min(1).describe("Host directory, or .tar.gz/.tgz archive, to copy into the container"),
+    name: z.string().optional().describe("Directory name under /app; defaults to the source's basename"),
+});
+export type LocalSource = z.infer<typeof LocalSourceSchema>;
+
+export const PATCH_ARTIFACTS = ['tests.patch', 'tests.bundle'] as const;
+export type PatchArtifactName = typeof PATCH_ARTIFACTS[number];
+
+// Where the generated tests ended up when the run had no git host to open a PR against
+export const PatchExportSchema = z.object({
+    branchName: z.string().describe("Sandbox branch holding the test commit"),
+    baseSha: z.string().describe("Baseline commit the patch applies to"),
+    headSha: z.string().describe("Commit with the generated tests"),
+    files: z.array(z.string()).describe("Files changed by the patch"),
+    artifacts: z.array(z.object({
+        name: z.enum(PATCH_ARTIFACTS),
+        url: z.string().describe("Download path on this server"),
+    })),
+});
+export type PatchExport = z.infer<typeof PatchExportSchema>;
+
+const ARCHIVE_EXT = /\.(tar\.gz|tgz)$/i;
+const SAFE_NAME = /^[\w.-]+$/;
+// Dependency and build folders are reinstalled in the sandbox; copying them only slows docker cp down
+const COPY_EXCLUDES = ['node_modules', '.venv', 'venv', '__pycache__', 'dist', 'build', '.next', 'coverage'];
+
+function sh(cmd: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        exec(cmd, { maxBuffer: 1024 * 1024 * 10 }, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(stderr || error.message));
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
+
+function shellEscape(str: string): string {
+    return "'" + str.replace(/'/g, "'\"'\"'") + "'";
+}
+
+// Uploaded archives are written here and are always allowed as a source
+export function getUploadDir(): string {
+    return path.join(os.tmpdir(), 'yc-uploads');
+}
+
+export function getArtifactsDir(runId: string): string {
+    return path.join(process.env.ARTIFACTS_DIR || path.join(os.tmpdir(), 'yc-artifacts'), runId);
+}
+
+function getAllowedRoots(allowUploads: boolean): string[] {
+    const roots = (process.env.LOCAL_SOURCE_ROOTS || '')
+        .split(',')
+        .map((r) => r.trim())
+        .filter(Boolean)
+        .map((r) => path.resolve(r));
+    return allowUploads ? [...roots, getUploadDir()] : roots;
+}
+
+function isUnder(child: string, root: string): boolean {
+    const rel = path.relative(root, child);
+    return rel === '' || (!rel.startsWith('..') && !path.isAbsolute(rel));
+}
+
+function getMaxUploadBytes(): number {
+    const parsed = Number(process.env.SOURCE_UPLOAD_MAX_BYTES);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : 200 * 1024 * 1024;
+}
+
+/**
+ * Validate a local source and resolve its path. Host paths must sit under one of LOCAL_SOURCE_ROOTS
+ * (comma-separated); without it only uploaded archives are accepted. `allowUploads` is only set for
+ * archives this server saved itself, so a JSON body cannot point at someone else's upload.
+ */
+export function resolveLocalSource(raw: unknown, options: { allowUploads?: boolean } = {}): LocalSource & { kind: 'directory' | 'archive' } {
+    const parsed = LocalSourceSchema.safeParse(typeof raw === 'string' ? { path: raw } : raw);
+    if (!parsed.success) {
+        throw new Error(`Invalid source: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')}`);
+    }
+    const resolved = path.resolve(parsed.data.path);
+    if (!getAllowedRoots(options.allowUploads === true).some((root) => isUnder(resolved, root))) {
+        throw new Error(`Source path ${parsed.data.path} is outside LOCAL_SOURCE_ROOTS`);
+    }
+    if (!existsSync(resolved)) {
+        throw new Error(`Source path ${parsed.data.path} does not exist`);
+    }
+    const stat = statSync(resolved);
+    const kind = stat.isDirectory() ? 'directory' : (stat.isFile() && ARCHIVE_EXT.test(resolved) ? 'archive' : undefined);
+    if (!kind) {
+        throw new Error(`Source path ${parsed.data.path} must be a directory or a .tar.gz/.tgz archive`);
+    }
+    if (parsed.data.name !== undefined && (!SAFE_NAME.test(parsed.data.name) || parsed.data.name.startsWith('.'))) {
+        throw new Error(`Invalid source name: ${parsed.data.name}`);
+    }
+    return { path: resolved, name: parsed.data.name, kind };
+}
+
+// Directory name under /app: the explicit name, else the basename without the archive extension
+export function localSourceName(source: LocalSource): string {
+    if (source.name) return source.name;
+    const base = path.basename(source.path).replace(ARCHIVE_EXT, '').replace(/[^\w.-]/g, '-').replace(/^[.-]+/, '');
+    return base || 'source';
+}
+
+/**
+ * Read a multipart /start-full-pipeline body. The `source` file part is saved under the upload dir and
+ * replaced by a LocalSource; other parts holding JSON (contextData, cloneOptions, ...) are parsed.
+ */
+export async function readMultipartStartBody(form: Record<string, string | File | (string | File)[]>): Promise<Record<string, any>> {
+    const body: Record<string, any> = {};
+    for (const [key, value] of Object.entries(form)) {
+        const part = Array.isArray(value) ? value[0] : value;
+        // A multipart `source` is always an upload; host paths go through the JSON body
+        if (typeof part === 'string' && key !== 'source') {
+            const trimmed = part.trim();
+            try {
+                body[key] = /^[\[{]/.test(trimmed) ? JSON.parse(trimmed) : part;
+            } catch {
+                body[key] = part;
+            }
+        }
+    }
+
+    const upload = Array.isArray(form.source) ? form.source[0] : form.source;
+    if (upload && typeof upload !== 'string') {
+        if (!ARCHIVE_EXT.test(upload.name || '')) {
+            throw new Error('Uploaded source must be a .tar.gz or .tgz archive');
+        }
+        if (upload.size > getMaxUploadBytes()) {
+            throw new Error(`Uploaded source exceeds SOURCE_UPLOAD_MAX_BYTES (${getMaxUploadBytes()} bytes)`);
+        }
+        mkdirSync(getUploadDir(), { recursive: true });
+        const file = path.join(getUploadDir(), `${Date.now()}-${Math.random().toString(36).slice(2, 10)}.tar.gz`);
+        writeFileSync(file, Buffer.from(await upload.arrayBuffer()));
+        const name = typeof body.sourceName === 'string' && body.sourceName.trim()
+            ? body.sourceName.trim()
+            : path.basename(upload.name).replace(ARCHIVE_EXT, '').replace(/[^\w.-]/g, '-').replace(/^[.-]+/, '') || undefined;
+        body.source = { path: file, name };
+    }
+    return body;
+}
+
+// Remove an uploaded archive once it has been copied (or the run is over). Host directories are never touched.
+export function discardUploadedSource(source?: LocalSource): void {
+    if (!source?.path) return;
+    const resolved = path.resolve(source.path);
+    if (isUnder(resolved, getUploadDir()) && resolved !== getUploadDir()) {
+        rmSync(resolved, { force: true });
+    }
+}
+
+/**
+ * Copy a local source into /app/<name> with docker cp. Directories are streamed as a tar (minus dependency
+ * folders); archives are decompressed on the host and, when they wrap a single top-level folder, flattened.
+ */
+export async function copyLocalSourceToContainer(containerId: string, source: LocalSource): Promise<string> {
+    const resolved = resolveLocalSource(source, { allowUploads: true });
+    const repoPath = `/app/${localSourceName(resolved)}`;
+
+    await sh(`docker exec ${containerId} bash -lc ${shellEscape(`rm -rf ${repoPath} && mkdir -p ${repoPath}`)}`);
+    if (resolved.kind === 'directory') {
+        const excludes = COPY_EXCLUDES.map((d) => `--exclude=${shellEscape(`./${d}`)}`).join(' ');
+        await sh(`tar -C ${shellEscape(resolved.path)} ${excludes} -cf - . | docker cp - ${containerId}:${repoPath}`);
+    } else {
+        await sh(`gzip -dc ${shellEscape(resolved.path)} | docker cp - ${containerId}:${repoPath}`);
+        const flatten = `cd ${repoPath} && entries=$(ls -A) && if [ "$(ls -A | wc -l)" -eq 1 ] && [ -d "$entries" ] && [ "$entries" != .git ]; then shopt -s dotglob && tmp=".yc-src-$$" && mv "$entries" "$tmp" && mv "$tmp"/* . && rmdir "$tmp"; fi`;
+        await sh(`docker exec ${containerId} bash -lc ${shellEscape(flatten)}`);
+    }
+    return repoPath;
+}
+
+/**
+ * Give the copied source a git baseline so generated tests can be exported as a diff. Existing repositories
+ * keep their history; uncommitted changes (or a tree without .git) become one snapshot commit.
+ */
+export async function snapshotLocalSource(containerId: string, repoPath: string): Promise<{ sha: string; branch?: string; baselineCreated: boolean }> {
+    const script = [
+        `cd ${repoPath}`,
+        `(git rev-parse --git-dir >/dev/null 2>&1 || git init -q)`,
+        `git config user.email 'mastra-bot@local'`,
+        `git config user.name 'Mastra Bot'`,
+        `git add -A`,
+        `if ! git rev-parse -q --verify HEAD >/dev/null || ! git diff --cached --quiet; then git commit -q --no-verify -m 'Baseline snapshot of local source' && echo CREATED; fi`,
+    ].join(' && ');
+    const created = (await sh(`docker exec ${containerId} bash -lc ${shellEscape(script)}`)).includes('CREATED');
+    const sha = (await sh(`docker exec ${containerId} bash -lc ${shellEscape(`cd ${repoPath} && git rev-parse HEAD`)}`)).trim();
+    const branch = (await sh(`docker exec ${containerId} bash -lc ${shellEscape(`cd ${repoPath} && git symbolic-ref --short -q HEAD || true`)}`)).trim();
+    return { sha, branch: branch || undefined, baselineCreated: created };
+}
+
+/**
+ * Write the commits after the baseline as a format-patch and a git bundle, streamed straight into the host
+ * artifacts dir (`docker cp` cannot read the sandbox's tmpfs /tmp). The bundle carries the full history when
+ * the baseline only exists inside the sandbox.
+ */
+export async function exportPatchArtifacts(params: {
+    runId: string;
+    containerId: string;
+    repoPath: string;
+    baseSha: string;
+    branchName: string;
+    fullHistory: boolean;
+}): Promise<Record<PatchArtifactName, string>> {
+    const { runId, containerId, repoPath, baseSha, branchName } = params;
+    const outDir = getArtifactsDir(runId);
+    mkdirSync(outDir, { recursive: true });
+
+    const range = params.fullHistory ? branchName : `${baseSha}..${branchName}`;
+    const commands: Record<PatchArtifactName, string> = {
+        'tests.patch': `git format-patch ${baseSha}..${branchName} --stdout`,
+        'tests.bundle': `git bundle create - ${range}`,
+    };
+
+    const files = {} as Record<PatchArtifactName, string>;
+    for (const name of PATCH_ARTIFACTS) {
+        const target = path.join(outDir, name);
+        await sh(`docker exec ${containerId} bash -lc ${shellEscape(`cd ${repoPath} && ${commands[name]}`)} > ${shellEscape(target)}`);
+        files[name] = target;
+    }
+    return files;
+}
+
+// Host path of an exported artifact, or undefined for unknown names and runs without exports
+export function getPatchArtifactPath(runId: string, name: string): string | undefined {
+    if (!SAFE_NAME.test(runId) || !(PATCH_ARTIFACTS as readonly string[]).includes(name)) return undefined;
+    const file = path.join(getArtifactsDir(runId), name);
+    return existsSync(file) ? file : undefined;
+}
@@ -0,0 +1,304 @@
+import ts from "typescript";
+import { exec } from "child_process";
+import path from "path";
+import z from "zod";
+import { readContainerFiles, writeContainerFile } from "./source-analysis";
+import type { TestFramework } from "./test-frameworks";
+import { runGeneratedTests } from "./test-runner";
+
+// Mutation testing scores how strong the generated tests are: small faults (mutants) are planted in the source
+// file under test one at a time, such as `<` turned into `<=` or `&&` into `||`, and the file's generated tests
+// are run against each. A mutant the tests fail on is killed; one they still pass on survives and points at
+// behaviour no test pins down. TypeScript/JavaScript mutants come from the TypeScript AST, Python mutants from
+// the sandbox's own `tokenize`.
+
+const DEFAULT_MAX_MUTANTS = 20;
+const MUTANT_TIMEOUT_MS = Number(process.env.MUTATION_TIMEOUT_MS) || 60 * 1000;
+const MIN_MUTANT_TIMEOUT_MS = 10 * 1000;
+const SNIPPET_LIMIT = 120;
+
+export const MutantSchema = z.object({
+    id: z.string(),
+    line: z.number().describe("1-based line of the mutated code"),
+    column: z.number().describe("1-based column of the mutated code"),
+    start: z.number().describe("Offset of the replaced text in the source"),
+    end: z.number(),
+    mutator: z.string().describe("Kind of fault planted, e.g. EqualityOperator"),
+    original: z.string(),
+    replacement: z.string(),
+    snippet: z.string().describe("The source line before mutation"),
+    status: z.enum(["killed", "survived", "timeout"]).describe("Tests failed, still passed, or hung on the mutant"),
+    killedBy: z.string().optional().describe("First test that failed on the mutant"),
+});
+export type Mutant = z.infer<typeof MutantSchema>;
+
+export const MutationReportSchema = z.object({
+    sourceFile: z.string(),
+    testFile: z.string(),
+    mutants: z.array(MutantSchema),
+    killed: z.number(),
+    survived: z.number(),
+    timedOut: z.number(),
+    score: z.number().describe("Detected (killed or timed out) mutants as a percentage of all mutants"),
+});
+export type MutationReport = z.infer<typeof MutationReportSchema>;
+
+// Totals over every mutation-tested file of a run
+export const MutationSummarySchema = z.object({
+    mutants: z.number(),
+    killed: z.number(),
+    survived: z.number(),
+    timedOut: z.number(),
+    score: z.number().describe("Detected (killed or timed out) mutants as a percentage of all mutants"),
+});
+export type MutationSummary = z.infer<typeof MutationSummarySchema>;
+
+type Candidate = Omit<Mutant, "id" | "status" | "killedBy">;
+
+function sh(cmd: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        exec(cmd, { maxBuffer: 1024 * 1024 * 100 }, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(stderr || error.message));
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
+
+function shellEscape(str: string): string {
+    return "'" + str.replace(/'/g, "'\"'\"'") + "'";
+}
+
+// Mutants per source file (MUTATION_MAX_MUTANTS, 0 turns mutation testing off); more candidates are sampled evenly
+export function mutantLimit(): number {
+    const raw = process.env.MUTATION_MAX_MUTANTS;
+    const parsed = Number(raw);
+    return raw && Number.isFinite(parsed) && parsed >= 0 ? Math.floor(parsed) : DEFAULT_MAX_MUTANTS;
+}
+
+const SCRIPT_OPERATORS: Partial<Record<ts.SyntaxKind, [string, string]>> = {
+    [ts.SyntaxKind.EqualsEqualsEqualsToken]: ["EqualityOperator", "!=="],
+    [ts.SyntaxKind.ExclamationEqualsEqualsToken]: ["EqualityOperator", "==="],
+    [ts.SyntaxKind.EqualsEqualsToken]: ["EqualityOperator", "!="],
+    [ts.SyntaxKind.ExclamationEqualsToken]: ["EqualityOperator", "=="],
+    [ts.SyntaxKind.LessThanToken]: ["BoundaryOperator", "<="],
+    [ts.SyntaxKind.LessThanEqualsToken]: ["BoundaryOperator", "<"],
+    [ts.SyntaxKind.GreaterThanToken]: ["BoundaryOperator", ">="],
+    [ts.SyntaxKind.GreaterThanEqualsToken]: ["BoundaryOperator", ">"],
+    [ts.SyntaxKind.PlusToken]: ["ArithmeticOperator", "-"],
+    [ts.SyntaxKind.MinusToken]: ["ArithmeticOperator", "+"],
+    [ts.SyntaxKind.AsteriskToken]: ["ArithmeticOperator", "/"],
+    [ts.SyntaxKind.SlashToken]: ["ArithmeticOperator", "*"],
+    [ts.SyntaxKind.PercentToken]: ["ArithmeticOperator", "*"],
+    [ts.SyntaxKind.AmpersandAmpersandToken]: ["LogicalOperator", "||"],
+    [ts.SyntaxKind.BarBarToken]: ["LogicalOperator", "&&"],
+    [ts.SyntaxKind.QuestionQuestionToken]: ["LogicalOperator", "&&"],
+};
+
+const PYTHON_OPERATORS: Record<string, [string, string]> = {
+    "==": ["EqualityOperator", "!="],
+    "!=": ["EqualityOperator", "=="],
+    "<": ["BoundaryOperator", "<="],
+    "<=": ["BoundaryOperator", "<"],
+    ">": ["BoundaryOperator", ">="],
+    ">=": ["BoundaryOperator", ">"],
+    "+": ["ArithmeticOperator", "-"],
+    "-": ["ArithmeticOperator", "+"],
+    "*": ["ArithmeticOperator", "/"],
+    "/": ["ArithmeticOperator", "*"],
+    "//": ["ArithmeticOperator", "*"],
+    "%": ["ArithmeticOperator", "*"],
+    "and": ["LogicalOperator", "or"],
+    "or": ["LogicalOperator", "and"],
+    "True": ["BooleanLiteral", "False"],
+    "False": ["BooleanLiteral", "True"],
+    "not": ["BooleanLiteral", ""],
+};
+
+// Prints the file's operator, name, number and string tokens as [type, text, line, column, is keyword]
+const PYTHON_TOKENIZER = String.raw`
+import io, json, keyword, sys, tokenize
+with open(sys.argv[1], encoding="utf-8") as f:
+    source = f.read()
+kinds = {tokenize.OP, tokenize.NAME, tokenize.NUMBER, tokenize.STRING}
+tokens = [[tokenize.tok_name[t.type], t.string, t.start[0], t.start[1], keyword.iskeyword(t.string)]
+          for t in tokenize.generate_tokens(io.StringIO(source).readline) if t.type in kinds]
+print(json.dumps(tokens))
+`;
+
+function lineStarts(text: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < text.length; i++) if (text[i] === "\n") starts.push(i + 1);
+    return starts;
+}
+
+function snippetAt(text: string, starts: number[], line: number): string {
+    const snippet = text.slice(starts[line - 1], starts[line] ?? text.length).trim();
+    return snippet.length > SNIPPET_LIMIT ? `${snippet.slice(0, SNIPPET_LIMIT)}…` : snippet;
+}
+
+function isStringOperand(node: ts.Expression): boolean {
+    return ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node) || ts.isTemplateExpression(node);
+}
+
+function scriptCandidates(text: string, fileName: string): Candidate[] {
+    const source = ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest, true);
+    const starts = lineStarts(text);
+    const candidates: Candidate[] = [];
+    const add = (start: number, end: number, mutator: string, replacement: string) => {
+        const { line, character } = source.getLineAndCharacterOfPosition(start);
+        candidates.push({ line: line + 1, column: character + 1, start, end, mutator, original: text.slice(start, end), replacement, snippet: snippetAt(text, starts, line + 1) });
+    };
+
+    const visit = (node: ts.Node) => {
+        // Imports and types never run, so faults planted there cannot be detected
+        if (ts.isImportDeclaration(node) || ts.isTypeNode(node) || ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) return;
+        if (ts.isBinaryExpression(node)) {
+            const operator = SCRIPT_OPERATORS[node.operatorToken.kind];
+            const concatenation = node.operatorToken.kind === ts.SyntaxKind.PlusToken && (isStringOperand(node.left) || isStringOperand(node.right));
+            if (operator && !concatenation) add(node.operatorToken.getStart(source), node.operatorToken.end, operator[0], operator[1]);
+        } else if (ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.ExclamationToken) {
+            add(node.getStart(source), node.getStart(source) + 1, "BooleanLiteral", "");
+        } else if (node.kind === ts.SyntaxKind.TrueKeyword || node.kind === ts.SyntaxKind.FalseKeyword) {
+            add(node.getStart(source), node.end, "BooleanLiteral", node.kind === ts.SyntaxKind.TrueKeyword ? "false" : "true");
+        } else if (ts.isIfStatement(node)) {
+            add(node.expression.getStart(source), node.expression.end, "ConditionalExpression", "false");
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(source);
+    return candidates;
+}
+
+async function pythonCandidates(containerId: string, filePath: string, text: string): Promise<Candidate[]> {
+    const script = `PY=$(command -v python3 || command -v python) || { echo "No Python interpreter in the sandbox" >&2; exit 1; }; "$PY" -c ${shellEscape(PYTHON_TOKENIZER)} ${shellEscape(filePath)}`;
+    const tokens: Array<[string, string, number, number, boolean]> = JSON.parse(await sh(`docker exec ${containerId} bash -lc ${shellEscape(script)}`));
+    const starts = lineStarts(text);
+    const candidates: Candidate[] = [];
+
+    tokens.forEach(([type, value, line, column, isKeyword], i) => {
+        const operator = PYTHON_OPERATORS[value];
+        if (!operator || (type === "NAME" && !isKeyword)) return;
+        const snippet = snippetAt(text, starts, line);
+        if (/\b__name__\b/.test(snippet)) return;
+        if (type === "OP") {
+            // Only binary operators: `-x`, `*args` and `**kwargs` have no operand on their left
+            const [prevType, prevValue, , , prevKeyword] = tokens[i - 1] || [];
+            const operandBefore = (["NAME", "NUMBER", "STRING"].includes(prevType) && (!prevKeyword || ["True", "False", "None"].includes(prevValue)))
+                || [")", "]", "}"].includes(prevValue);
+            const concatenation = value === "+" && (prevType === "STRING" || tokens[i + 1]?.[0] === "STRING");
+            if (!operandBefore || concatenation) return;
+        }
+        const start = starts[line - 1] + column;
+        // Dropping `not` takes the space after it too
+        const end = value === "not" && text[start + 3] === " " ? start + 4 : start + value.length;
+        candidates.push({ line, column: column + 1, start, end, mutator: operator[0], original: text.slice(start, end), replacement: operator[1], snippet });
+    });
+    return candidates;
+}
+
+// At most `limit` candidates, spread evenly over the file
+function sample<T>(items: T[], limit: number): T[] {
+    if (items.length <= limit) return items;
+    return Array.from({ length: limit }, (_, i) => items[Math.floor((i * items.length) / limit)]);
+}
+
+function summarizeMutants(sourceFile: string, testFile: string, mutants: Mutant[]): MutationReport {
+    const killed = mutants.filter((m) => m.status === "killed").length;
+    const timedOut = mutants.filter((m) => m.status === "timeout").length;
+    return {
+        sourceFile,
+        testFile,
+        mutants,
+        killed,
+        survived: mutants.length - killed - timedOut,
+        timedOut,
+        score: mutants.length > 0 ? Math.round(((killed + timedOut) / mutants.length) * 100) : 0,
+    };
+}
+
+/**
+ * Mutation-test `sourceFile` against `testFile` (both relative to `repoPath`) in the container. Mutants are
+ * planted one at a time and the source is always written back afterwards. The tests must pass on the
+ * unmutated source first, otherwise this throws. With `mutants`, only those are run again (against an
+ * unchanged source), e.g. the survivors after new tests were added.
+ */
+export async function runMutationTesting(
+    containerId: string,
+    repoPath: string,
+    framework: TestFramework,
+    sourceFile: string,
+    testFile: string,
+    options: { limit?: number; mutants?: Mutant[] } = {},
+): Promise<MutationReport> {
+    const sourcePath = path.posix.join(repoPath, sourceFile);
+    const [file] = await readContainerFiles(containerId, [sourcePath]);
+    if (!file) throw new Error(`${sourceFile} could not be read`);
+    const original = file.text;
+
+    const candidates: Array<Candidate & { id: string }> = options.mutants
+        ? options.mutants.map(({ status, killedBy, ...mutant }) => mutant)
+        : sample(framework === "pytest" ? await pythonCandidates(containerId, sourcePath, original) : scriptCandidates(original, sourceFile), options.limit ?? mutantLimit())
+            .map((candidate, index) => ({ ...candidate, id: `M${index + 1}` }));
+    if (candidates.length === 0) return summarizeMutants(sourceFile, testFile, []);
+
+    // Baseline: the tests have to pass on the real source, and their duration sets each mutant's time limit
+    const baseline = await runGeneratedTests(containerId, repoPath, framework, [testFile]);
+    const baselineFile = baseline.files[0];
+    if (baseline.error || baselineFile?.error || baselineFile?.tests.some((t) => t.status === "failed")) {
+        throw new Error(`${testFile} does not pass on the unmutated source: ${(baseline.error || baselineFile?.error || "failing tests").split("\n")[0]}`);
+    }
+    const timeoutMs = Math.min(MUTANT_TIMEOUT_MS, Math.max(MIN_MUTANT_TIMEOUT_MS, baseline.durationMs * 5));
+
+    const mutants: Mutant[] = [];
+    try {
+        for (const candidate of candidates) {
+            await writeContainerFile(containerId, sourcePath, original.slice(0, candidate.start) + candidate.replacement + original.slice(candidate.end));
+            const run = await runGeneratedTests(containerId, repoPath, framework, [testFile], { timeoutMs, bail: true });
+            const result = run.files[0];
+            const failed = result?.tests.find((t) => t.status === "failed");
+            if (run.error && run.exitCode === 124) {
+                mutants.push({ ...candidate, status: "timeout" });
+            } else if (run.error || result?.error || failed) {
+                mutants.push({ ...candidate, status: "killed", killedBy: failed?.name || (run.error || result?.error || "").split("\n")[0] });
+            } else {
+                mutants.push({ ...candidate, status: "survived" });
+            }
+        }
+    } finally {
+        await writeContainerFile(containerId, sourcePath, original);
+    }
+    return summarizeMutants(sourceFile, testFile, mutants);
+}
+
+// Merge a re-run of some mutants into the report they came from
+export function mergeMutationReports(report: MutationReport, rerun: MutationReport): MutationReport {
+    const byId = new Map(rerun.mutants.map((m) => [m.id, m]));
+    return summarizeMutants(report.sourceFile, report.testFile, report.mutants.map((m) => byId.get(m.id) || m));
+}
+
+// One line per mutant for the strengthening prompt and the report
+export function describeMutant(mutant: Mutant): string {
+    const change = mutant.replacement ? `\`${mutant.original}\` → \`${mutant.replacement}\`` : `removed \`${mutant.original.trim()}\``;
+    return `line ${mutant.line}: ${change} (${mutant.mutator}) in \`${mutant.snippet}\``;
+}
+
+export function summarizeMutationReports(reports: MutationReport[]): MutationSummary {
+    const mutants = reports.reduce((sum, r) => sum + r.mutants.length, 0);
+    const killed = reports.reduce((sum, r) => sum + r.killed, 0);
+    const timedOut = reports.reduce((sum, r) => sum + r.timedOut, 0);
+    return {
+        mutants,
+        killed,
+        survived: mutants - killed - timedOut,
+        timedOut,
+        score: mutants > 0 ? Math.round(((killed + timedOut) / mutants) * 100) : 0,
+    };
+}
+
+// The score with the counts behind it, e.g. "80% (16 of 20 mutants detected)"
+export function describeMutationScore(summary: MutationSummary): string {
+    return `${summary.score}% (${summary.killed + summary.timedOut} of ${summary.mutants} mutants detected)`;
+}
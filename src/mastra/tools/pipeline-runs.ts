@@ -0,0 +1,358 @@
+import z from "zod";
+import type { Run, Workflow, SerializedStepFlowEntry, WatchEvent } from "@mastra/core/workflows";
+import { notifyStepStatus, resolveProjectIdForRun } from "./alert-notifier";
+import { removeContainer } from "./container-lifecycle";
+import { deleteRunSecrets } from "./secret-store";
+import { RepoCheckoutSchema, type RepoCheckout } from "./git-hosts";
+import { PatchExportSchema } from "./local-source";
+import { getStoredRun, recordStepOutput, updateRunStatus, type StoredRunStatus } from "./run-store";
+import type { ContextCacheLookup } from "./context-cache";
+
+export const PipelineRunStatusSchema = z.enum(['pending', 'running', 'waiting', 'suspended', 'success', 'failed', 'canceled']);
+export type PipelineRunStatus = z.infer<typeof PipelineRunStatusSchema>;
+
+export const PipelineStepStatusSchema = z.object({
+    stepId: z.string(),
+    status: z.union([PipelineRunStatusSchema, z.literal('not_started')]),
+    startedAt: z.string().datetime().optional(),
+    endedAt: z.string().datetime().optional(),
+    durationMs: z.number().optional(),
+    error: z.string().optional(),
+});
+export type PipelineStepStatus = z.infer<typeof PipelineStepStatusSchema>;
+
+// Shape returned by GET /pipeline-runs/:runId.
+// `output` mirrors PipelineOutput of full-pipeline-workflow once the run succeeded.
+export const PipelineRunSnapshotSchema = z.object({
+    runId: z.string(),
+    projectId: z.string().optional(),
+    status: PipelineRunStatusSchema,
+    currentStep: z.string().optional(),
+    queuePosition: z.number().optional().describe("1-based position while waiting for a free pipeline slot"),
+    steps: z.array(PipelineStepStatusSchema),
+    output: z.object({
+        result: z.string(),
+        success: z.boolean(),
+        toolCallCount: z.number(),
+        containerId: z.string(),
+        contextPath: z.string().optional(),
+        projectId: z.string(),
+        prUrl: z.string(),
+        commitSha: z.string().optional(),
+        patch: PatchExportSchema.optional().describe("Exported tests for runs with a local source"),
+    }).optional(),
+    checkout: RepoCheckoutSchema.optional().describe("Ref and commit SHA the tests were generated against"),
+    error: z.string().optional(),
+});
+export type PipelineRunSnapshot = z.infer<typeof PipelineRunSnapshotSchema>;
+
+type WorkflowState = WatchEvent['payload']['workflowState'];
+
+// Mastra only persists the run snapshot after a step finishes, so the step that is
+// currently executing is invisible in storage. We keep the latest watch state of
+// runs started by this process to report the in-flight step as well.
+const liveRunStates = new Map<string, WorkflowState>();
+
+// Runs started by this process that have not finished yet, plus the container each one owns.
+const activeRuns = new Map<string, { run: Run; unwatch: () => void }>();
+const runIdToContainerId = new Map<string, string>();
+const runCheckouts = new Map<string, RepoCheckout>();
+
+// Outputs of the steps that already succeeded before a resumed run failed, keyed by step ID. Container IDs
+// from that attempt are swapped for the run's current container when an output is replayed.
+export type RunResumePlan = {
+    outputs: Record<string, unknown>;
+    staleContainerIds: string[];
+};
+const runResumePlans = new Map<string, RunResumePlan>();
+const runContextCaches = new Map<string, ContextCacheLookup>();
+
+function warnPersistFailure(err: unknown): void {
+    console.warn('[pipeline-runs] Failed to persist run progress:', err instanceof Error ? err.message : err);
+}
+
+// Mirror run status and finished step outputs into the run store as watch events arrive
+function persistRunProgress(runId: string, state: WorkflowState, recorded: { status?: string; steps: Map<string, string> }): void {
+    if (state.status && state.status !== recorded.status) {
+        recorded.status = state.status;
+        updateRunStatus(runId, state.status as StoredRunStatus).catch(warnPersistFailure);
+    }
+    for (const [stepId, step] of Object.entries(state.steps || {})) {
+        const s = step as any;
+        if ((s?.status !== 'success' && s?.status !== 'failed') || recorded.steps.get(stepId) === s.status) continue;
+        recorded.steps.set(stepId, s.status);
+        const output = s.status === 'success' ? s.output : { error: errorToString(s.error) };
+        recordStepOutput(runId, stepId, s.status, output).catch(warnPersistFailure);
+    }
+}
+
+export function trackPipelineRun(run: Run): void {
+    const recorded = { status: undefined as string | undefined, steps: new Map<string, string>() };
+    const unwatch = run.watch((event) => {
+        const state = event?.payload?.workflowState;
+        if (state) {
+            liveRunStates.set(run.runId, state);
+            persistRunProgress(run.runId, state, recorded);
+        }
+    });
+    activeRuns.set(run.runId, { run, unwatch });
+}
+
+export function releasePipelineRun(runId: string): void {
+    activeRuns.get(runId)?.unwatch();
+    activeRuns.delete(runId);
+    liveRunStates.delete(runId);
+    // The clone step's persisted output still carries the checkout for status lookups
+    runCheckouts.delete(runId);
+    runResumePlans.delete(runId);
+    runContextCaches.delete(runId);
+}
+
+export function isPipelineRunActive(runId: string): boolean {
+    return activeRuns.has(runId);
+}
+
+export function associateRunWithContainer(runId: string, containerId: string): void {
+    if (runId && containerId) {
+        runIdToContainerId.set(runId, containerId);
+    }
+}
+export function getContainerIdForRun(runId?: string): string | undefined {
+    return runId ? runIdToContainerId.get(runId) : undefined;
+}
+
+// Checkout recorded by the clone step, read later by the PR steps and the output normalizer.
+export function setRunCheckout(runId: string, checkout: RepoCheckout): void {
+    if (runId) runCheckouts.set(runId, checkout);
+}
+export function getRunCheckout(runId?: string): RepoCheckout | undefined {
+    return runId ? runCheckouts.get(runId) : undefined;
+}
+
+// RepoContext cache lookup made at the start of context gathering, read by the analysis and save steps.
+export function setRunContextCache(runId: string, lookup: ContextCacheLookup): void {
+    if (runId) runContextCaches.set(runId, lookup);
+}
+export function getRunContextCache(runId?: string): ContextCacheLookup | undefined {
+    return runId ? runContextCaches.get(runId) : undefined;
+}
+// An analysis fell back to placeholder data; keep this run's context out of the cache
+export function markRunContextDegraded(runId?: string): void {
+    const lookup = runId ? runContextCaches.get(runId) : undefined;
+    if (lookup) lookup.degraded = true;
+}
+
+export function setRunResumePlan(runId: string, plan: RunResumePlan): void {
+    if (runId) runResumePlans.set(runId, plan);
+}
+
+function replaceContainerIds(value: unknown, stale: string[], current: string): unknown {
+    if (typeof value === 'string') return stale.includes(value) ? current : value;
+    if (Array.isArray(value)) return value.map((v) => replaceContainerIds(v, stale, current));
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, replaceContainerIds(v, stale, current)]));
+    }
+    return value;
+}
+
+// Saved output of a step when the run is being resumed and the step already succeeded, otherwise undefined
+export function getResumedStepOutput(runId: string | undefined, stepId: string): unknown {
+    const plan = runId ? runResumePlans.get(runId) : undefined;
+    if (!plan || !(stepId in plan.outputs)) return undefined;
+    const current = getContainerIdForRun(runId);
+    return current ? replaceContainerIds(plan.outputs[stepId], plan.staleContainerIds, current) : plan.outputs[stepId];
+}
+
+// Abort signal of an active run, handed to agent.generate so cancellation stops the in-flight LLM loop.
+export function getRunAbortSignal(runId?: string): AbortSignal | undefined {
+    return runId ? activeRuns.get(runId)?.run.abortController.signal : undefined;
+}
+
+// Concurrency limit for pipeline runs; extra runs wait in FIFO order until a slot frees up.
+function getMaxConcurrency(): number {
+    const raw = Number(process.env.PIPELINE_MAX_CONCURRENCY);
+    return Number.isFinite(raw) && raw >= 1 ? Math.floor(raw) : 2;
+}
+
+const runningRunIds = new Set<string>();
+const queuedRuns: Array<{ runId: string; start: () => Promise<unknown> }> = [];
+
+function drainQueue(): void {
+    while (runningRunIds.size < getMaxConcurrency() && queuedRuns.length > 0) {
+        const next = queuedRuns.shift()!;
+        launch(next.runId, next.start);
+    }
+}
+
+function launch(runId: string, start: () => Promise<unknown>): void {
+    runningRunIds.add(runId);
+    Promise.resolve()
+        .then(start)
+        .catch(() => {})
+        .finally(() => {
+            runningRunIds.delete(runId);
+            drainQueue();
+        });
+}
+
+/**
+ * Start a run now if a slot is free, otherwise queue it.
+ * `start` is responsible for its own logging and error handling.
+ */
+export function enqueuePipelineRun(runId: string, start: () => Promise<unknown>): { queued: boolean; queuePosition?: number } {
+    if (runningRunIds.size < getMaxConcurrency() && queuedRuns.length === 0) {
+        launch(runId, start);
+        return { queued: false };
+    }
+    queuedRuns.push({ runId, start });
+    return { queued: true, queuePosition: queuedRuns.length };
+}
+
+export function getQueuePosition(runId: string): number | undefined {
+    const index = queuedRuns.findIndex((q) => q.runId === runId);
+    return index === -1 ? undefined : index + 1;
+}
+
+function flattenStepIds(entries: SerializedStepFlowEntry[]): string[] {
+    const ids: string[] = [];
+    for (const entry of entries) {
+        if (entry.type === 'step' || entry.type === 'waitForEvent' || entry.type === 'loop' || entry.type === 'foreach') {
+            ids.push(entry.step.id);
+        } else if (entry.type === 'parallel' || entry.type === 'conditional') {
+            ids.push(...flattenStepIds(entry.steps));
+        }
+    }
+    return ids;
+}
+
+function toIso(ts?: number): string | undefined {
+    return typeof ts === 'number' && ts > 0 ? new Date(ts).toISOString() : undefined;
+}
+
+function errorToString(err: unknown): string | undefined {
+    if (!err) return undefined;
+    if (typeof err === 'string') return err;
+    if (err instanceof Error) return err.message;
+    if (typeof err === 'object' && 'message' in (err as any)) return String((err as any).message);
+    try { return JSON.stringify(err); } catch { return String(err); }
+}
+
+// Persisted snapshots win once the run is terminal; otherwise the live watch state is fresher.
+function pickState(persisted: WorkflowState | null, live: WorkflowState | undefined): WorkflowState | null {
+    if (!live) return persisted;
+    if (!persisted) return live;
+    if (['success', 'failed', 'canceled'].includes(persisted.status)) return persisted;
+    return { ...persisted, ...live, steps: { ...persisted.steps, ...live.steps } };
+}
+
+export async function getPipelineRunStatus(workflow: Workflow<any, any, any, any, any, any>, runId: string): Promise<PipelineRunSnapshot | null> {
+    const persisted = await workflow.getWorkflowRunExecutionResult(runId);
+    const state = pickState(persisted, liveRunStates.get(runId));
+    if (!state) return null;
+
+    const stepResults = state.steps || {};
+    const orderedIds = flattenStepIds(workflow.serializedStepGraph);
+    // Include any step present in the snapshot but not in the graph (e.g. nested workflow steps)
+    for (const id of Object.keys(stepResults)) {
+        if (!orderedIds.includes(id)) orderedIds.push(id);
+    }
+
+    const steps: PipelineStepStatus[] = orderedIds.map((stepId) => {
+        const s = stepResults[stepId];
+        if (!s) return { stepId, status: 'not_started' };
+        const durationMs = s.startedAt && s.endedAt ? s.endedAt - s.startedAt : undefined;
+        return {
+            stepId,
+            status: s.status,
+            startedAt: toIso(s.startedAt),
+            endedAt: toIso(s.endedAt),
+            durationMs,
+            error: errorToString(s.error),
+        };
+    });
+
+    const running = steps.filter((s) => s.status === 'running' || s.status === 'waiting' || s.status === 'suspended');
+    const started = steps.filter((s) => s.status !== 'not_started');
+    const currentStep = running.length > 0
+        ? running[running.length - 1].stepId
+        : started[started.length - 1]?.stepId;
+
+    const projectId = await resolveProjectIdForRun(runId) || (state.payload as any)?.projectId;
+    // A snapshot left non-terminal by a previous server process will never finish on its own
+    const interrupted = !isPipelineRunActive(runId) && !['success', 'failed', 'canceled'].includes(state.status)
+        && (await getStoredRun(runId).catch(() => undefined))?.status === 'interrupted';
+    const cloneOutput = (stepResults['test-docker-github-clone-step'] as any)?.output;
+    const checkout = getRunCheckout(runId) || cloneOutput?.checkout;
+
+    return {
+        runId,
+        projectId,
+        status: interrupted ? 'failed' : state.status,
+        currentStep,
+        queuePosition: getQueuePosition(runId),
+        steps,
+        output: state.status === 'success' ? (state.result as PipelineRunSnapshot['output']) : undefined,
+        checkout,
+        error: interrupted
+            ? 'Run was interrupted by a server restart'
+            : state.status === 'failed' ? errorToString(state.error) || steps.find((s) => s.status === 'failed')?.error : undefined,
+    };
+}
+
+function findCurrentStep(runId: string): string | undefined {
+    const steps = liveRunStates.get(runId)?.steps || {};
+    const running = Object.entries(steps).filter(([, s]) => s.status === 'running');
+    return running.length > 0 ? running[running.length - 1][0] : undefined;
+}
+
+export async function cancelPipelineRun(runId: string): Promise<{ runId: string; cancelled: boolean; containerId?: string; containerRemoved: boolean; cancelledStep?: string }> {
+    const active = activeRuns.get(runId);
+    if (!active) {
+        return { runId, cancelled: false, containerRemoved: false };
+    }
+
+    // Queued runs never started: drop them from the queue and record the cancellation in the live state
+    const queueIndex = queuedRuns.findIndex((q) => q.runId === runId);
+    if (queueIndex !== -1) {
+        queuedRuns.splice(queueIndex, 1);
+        active.unwatch();
+        activeRuns.delete(runId);
+        liveRunStates.set(runId, { status: 'canceled', steps: {} });
+        updateRunStatus(runId, 'canceled').catch(warnPersistFailure);
+        deleteRunSecrets(runId);
+        await notifyStepStatus({
+            stepId: "full-pipeline-workflow",
+            status: "failed",
+            runId,
+            title: "Pipeline cancelled",
+            subtitle: "Cancelled while queued",
+            level: 'warning',
+            metadata: { cancelled: true, queued: true },
+        });
+        return { runId, cancelled: true, containerRemoved: false };
+    }
+
+    const cancelledStep = findCurrentStep(runId);
+
+    // Aborting the run controller stops the engine before the next step and aborts agent calls using getRunAbortSignal
+    await active.run.cancel();
+    updateRunStatus(runId, 'canceled').catch(warnPersistFailure);
+
+    const containerId = getContainerIdForRun(runId);
+    const containerRemoved = containerId ? await removeContainer(containerId) : false;
+
+    await notifyStepStatus({
+        stepId: cancelledStep || "full-pipeline-workflow",
+        status: "failed",
+        runId,
+        containerId,
+        title: "Pipeline cancelled",
+        subtitle: cancelledStep ? `Cancelled during ${cancelledStep}` : "Cancelled by request",
+        level: 'warning',
+        metadata: { cancelled: true, cancelledStep, containerRemoved },
+    });
+
+    runIdToContainerId.delete(runId);
+
+    return { runId, cancelled: true, containerId, containerRemoved, cancelledStep };
+}
@@ -0,0 +1,239 @@
+import { exec } from "child_process";
+import path from "path";
+import type { SourceAnalysis } from "./source-analysis";
+
+// Python counterpart of the TypeScript analyzer. The `ast` walk runs inside the sandbox, with the repository's
+// own interpreter, and prints the same SourceAnalysis shape as JSON. Visibility follows the naming convention:
+// `_name` is protected and `__name` private; a module's exports are `__all__` when it defines one, otherwise
+// its public top-level names.
+
+const MAX_FILE_BYTES = 200000;
+
+const ANALYZER = String.raw`
+import ast, json, os, re, sys
+
+MAX_BYTES = int(sys.argv[1])
+
+def text(src, node):
+    segment = ast.get_source_segment(src, node) if node is not None else None
+    return re.sub(r"\s+", " ", segment) if segment else None
+
+def visibility(name):
+    if name.startswith("__") and not name.endswith("__"):
+        return "private"
+    return "protected" if name.startswith("_") and not name.endswith("__") else "public"
+
+def walk_body(node, visit):
+    for child in ast.iter_child_nodes(node):
+        visit(child)
+        if not isinstance(child, (ast.FunctionDef, ast.AsyncFunctionDef, ast.ClassDef)):
+            walk_body(child, visit)
+
+def complexity(fn):
+    score = [1]
+    def visit(node):
+        if isinstance(node, (ast.If, ast.IfExp, ast.For, ast.AsyncFor, ast.While, ast.ExceptHandler, ast.Assert)):
+            score[0] += 1
+        elif isinstance(node, ast.BoolOp):
+            score[0] += len(node.values) - 1
+        elif isinstance(node, ast.comprehension):
+            score[0] += 1 + len(node.ifs)
+        elif type(node).__name__ == "match_case":
+            score[0] += 1
+    walk_body(fn, visit)
+    return score[0]
+
+def raised(src, fn):
+    names = []
+    def visit(node):
+        if isinstance(node, ast.Raise) and node.exc is not None:
+            exc = node.exc.func if isinstance(node.exc, ast.Call) else node.exc
+            name = (text(src, exc) or "")[:40]
+            if name and name not in names:
+                names.append(name)
+    walk_body(fn, visit)
+    return names
+
+def decorator_names(src, node):
+    return [text(src, d.func if isinstance(d, ast.Call) else d) for d in node.decorator_list]
+
+def params(src, fn, is_method):
+    args = fn.args
+    positional = list(getattr(args, "posonlyargs", [])) + list(args.args)
+    defaults = [None] * (len(positional) - len(args.defaults)) + list(args.defaults)
+    out = []
+    for arg, default in zip(positional, defaults):
+        out.append({"name": arg.arg, "type": text(src, arg.annotation), "optional": default is not None})
+    if args.vararg:
+        out.append({"name": args.vararg.arg, "type": text(src, args.vararg.annotation), "optional": True, "rest": True})
+    for arg, default in zip(args.kwonlyargs, args.kw_defaults):
+        out.append({"name": arg.arg, "type": text(src, arg.annotation), "optional": default is not None})
+    if args.kwarg:
+        out.append({"name": args.kwarg.arg, "type": text(src, args.kwarg.annotation), "optional": True, "rest": True})
+    if is_method and out and out[0]["name"] in ("self", "cls"):
+        out = out[1:]
+    return [{k: v for k, v in p.items() if v is not None} for p in out]
+
+def describe(src, fn, name, kind, exported, is_method=False):
+    decorators = decorator_names(src, fn)
+    info = {
+        "name": name,
+        "kind": kind,
+        "line": fn.lineno,
+        "exported": exported,
+        "params": params(src, fn, is_method and "staticmethod" not in decorators),
+        "async": isinstance(fn, ast.AsyncFunctionDef),
+        "throws": raised(src, fn),
+        "complexity": complexity(fn),
+    }
+    returns = text(src, fn.returns)
+    if returns:
+        info["returnType"] = returns
+    if decorators:
+        info["decorators"] = decorators
+    if is_method:
+        info["visibility"] = visibility(fn.name)
+        if "staticmethod" in decorators or "classmethod" in decorators:
+            info["static"] = True
+    return info
+
+def is_type_checking(test):
+    return (isinstance(test, ast.Name) and test.id == "TYPE_CHECKING") or (isinstance(test, ast.Attribute) and test.attr == "TYPE_CHECKING")
+
+def analyze(path, src):
+    tree = ast.parse(src, filename=path)
+    top = {}
+    for node in tree.body:
+        if isinstance(node, (ast.FunctionDef, ast.AsyncFunctionDef)):
+            top[node.name] = ("function", node)
+        elif isinstance(node, ast.ClassDef):
+            top[node.name] = ("class", node)
+        elif isinstance(node, (ast.Assign, ast.AnnAssign)):
+            targets = node.targets if isinstance(node, ast.Assign) else [node.target]
+            for target in targets:
+                if isinstance(target, ast.Name):
+                    top[target.id] = ("variable", node)
+
+    imported = {}
+    imports = {}
+    def add_import(module, names, type_only):
+        entry = imports.setdefault(module, {"module": module, "names": [], "typeOnly": type_only})
+        entry["names"] += [n for n in names if n not in entry["names"]]
+        entry["typeOnly"] = entry["typeOnly"] and type_only
+    def collect_imports(nodes, type_only):
+        for node in nodes:
+            if isinstance(node, ast.If) and is_type_checking(node.test):
+                collect_imports(node.body, True)
+                collect_imports(node.orelse, type_only)
+                continue
+            if isinstance(node, ast.Import):
+                for alias in node.names:
+                    add_import(alias.name, ["*"], type_only)
+                continue
+            if isinstance(node, ast.ImportFrom):
+                module = "." * node.level + (node.module or "")
+                add_import(module, [a.name for a in node.names], type_only)
+                for alias in node.names:
+                    imported[alias.asname or alias.name] = (module, node)
+                continue
+            for child in ast.iter_child_nodes(node):
+                collect_imports([child], type_only)
+    collect_imports(tree.body, False)
+
+    declared_all = None
+    for node in tree.body:
+        targets = node.targets if isinstance(node, ast.Assign) else [node.target] if isinstance(node, ast.AnnAssign) else []
+        if any(isinstance(t, ast.Name) and t.id == "__all__" for t in targets) and isinstance(node.value, (ast.List, ast.Tuple)):
+            declared_all = [e.value for e in node.value.elts if isinstance(e, ast.Constant) and isinstance(e.value, str)]
+
+    exports = []
+    if declared_all is not None:
+        for name in declared_all:
+            if name in top:
+                kind, node = top[name]
+                exports.append({"name": name, "kind": kind, "line": node.lineno})
+            elif name in imported:
+                module, node = imported[name]
+                exports.append({"name": name, "kind": "re-export", "line": node.lineno, "from": module})
+    else:
+        for name, (kind, node) in top.items():
+            if not name.startswith("_"):
+                exports.append({"name": name, "kind": kind, "line": node.lineno})
+        # A package's __init__ re-exports what it imports from its submodules
+        if os.path.basename(path) == "__init__.py":
+            for name, (module, node) in imported.items():
+                if module.startswith(".") and not name.startswith("_") and name not in top:
+                    exports.append({"name": name, "kind": "re-export", "line": node.lineno, "from": module})
+    exported = {e["name"] for e in exports if e["kind"] != "re-export"}
+    for entry in exports:
+        if entry["kind"] in ("class", "function") and top[entry["name"]][1].decorator_list:
+            entry["decorators"] = decorator_names(src, top[entry["name"]][1])
+
+    functions = []
+    for node in tree.body:
+        if isinstance(node, (ast.FunctionDef, ast.AsyncFunctionDef)):
+            functions.append(describe(src, node, node.name, "function", node.name in exported))
+        elif isinstance(node, ast.ClassDef):
+            for member in node.body:
+                if not isinstance(member, (ast.FunctionDef, ast.AsyncFunctionDef)):
+                    continue
+                decorators = decorator_names(src, member)
+                kind = "constructor" if member.name == "__init__" else "getter" if "property" in decorators or "cached_property" in decorators \
+                    else "setter" if any(d and d.endswith(".setter") for d in decorators) else "method"
+                if kind == "method" and member.name.startswith("__") and member.name.endswith("__"):
+                    continue
+                info = describe(src, member, node.name + "." + member.name, kind, False, True)
+                info["exported"] = node.name in exported and info["visibility"] != "private"
+                functions.append(info)
+    functions.sort(key=lambda f: f["line"])
+
+    relative = [i for i in imports.values() if i["module"].startswith(".")]
+    packages = [i for i in imports.values() if not i["module"].startswith(".")]
+    return {"exports": exports, "functions": functions, "imports": {"relative": relative, "packages": packages}, "parseErrors": 0}
+
+results = []
+for path in sys.argv[2:]:
+    if not os.path.isfile(path) or os.path.getsize(path) > MAX_BYTES:
+        continue
+    with open(path, encoding="utf-8", errors="replace") as handle:
+        src = handle.read()
+    result = {"filePath": path, "language": "python", "lineCount": src.count("\n") + 1}
+    try:
+        result.update(analyze(path, src))
+    except SyntaxError:
+        result.update({"exports": [], "functions": [], "imports": {"relative": [], "packages": []}, "parseErrors": 1})
+    results.append(result)
+print(json.dumps(results))
+`;
+
+function sh(cmd: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        exec(cmd, { maxBuffer: 1024 * 1024 * 100 }, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(stderr || error.message));
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
+
+function shellEscape(str: string): string {
+    return "'" + str.replace(/'/g, "'\"'\"'") + "'";
+}
+
+export function isPythonAnalyzable(filePath: string, language?: string): boolean {
+    return language === "python" || [".py", ".pyi"].includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Analyse Python files in the container with its `python3` (falling back to `python`). Missing and oversized
+ * files are left out; files that do not parse are reported with `parseErrors: 1` and nothing else.
+ */
+export async function analyzePythonSources(containerId: string, filePaths: string[]): Promise<SourceAnalysis[]> {
+    if (filePaths.length === 0) return [];
+    const args = [String(MAX_FILE_BYTES), ...filePaths].map(shellEscape).join(" ");
+    const script = `PY=$(command -v python3 || command -v python) || { echo "No Python interpreter in the sandbox" >&2; exit 1; }; "$PY" -c ${shellEscape(ANALYZER)} ${args}`;
+    const output = await sh(`docker exec ${containerId} bash -lc ${shellEscape(script)}`);
+    return JSON.parse(output) as SourceAnalysis[];
+}
@@ -0,0 +1,162 @@
+import { exec } from "child_process";
+import { PinoLogger } from "@mastra/loggers";
+import type { InputProcessor, OutputProcessor } from "@mastra/core/processors";
+import { listSecretValues, putRunSecret } from "./secret-store";
+
+// Central redaction layer. Tool outputs, alert payloads, log lines and agent messages all pass
+// through redact()/redactText() before they leave the process.
+
+const REDACTED = "[REDACTED]";
+
+// Git-host token shapes (GitHub, GitLab, Bitbucket app passwords), masked even when the value was never registered
+const TOKEN_PATTERNS: Array<{ pattern: RegExp; replacement: string }> = [
+    { pattern: /x-access-token:[^@\s'"]+/g, replacement: `x-access-token:${REDACTED}` },
+    { pattern: /\bgh[pousr]_[A-Za-z0-9]{20,}\b/g, replacement: REDACTED },
+    { pattern: /\bgithub_pat_[A-Za-z0-9_]{20,}\b/g, replacement: REDACTED },
+    { pattern: /\bglpat-[A-Za-z0-9_-]{20,}/g, replacement: REDACTED },
+    { pattern: /\bATBB[A-Za-z0-9]{24,}\b/g, replacement: REDACTED },
+];
+
+// Service-level secrets that should never show up in output either
+const ENV_SECRET_NAMES = ["GITHUB_PAT", "GITHUB_TOKEN", "GH_TOKEN", "GITLAB_TOKEN", "BITBUCKET_TOKEN", "OPENAI_API_KEY"];
+
+// Too short or too common to mask without wrecking unrelated output
+const MIN_SECRET_LENGTH = 8;
+const NON_SECRET_VALUES = /^(true|false|null|undefined|localhost|development|production|staging|test)$/i;
+
+function isMaskable(value: string | undefined): value is string {
+    return !!value && value.length >= MIN_SECRET_LENGTH && !NON_SECRET_VALUES.test(value) && !/^\d+$/.test(value);
+}
+
+function getKnownSecrets(): string[] {
+    const fromEnv = ENV_SECRET_NAMES.map((name) => process.env[name]?.trim());
+    const all = [...listSecretValues(), ...fromEnv].filter(isMaskable);
+    // Longest first so a secret containing another secret is masked whole
+    return Array.from(new Set(all)).sort((a, b) => b.length - a.length);
+}
+
+export function redactText(text: string): string {
+    if (!text) return text;
+    let out = text;
+    for (const secret of getKnownSecrets()) {
+        if (out.includes(secret)) out = out.split(secret).join(REDACTED);
+    }
+    for (const { pattern, replacement } of TOKEN_PATTERNS) {
+        out = out.replace(pattern, replacement);
+    }
+    return out;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (!value || typeof value !== "object") return false;
+    const proto = Object.getPrototypeOf(value);
+    return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Deep-redact strings inside arrays and plain objects. Other objects (Dates, class instances)
+ * are returned untouched; Errors get a redacted copy.
+ */
+export function redact<T>(value: T, depth: number = 0): T {
+    if (typeof value === "string") return redactText(value) as T;
+    if (depth > 20 || value === null || value === undefined) return value;
+    if (value instanceof Error) return redactError(value) as T;
+    if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1)) as T;
+    if (isPlainObject(value)) {
+        const out: Record<string, unknown> = {};
+        for (const [key, item] of Object.entries(value)) out[key] = redact(item, depth + 1);
+        return out as T;
+    }
+    return value;
+}
+
+export function redactError(error: unknown): Error {
+    if (error instanceof Error) {
+        const copy = new Error(redactText(error.message));
+        copy.name = error.name;
+        if (error.stack) copy.stack = redactText(error.stack);
+        return copy;
+    }
+    return new Error(redactText(String(error)));
+}
+
+/**
+ * Wrap a tool so both its result and its error message are redacted before the agent sees them.
+ */
+export function withRedaction<T extends { execute?: (...args: any[]) => Promise<any> }>(tool: T): T {
+    const execute = tool.execute;
+    if (!execute) return tool;
+    tool.execute = (async (...args: any[]) => {
+        try {
+            return redact(await execute.apply(tool, args));
+        } catch (error) {
+            throw redactError(error);
+        }
+    }) as T["execute"];
+    return tool;
+}
+
+// Agent input/output processor: masks secrets in messages sent to and returned from the LLM
+export const secretRedactionProcessor: InputProcessor & OutputProcessor = {
+    name: "secret-redaction",
+    processInput: ({ messages }) => messages.map((message) => redact(message)),
+    processOutputResult: ({ messages }) => messages.map((message) => redact(message)),
+};
+
+// Pino logger that redacts the message and structured args of every line
+export class RedactingPinoLogger extends PinoLogger {
+    debug(message: string, args?: Record<string, any>): void {
+        super.debug(redactText(message), args && redact(args));
+    }
+    info(message: string, args?: Record<string, any>): void {
+        super.info(redactText(message), args && redact(args));
+    }
+    warn(message: string, args?: Record<string, any>): void {
+        super.warn(redactText(message), args && redact(args));
+    }
+    error(message: string, args?: Record<string, any>): void {
+        super.error(redactText(message), args && redact(args));
+    }
+}
+
+function parseEnvFile(content: string): Array<{ key: string; value: string }> {
+    const entries: Array<{ key: string; value: string }> = [];
+    for (const rawLine of content.split("\n")) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith("#")) continue;
+        const match = line.match(/^(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*)$/);
+        if (!match) continue;
+        let value = match[2].trim();
+        if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'"))) {
+            value = value.slice(1, -1);
+        } else {
+            value = value.replace(/\s+#.*$/, "");
+        }
+        entries.push({ key: match[1], value });
+    }
+    return entries;
+}
+
+/**
+ * Find .env files in a cloned repository and register their values as secrets of the run,
+ * so anything echoing them later (tool output, logs, alerts, LLM messages) gets masked.
+ */
+export async function registerRepoEnvSecrets(containerId: string, repoPath: string, runId: string): Promise<{ files: string[]; registered: number }> {
+    const run = (cmd: string) => new Promise<string>((resolve) => {
+        exec(cmd, { maxBuffer: 10 * 1024 * 1024 }, (error, stdout) => resolve(error ? "" : stdout));
+    });
+
+    const listing = await run(`docker exec ${containerId} bash -c "find '${repoPath}' -maxdepth 4 -type f -name '.env*' -not -path '*/node_modules/*' -not -path '*/.git/*' 2>/dev/null | head -50"`);
+    const files = listing.split("\n").map((f) => f.trim()).filter(Boolean);
+
+    let registered = 0;
+    for (const file of files) {
+        const content = await run(`docker exec ${containerId} bash -c "head -c 100000 '${file}'"`);
+        for (const { key, value } of parseEnvFile(content)) {
+            if (!isMaskable(value)) continue;
+            putRunSecret(runId, `env:${file}:${key}`, value);
+            registered += 1;
+        }
+    }
+    return { files, registered };
+}
@@ -0,0 +1,531 @@
+import { createTool } from "@mastra/core";
+import z from "zod";
+import { exec } from "child_process";
+import path from "path";
+import { cliToolMetrics } from "./cli-tool";
+import { withRedaction } from "./redaction";
+
+// Deterministic pre-scan of a checkout: everything in RepositoryStructure and BuildAndDeployment that can be read
+// off the file tree and manifests, plus the mechanical CodebaseAnalysis fields. The context agent is left with the
+// judgment calls (architecture, module purposes, insights), so repeated runs agree on the facts.
+
+const MAX_FILES = 200000;
+const MAX_MANIFESTS = 200;
+const MAX_MANIFEST_BYTES = 100000;
+
+const DEFAULT_IGNORED = ["node_modules", ".git", "build", "dist", ".next", ".venv", "venv", "target", "coverage", "__pycache__"];
+
+const LANGUAGE_BY_EXT: Record<string, string> = {
+    ".ts": "typescript", ".tsx": "typescript", ".mts": "typescript", ".cts": "typescript",
+    ".js": "javascript", ".jsx": "javascript", ".mjs": "javascript", ".cjs": "javascript",
+    ".py": "python", ".go": "go", ".rs": "rust", ".java": "java", ".kt": "kotlin", ".kts": "kotlin",
+    ".scala": "scala", ".rb": "ruby", ".php": "php", ".cs": "csharp", ".swift": "swift",
+    ".c": "c", ".h": "c", ".cc": "cpp", ".cpp": "cpp", ".cxx": "cpp", ".hpp": "cpp",
+    ".vue": "vue", ".svelte": "svelte", ".dart": "dart", ".ex": "elixir", ".exs": "elixir",
+    ".sh": "shell", ".bash": "shell", ".sql": "sql", ".css": "css", ".scss": "css", ".html": "html",
+};
+
+const ENTRY_FILE = /(^|\/)(index|main|app|server|cli|__main__|lib|mod)\.[a-z]+$/;
+const TEST_FILE = /(\.(test|spec)\.[cm]?[jt]sx?$)|((^|\/)test_[^/]+\.py$)|(_test\.(py|go)$)|((^|\/)src\/test\/)/;
+const TEST_DIR_NAMES = new Set(["test", "tests", "__tests__", "spec", "specs", "e2e", "testing"]);
+
+const LOCK_FILES: Record<string, string> = {
+    "package-lock.json": "npm", "npm-shrinkwrap.json": "npm", "yarn.lock": "yarn", "pnpm-lock.yaml": "pnpm",
+    "bun.lockb": "bun", "bun.lock": "bun", "poetry.lock": "poetry", "Pipfile.lock": "pipenv", "uv.lock": "uv",
+    "pdm.lock": "pdm", "go.sum": "go", "Cargo.lock": "cargo", "composer.lock": "composer", "Gemfile.lock": "bundler",
+};
+
+// GitHub Actions, GitLab CI, CircleCI, Jenkins, Azure Pipelines, Travis, Bitbucket Pipelines, Buildkite, Drone
+const CI_FILES = [
+    /^\.github\/workflows\/[^/]+\.ya?ml$/,
+    /^\.gitlab-ci\.ya?ml$/,
+    /^\.circleci\/config\.ya?ml$/,
+    /^Jenkinsfile$/,
+    /^azure-pipelines\.ya?ml$/,
+    /^\.travis\.ya?ml$/,
+    /^bitbucket-pipelines\.ya?ml$/,
+    /^\.buildkite\/[^/]+\.ya?ml$/,
+    /^\.drone\.ya?ml$/,
+];
+
+const DOCKER_FILE = /(^|\/)((Dockerfile|Containerfile)(\.[^/]+)?|[^/]+\.[Dd]ockerfile|(docker-)?compose[^/]*\.ya?ml)$/;
+const DEPLOY_FILE = /(^|\/)(vercel\.json|netlify\.toml|fly\.toml|app\.ya?ml|Procfile|serverless\.ya?ml|render\.yaml|railway\.(json|toml)|amplify\.yml|Chart\.yaml|skaffold\.yaml|kustomization\.ya?ml|wrangler\.toml|firebase\.json|appspec\.yml|Dockerrun\.aws\.json|[^/]+\.tf)$|^(k8s|kubernetes|deploy|helm)\/.+\.ya?ml$/;
+const ENV_FILE = /(^|\/)\.env(\.[^/]+)?$/;
+const ENV_TEMPLATE = /(^|\/)\.env\.(example|sample|template|dist|defaults)$/;
+
+const BUILD_CONFIGS = /^(tsconfig[^/]*\.json|vite\.config\.[^/]+|webpack\.config\.[^/]+|rollup\.config\.[^/]+|tsup\.config\.[^/]+|esbuild[^/]*\.[cm]?[jt]s|next\.config\.[^/]+|nuxt\.config\.[^/]+|svelte\.config\.[^/]+|astro\.config\.[^/]+|babel\.config\.[^/]+|\.babelrc|turbo\.json|nx\.json|Makefile|CMakeLists\.txt|pyproject\.toml|setup\.py|setup\.cfg|go\.mod|Cargo\.toml|pom\.xml|build\.gradle(\.kts)?|package\.json)$/;
+const PROJECT_MANIFEST = /(^|\/)(package\.json|pyproject\.toml|setup\.py|go\.mod|Cargo\.toml|pom\.xml|build\.gradle(\.kts)?)$/;
+
+const NODE_TEST_FRAMEWORKS: Record<string, string> = {
+    vitest: "vitest", jest: "jest", mocha: "mocha", ava: "ava", jasmine: "jasmine", "@playwright/test": "playwright",
+    cypress: "cypress", uvu: "uvu", tap: "tap",
+};
+const LINTERS: Array<[RegExp, string]> = [
+    [/^(\.eslintrc(\.[a-z]+)?|eslint\.config\.[cm]?[jt]s)$/, "eslint"],
+    [/^biome\.jsonc?$/, "biome"],
+    [/^tslint\.json$/, "tslint"],
+    [/^(ruff\.toml|\.ruff\.toml)$/, "ruff"],
+    [/^\.flake8$/, "flake8"],
+    [/^\.pylintrc$/, "pylint"],
+    [/^\.golangci\.ya?ml$/, "golangci-lint"],
+    [/^\.rubocop\.yml$/, "rubocop"],
+    [/^\.stylelintrc(\.[a-z]+)?$/, "stylelint"],
+];
+const FORMATTERS: Array<[RegExp, string]> = [
+    [/^(\.prettierrc(\.[a-z]+)?|prettier\.config\.[cm]?[jt]s)$/, "prettier"],
+    [/^biome\.jsonc?$/, "biome"],
+    [/^rustfmt\.toml$/, "rustfmt"],
+    [/^\.editorconfig$/, "editorconfig"],
+    [/^\.clang-format$/, "clang-format"],
+];
+const API_DOCS = /(^|\/)(typedoc\.json|mkdocs\.ya?ml|(openapi|swagger)[^/]*\.(ya?ml|json)|docs\/conf\.py|docs\/api\/)/;
+
+export type RepoScan = {
+    repository: {
+        type: "monorepo" | "single-package" | "multi-project";
+        rootPath: string;
+        gitStatus: { isGitRepo: boolean; defaultBranch: string | null; lastCommit: string | null; hasRemote: boolean; isDirty: boolean };
+        structure: {
+            packages: Array<{ path: string; name: string | null; type: "app" | "library" | "tool" | "config" | "unknown"; language: string | null }>;
+            keyDirectories: string[];
+            ignoredPaths: string[];
+        };
+        languages: Array<{ language: string; percentage: number; fileCount: number; mainFiles: string[] }>;
+    };
+    buildDeploy: {
+        buildSystem: { type: string | null; configFiles: string[]; buildCommands: string[]; buildAttempts: Array<{ command: string; success: boolean; output: string; issues: string[] }> };
+        packageManagement: { managers: string[]; lockFiles: string[]; workspaceConfig: string | null };
+        testing: { frameworks: string[]; testDirs: string[]; testCommands: string[]; testAttempts: Array<{ command: string; success: boolean; output: string }> };
+        deployment: { cicd: string[]; dockerfiles: string[]; deploymentConfigs: string[]; environmentConfig: { envFiles: string[]; requiredVars: string[] } };
+    };
+    // Mechanical CodebaseAnalysis fields; the agent fills the rest
+    codebase: {
+        external: Record<string, string>;
+        hasTests: boolean;
+        linting: string[];
+        formatting: string[];
+        hasReadme: boolean;
+        hasApiDocs: boolean;
+    };
+    fileCount: number;
+};
+
+function sh(cmd: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        exec(cmd, { maxBuffer: 1024 * 1024 * 64 }, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(stderr || error.message));
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
+
+function shellEscape(str: string): string {
+    return "'" + str.replace(/'/g, "'\"'\"'") + "'";
+}
+
+function parseJson(text: string | undefined): any {
+    if (!text) return undefined;
+    try { return JSON.parse(text); } catch { return undefined; }
+}
+
+function unique<T>(values: T[]): T[] {
+    return [...new Set(values)];
+}
+
+function depth(file: string): number {
+    return file.split("/").length;
+}
+
+function byDepth(a: string, b: string): number {
+    return depth(a) - depth(b) || a.localeCompare(b);
+}
+
+// Workspace globs (`packages/*`, `apps/**`) as a matcher for package directories
+function globToRegExp(glob: string): RegExp {
+    const source = glob.replace(/\/+$/, "").split("/").map((part) => {
+        if (part === "**") return ".*";
+        return part.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, "[^/]*").replace(/\?/g, "[^/]");
+    }).join("/");
+    return new RegExp(`^${source}$`);
+}
+
+// `packages:` entries of pnpm-workspace.yaml, without a YAML dependency
+function parsePnpmWorkspace(text: string): string[] {
+    const globs: string[] = [];
+    let inPackages = false;
+    for (const line of text.split(/\r?\n/)) {
+        if (/^packages\s*:/.test(line)) { inPackages = true; continue; }
+        if (inPackages && /^\S/.test(line)) break;
+        const item = inPackages ? line.match(/^\s*-\s*['"]?([^'"#]+?)['"]?\s*(#.*)?$/) : null;
+        if (item) globs.push(item[1].trim());
+    }
+    return globs;
+}
+
+function tomlValue(text: string, section: RegExp, key: string): string | undefined {
+    let inSection = false;
+    for (const line of text.split(/\r?\n/)) {
+        const header = line.match(/^\s*\[([^\]]+)\]\s*$/);
+        if (header) { inSection = section.test(header[1].trim()); continue; }
+        const match = inSection ? line.match(new RegExp(`^\\s*${key}\\s*=\\s*["']([^"']+)["']`)) : null;
+        if (match) return match[1];
+    }
+    return undefined;
+}
+
+async function readRepoFiles(containerId: string, repoPath: string, sparsePaths?: string[]): Promise<{ git: Record<string, string>; files: string[] }> {
+    const prune = DEFAULT_IGNORED.map((d) => `-name ${shellEscape(d)}`).join(" -o ");
+    const script = [
+        `cd ${shellEscape(repoPath)}`,
+        `if git rev-parse --is-inside-work-tree >/dev/null 2>&1; then`,
+        `echo "GIT=1"`,
+        `echo "HEAD=$(git log -1 --format='%h %s' 2>/dev/null)"`,
+        `echo "DEFAULT=$(git symbolic-ref --short -q refs/remotes/origin/HEAD 2>/dev/null || git symbolic-ref --short -q HEAD 2>/dev/null)"`,
+        `echo "REMOTES=$(git remote | wc -l)"`,
+        `echo "DIRTY=$(git status --porcelain --untracked-files=no 2>/dev/null | head -1 | wc -l)"`,
+        `echo "---FILES---"`,
+        `git ls-files -z --cached --others --exclude-standard | head -z -n ${MAX_FILES}`,
+        `else`,
+        `echo "GIT=0"`,
+        `echo "---FILES---"`,
+        `find . \\( ${prune} \\) -prune -o -type f -printf '%P\\0' | head -z -n ${MAX_FILES}`,
+        `fi`,
+    ].join("\n");
+    const output = await sh(`docker exec ${containerId} bash -c ${shellEscape(script)}`);
+    const marker = output.indexOf("---FILES---\n");
+    const git: Record<string, string> = {};
+    for (const line of output.slice(0, marker === -1 ? output.length : marker).split(/\r?\n/)) {
+        const eq = line.indexOf("=");
+        if (eq > 0) git[line.slice(0, eq)] = line.slice(eq + 1).trim();
+    }
+    let files = marker === -1 ? [] : output.slice(marker + "---FILES---\n".length).split("\0").filter(Boolean);
+    // Sparse checkouts list every tracked path; keep the cone and top-level files, like the agents see them
+    if (sparsePaths && sparsePaths.length > 0) {
+        files = files.filter((f) => !f.includes("/") || sparsePaths.some((p) => f.startsWith(`${p.replace(/\/+$/, "")}/`)));
+    }
+    return { git, files };
+}
+
+async function readFileContents(containerId: string, repoPath: string, files: string[]): Promise<Record<string, string>> {
+    if (files.length === 0) return {};
+    const script = `cd ${shellEscape(repoPath)} && for f in ${files.map(shellEscape).join(" ")}; do printf '\\0%s\\0' "$f"; head -c ${MAX_MANIFEST_BYTES} -- "$f" 2>/dev/null; done`;
+    const output = await sh(`docker exec ${containerId} bash -c ${shellEscape(script)}`);
+    const parts = output.split("\0");
+    const contents: Record<string, string> = {};
+    for (let i = 1; i + 1 < parts.length; i += 2) contents[parts[i]] = parts[i + 1];
+    return contents;
+}
+
+function scanLanguages(files: string[]): { languages: RepoScan["repository"]["languages"]; languageOf: (file: string) => string | undefined } {
+    const languageOf = (file: string) => LANGUAGE_BY_EXT[path.extname(file).toLowerCase()];
+    const byLanguage = new Map<string, string[]>();
+    for (const file of files) {
+        const language = languageOf(file);
+        if (language) byLanguage.set(language, [...(byLanguage.get(language) || []), file]);
+    }
+    const total = [...byLanguage.values()].reduce((sum, list) => sum + list.length, 0);
+    const languages = [...byLanguage.entries()]
+        .sort((a, b) => b[1].length - a[1].length)
+        .map(([language, list]) => {
+            const sorted = [...list].sort(byDepth);
+            const entries = sorted.filter((f) => ENTRY_FILE.test(f) && !TEST_FILE.test(f));
+            return {
+                language,
+                percentage: Math.round((list.length / total) * 1000) / 10,
+                fileCount: list.length,
+                mainFiles: (entries.length > 0 ? entries : sorted.filter((f) => !TEST_FILE.test(f))).slice(0, 5),
+            };
+        });
+    return { languages, languageOf };
+}
+
+function dominantLanguage(files: string[], dir: string, languageOf: (file: string) => string | undefined): string | null {
+    const counts = new Map<string, number>();
+    for (const file of files) {
+        if (dir !== "." && !file.startsWith(`${dir}/`)) continue;
+        const language = languageOf(file);
+        if (language) counts.set(language, (counts.get(language) || 0) + 1);
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+}
+
+function nodePackageType(pkg: any, isWorkspaceRoot: boolean): RepoScan["repository"]["structure"]["packages"][number]["type"] {
+    if (!pkg || typeof pkg !== "object") return "unknown";
+    if (pkg.bin) return "tool";
+    if (pkg.main || pkg.module || pkg.exports || pkg.types || pkg.typings) return "library";
+    const deps = { ...(pkg.dependencies || {}), ...(pkg.devDependencies || {}) };
+    if (["next", "nuxt", "vite", "react-scripts", "@angular/core", "express", "fastify", "@nestjs/core", "hono", "koa"].some((d) => d in deps) || pkg.scripts?.start) return "app";
+    if (isWorkspaceRoot) return "config";
+    return "unknown";
+}
+
+function runScript(manager: string, script: string): string {
+    if (manager === "yarn") return `yarn ${script}`;
+    if (script === "test" && (manager === "npm" || manager === "pnpm" || manager === "bun")) return `${manager} test`;
+    return `${manager} run ${script}`;
+}
+
+/**
+ * Scan the checkout at `repoPathHint` (else the first git repository under /app) inside the container. Two `docker exec` calls: one lists the files (git's view
+ * when it is a repository, so ignored files stay out), one reads the manifests the facts come from.
+ */
+export async function scanRepository(containerId: string, repoPathHint?: string, options: { sparsePaths?: string[] } = {}): Promise<RepoScan> {
+    const repoPath = repoPathHint
+        || (await sh(`docker exec ${containerId} bash -c ${shellEscape(`for d in /app/*; do if [ -d "$d/.git" ]; then echo "$d"; break; fi; done`)}`)).trim()
+        || "/app";
+    const { git, files } = await readRepoFiles(containerId, repoPath, options.sparsePaths);
+    const fileSet = new Set(files);
+    const rootFiles = files.filter((f) => !f.includes("/"));
+    const has = (file: string) => fileSet.has(file);
+
+    const wanted = files.filter((f) =>
+        (/(^|\/)package\.json$/.test(f) && depth(f) <= 4)
+        || /^(pnpm-workspace\.yaml|lerna\.json|pyproject\.toml|setup\.cfg|Pipfile|go\.mod|go\.work|Cargo\.toml|Makefile|\.gitignore)$/.test(f)
+        || /^(requirements[^/]*\.txt|requirements\/[^/]+\.txt)$/.test(f)
+        || (ENV_TEMPLATE.test(f) && depth(f) <= 3)
+    ).sort(byDepth).slice(0, MAX_MANIFESTS);
+    const contents = await readFileContents(containerId, repoPath, wanted);
+    const rootPkg = parseJson(contents["package.json"]);
+    const pyproject = contents["pyproject.toml"] || "";
+
+    // Workspaces and package manifests
+    let workspaceConfig: string | null = null;
+    let workspaceGlobs: string[] = [];
+    if (has("pnpm-workspace.yaml")) {
+        workspaceConfig = "pnpm-workspace.yaml";
+        workspaceGlobs = parsePnpmWorkspace(contents["pnpm-workspace.yaml"] || "");
+    } else if (rootPkg?.workspaces) {
+        workspaceConfig = "package.json#workspaces";
+        workspaceGlobs = Array.isArray(rootPkg.workspaces) ? rootPkg.workspaces : (rootPkg.workspaces.packages || []);
+    } else if (has("lerna.json")) {
+        workspaceConfig = "lerna.json";
+        workspaceGlobs = parseJson(contents["lerna.json"])?.packages || ["packages/*"];
+    } else if (has("go.work")) {
+        workspaceConfig = "go.work";
+    } else if (/^\s*\[workspace\]/m.test(contents["Cargo.toml"] || "")) {
+        workspaceConfig = "Cargo.toml#workspace";
+    }
+    const include = workspaceGlobs.filter((g) => !g.startsWith("!")).map(globToRegExp);
+    const exclude = workspaceGlobs.filter((g) => g.startsWith("!")).map((g) => globToRegExp(g.slice(1)));
+
+    const { languages, languageOf } = scanLanguages(files);
+    const manifestDirs = unique(files.filter((f) => PROJECT_MANIFEST.test(f) && depth(f) <= 3).map((f) => path.posix.dirname(f))).sort(byDepth);
+    const packageDirs = workspaceConfig
+        ? manifestDirs.filter((d) => d === "." || (include.some((r) => r.test(d)) && !exclude.some((r) => r.test(d))))
+        : manifestDirs.filter((d) => d === "." || depth(d) <= 2);
+    const packages = packageDirs.map((dir) => {
+        const prefix = dir === "." ? "" : `${dir}/`;
+        const pkg = parseJson(contents[`${prefix}package.json`]);
+        const name = pkg?.name
+            ?? (dir === "." ? (tomlValue(pyproject, /^(project|tool\.poetry)$/, "name") ?? contents["go.mod"]?.match(/^module\s+(\S+)/m)?.[1] ?? tomlValue(contents["Cargo.toml"] || "", /^package$/, "name")) : undefined)
+            ?? null;
+        return {
+            path: dir,
+            name: typeof name === "string" ? name : null,
+            type: pkg ? nodePackageType(pkg, dir === "." && !!workspaceConfig) : (/\[project\.scripts\]/.test(dir === "." ? pyproject : "") ? "tool" as const : "unknown" as const),
+            language: dominantLanguage(files, dir, languageOf),
+        };
+    });
+    const repoType: RepoScan["repository"]["type"] = workspaceConfig ? "monorepo" : packages.length > 1 ? "multi-project" : "single-package";
+
+    const sourceCountByTopDir = new Map<string, number>();
+    for (const file of files) {
+        if (file.includes("/") && languageOf(file)) {
+            const top = file.split("/")[0];
+            sourceCountByTopDir.set(top, (sourceCountByTopDir.get(top) || 0) + 1);
+        }
+    }
+    const keyDirectories = [...sourceCountByTopDir.entries()].sort((a, b) => b[1] - a[1]).slice(0, 10).map(([dir]) => dir);
+    const gitignored = (contents[".gitignore"] || "").split(/\r?\n/)
+        .map((line) => line.trim().replace(/^\//, "").replace(/\/$/, ""))
+        .filter((line) => line && !line.startsWith("#") && !line.startsWith("!") && !/[*?[]/.test(line) && !line.includes("/"));
+    const ignoredPaths = unique([...DEFAULT_IGNORED, ...gitignored]).slice(0, 30);
+
+    // Package management
+    const lockFiles = files.filter((f) => LOCK_FILES[path.posix.basename(f)] && depth(f) <= 2).sort(byDepth);
+    const declaredManager = typeof rootPkg?.packageManager === "string" ? rootPkg.packageManager.split("@")[0] : undefined;
+    const lockManagers = lockFiles.map((f) => LOCK_FILES[path.posix.basename(f)]);
+    const isNodeManager = (m: string) => ["npm", "pnpm", "yarn", "bun"].includes(m);
+    const managers = unique([
+        ...(declaredManager ? [declaredManager] : []),
+        ...lockManagers,
+        // npm is only the fallback for a package.json without a lock file or packageManager field
+        ...(rootPkg && !declaredManager && !lockManagers.some(isNodeManager) ? ["npm"] : []),
+        ...(has("requirements.txt") || has("setup.py") ? ["pip"] : []),
+        ...(has("go.mod") ? ["go"] : []),
+        ...(has("Cargo.toml") ? ["cargo"] : []),
+        ...(has("pom.xml") ? ["maven"] : []),
+        ...(has("build.gradle") || has("build.gradle.kts") ? ["gradle"] : []),
+    ]);
+    const nodeManager = managers.find(isNodeManager) || "npm";
+
+    // Build system
+    const configFiles = rootFiles.filter((f) => BUILD_CONFIGS.test(f)).sort();
+    const scripts: Record<string, string> = rootPkg?.scripts && typeof rootPkg.scripts === "object" ? rootPkg.scripts : {};
+    const makefile = contents["Makefile"] || "";
+    const pythonBackend = tomlValue(pyproject, /^build-system$/, "build-backend");
+    const buildType = rootPkg ? nodeManager
+        : has("go.mod") ? "go"
+        : has("Cargo.toml") ? "cargo"
+        : has("pom.xml") ? "maven"
+        : has("build.gradle") || has("build.gradle.kts") ? "gradle"
+        : pythonBackend ? pythonBackend.split(".")[0].replace(/_core$/, "")
+        : has("CMakeLists.txt") ? "cmake"
+        : makefile ? "make"
+        : null;
+    const buildCommands = unique([
+        ...Object.keys(scripts).filter((s) => s === "build" || s.startsWith("build:")).map((s) => runScript(nodeManager, s)),
+        ...(/^build\s*:/m.test(makefile) ? ["make build"] : makefile && !rootPkg && /^all\s*:/m.test(makefile) ? ["make"] : []),
+        ...(has("go.mod") ? ["go build ./..."] : []),
+        ...(has("Cargo.toml") ? ["cargo build"] : []),
+        ...(has("pom.xml") ? ["mvn -B package -DskipTests"] : []),
+        ...(has("build.gradle") || has("build.gradle.kts") ? [has("gradlew") ? "./gradlew build" : "gradle build"] : []),
+        ...(pythonBackend ? ["python -m build"] : []),
+    ]);
+
+    // Testing
+    const nodeDeps: Record<string, string> = {};
+    for (const [file, text] of Object.entries(contents)) {
+        if (!/(^|\/)package\.json$/.test(file)) continue;
+        const pkg = parseJson(text);
+        Object.assign(nodeDeps, pkg?.devDependencies || {}, pkg?.dependencies || {});
+    }
+    const pythonRequirements = Object.entries(contents).filter(([f]) => /requirements/.test(f) || f === "Pipfile").map(([, t]) => t).join("\n") + "\n" + pyproject + "\n" + (contents["setup.cfg"] || "");
+    const pyFiles = files.some((f) => f.endsWith(".py"));
+    const testFiles = files.filter((f) => TEST_FILE.test(f));
+    const frameworks = unique([
+        ...Object.keys(NODE_TEST_FRAMEWORKS).filter((d) => d in nodeDeps).map((d) => NODE_TEST_FRAMEWORKS[d]),
+        ...(pyFiles && (/\bpytest\b/.test(pythonRequirements) || has("pytest.ini") || files.some((f) => f.endsWith("conftest.py"))) ? ["pytest"] : []),
+        ...(pyFiles && !/\bpytest\b/.test(pythonRequirements) && testFiles.some((f) => f.endsWith(".py")) ? ["unittest"] : []),
+        ...(files.some((f) => f.endsWith("_test.go")) ? ["go test"] : []),
+        ...(has("Cargo.toml") ? ["cargo test"] : []),
+        ...(files.some((f) => f.startsWith("src/test/java/") || f.startsWith("src/test/kotlin/")) ? ["junit"] : []),
+    ]);
+    const namedTestDirs = unique(files
+        .map((f) => {
+            const parts = f.split("/");
+            const index = parts.findIndex((p) => TEST_DIR_NAMES.has(p));
+            return index >= 0 && index < parts.length - 1 ? parts.slice(0, index + 1).join("/") : undefined;
+        })
+        .filter((d): d is string => !!d)).sort(byDepth);
+    const testDirs = (namedTestDirs.length > 0 ? namedTestDirs : unique(testFiles.map((f) => path.posix.dirname(f))).sort(byDepth)).slice(0, 10);
+    const testCommands = unique([
+        ...Object.keys(scripts).filter((s) => s === "test" || s.startsWith("test:")).map((s) => runScript(nodeManager, s)),
+        ...(frameworks.includes("pytest") ? ["pytest"] : frameworks.includes("unittest") ? ["python -m unittest"] : []),
+        ...(frameworks.includes("go test") ? ["go test ./..."] : []),
+        ...(frameworks.includes("cargo test") ? ["cargo test"] : []),
+        ...(has("pom.xml") ? ["mvn -B test"] : []),
+        ...(has("build.gradle") || has("build.gradle.kts") ? [has("gradlew") ? "./gradlew test" : "gradle test"] : []),
+    ]);
+
+    // Deployment
+    const cicd = files.filter((f) => CI_FILES.some((pattern) => pattern.test(f))).sort();
+    const dockerfiles = files.filter((f) => DOCKER_FILE.test(f)).sort(byDepth).slice(0, 20);
+    const deploymentConfigs = files.filter((f) => DEPLOY_FILE.test(f) && !cicd.includes(f)).sort(byDepth).slice(0, 20);
+    const envFiles = files.filter((f) => ENV_FILE.test(f)).sort(byDepth).slice(0, 20);
+    // Variable names only, and only from templates; real .env values are never read
+    const requiredVars = unique(Object.entries(contents)
+        .filter(([f]) => ENV_TEMPLATE.test(f))
+        .flatMap(([, text]) => text.split(/\r?\n/).map((line) => line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=/)?.[1]))
+        .filter((v): v is string => !!v)).slice(0, 100);
+
+    // Mechanical codebase facts
+    const external: Record<string, string> = {};
+    for (const [name, version] of Object.entries({ ...(rootPkg?.devDependencies || {}), ...(rootPkg?.dependencies || {}) })) {
+        external[name] = String(version);
+    }
+    for (const [file, text] of Object.entries(contents)) {
+        if (!/requirements[^/]*\.txt$/.test(file)) continue;
+        for (const line of text.split(/\r?\n/)) {
+            const req = line.match(/^\s*([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*((?:[=<>!~]=?)\s*[^;#\s]+)?/);
+            if (req && !line.trim().startsWith("-")) external[req[1]] = (req[2] || "*").replace(/\s+/g, "");
+        }
+    }
+    for (const match of (contents["go.mod"] || "").matchAll(/^\s*(?:require\s+)?([\w.-]+\.[\w./-]+)\s+(v[\w.+-]+)/gm)) {
+        external[match[1]] = match[2];
+    }
+    const trimmedExternal = Object.fromEntries(Object.entries(external).slice(0, 200));
+    const linting = unique([
+        ...LINTERS.filter(([pattern]) => rootFiles.some((f) => pattern.test(f))).map(([, name]) => name),
+        ...(nodeDeps.eslint ? ["eslint"] : []),
+        ...(/\[tool\.ruff/.test(pyproject) ? ["ruff"] : []),
+        ...(/\[tool\.mypy\]/.test(pyproject) || has("mypy.ini") ? ["mypy"] : []),
+    ]);
+    const formatting = unique([
+        ...FORMATTERS.filter(([pattern]) => rootFiles.some((f) => pattern.test(f))).map(([, name]) => name),
+        ...(nodeDeps.prettier ? ["prettier"] : []),
+        ...(/\[tool\.black\]/.test(pyproject) ? ["black"] : []),
+        ...(has("go.mod") ? ["gofmt"] : []),
+    ]);
+
+    return {
+        repository: {
+            type: repoType,
+            rootPath: repoPath,
+            gitStatus: {
+                isGitRepo: git.GIT === "1",
+                defaultBranch: git.DEFAULT ? git.DEFAULT.replace(/^origin\//, "") : null,
+                lastCommit: git.HEAD || null,
+                hasRemote: Number(git.REMOTES || 0) > 0,
+                isDirty: git.DIRTY === "1",
+            },
+            structure: { packages, keyDirectories, ignoredPaths },
+            languages,
+        },
+        buildDeploy: {
+            buildSystem: { type: buildType, configFiles, buildCommands, buildAttempts: [] },
+            packageManagement: { managers, lockFiles, workspaceConfig },
+            testing: { frameworks, testDirs, testCommands, testAttempts: [] },
+            deployment: { cicd, dockerfiles, deploymentConfigs, environmentConfig: { envFiles, requiredVars } },
+        },
+        codebase: {
+            external: trimmedExternal,
+            hasTests: testFiles.length > 0 || namedTestDirs.length > 0,
+            linting,
+            formatting,
+            hasReadme: rootFiles.some((f) => /^readme(\.[a-z]+)?$/i.test(f)),
+            hasApiDocs: files.some((f) => API_DOCS.test(f)),
+        },
+        fileCount: files.length,
+    };
+}
+
+/**
+ * Prompt block handing the scan to the context agent: these facts are settled, so its commands go to the
+ * judgment fields instead. Empty without a scan.
+ */
+export function describeScanFacts(scan?: RepoScan): string {
+    if (!scan) return "";
+    const facts = {
+        repositoryType: scan.repository.type,
+        languages: scan.repository.languages.map(({ language, percentage, mainFiles }) => ({ language, percentage, mainFiles })),
+        packages: scan.repository.structure.packages,
+        keyDirectories: scan.repository.structure.keyDirectories,
+        testFrameworks: scan.buildDeploy.testing.frameworks,
+        testDirs: scan.buildDeploy.testing.testDirs,
+        linting: scan.codebase.linting,
+        formatting: scan.codebase.formatting,
+        dependencies: Object.keys(scan.codebase.external),
+    };
+    return `
+
+KNOWN FACTS (deterministic scan of the checkout, ${scan.fileCount} files; treat as ground truth):
+${JSON.stringify(facts, null, 2)}
+- Do not run commands to rediscover these. Spend your commands on the architecture: entry points, main modules and their purpose, internal dependencies, key libraries and frameworks.`;
+}
+
+export const repoScanTool = withRedaction(createTool({
+    id: "repo_scan",
+    description: "Deterministically scan a repository checkout in a container: languages, packages, lock files, build/test commands, CI configs, Dockerfiles and env files",
+    inputSchema: z.object({
+        containerId: z.string().describe("Docker container ID holding the checkout"),
+        repoPath: z.string().describe("Absolute path of the repository inside the container"),
+    }),
+    execute: async ({ context }) => {
+        cliToolMetrics.callCount += 1;
+        return scanRepository(context.containerId, context.repoPath);
+    },
+}));
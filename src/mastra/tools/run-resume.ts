@@ -0,0 +1,99 @@
+import { associateRunWithContainer, setRunCheckout, setRunResumePlan, type RunResumePlan } from "./pipeline-runs";
+import { getWorkspaceSnapshotPath, isRunContainerRunning, getRunContainerName, restoreRunContainer } from "./container-lifecycle";
+import { setSandboxNetworkPhase } from "./sandbox-network";
+import { registerRepoEnvSecrets } from "./redaction";
+import { RepoCheckoutSchema } from "./git-hosts";
+import { exec } from "child_process";
+
+// Steps whose outputs do not depend on the sandbox (LLM analyses, backend posts). When the container has to be
+// rebuilt from scratch these are still replayed; every other step runs again against the new container.
+const PORTABLE_STEP_IDS = [
+    "post-project-description-step",
+    "post-project-stack-step",
+    "workflow-start-step",
+    "analyze-repository-step",
+    "analyze-codebase-step",
+    "analyze-build-deployment-step",
+    "synthesize-context-step",
+    "load-context-and-plan-step",
+];
+
+export type ResumeContainerMode = "reused" | "restored" | "recreated";
+
+function sh(cmd: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        exec(cmd, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(stderr || error.message));
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
+
+function collectContainerIds(value: unknown, into: Set<string>): void {
+    if (Array.isArray(value)) {
+        value.forEach((v) => collectContainerIds(v, into));
+    } else if (value && typeof value === "object") {
+        for (const [key, v] of Object.entries(value)) {
+            if (key === "containerId" && typeof v === "string" && v) into.add(v);
+            else collectContainerIds(v, into);
+        }
+    }
+}
+
+/**
+ * Get a failed run ready to start again under the same run ID. Successful step outputs from the persisted
+ * snapshot become the resume plan; the sandbox is reused when its container is still running, rebuilt from
+ * the workspace snapshot taken when the run failed, or left to the pipeline to recreate (in which case only
+ * sandbox-independent outputs are replayed). In-memory run state the skipped steps would have set is restored.
+ */
+export async function prepareRunResume(params: {
+    runId: string;
+    projectId: string;
+    steps: Record<string, any>;
+}): Promise<{ plan: RunResumePlan; container: ResumeContainerMode; containerId?: string }> {
+    const { runId, projectId } = params;
+    const outputs: Record<string, unknown> = {};
+    for (const [stepId, step] of Object.entries(params.steps || {})) {
+        if (step?.status === "success") outputs[stepId] = step.output;
+    }
+    const staleIds = new Set<string>();
+    collectContainerIds(outputs, staleIds);
+
+    const provisioned = outputs["provision-sandbox-step"] as { sandboxImage?: string; repoPath?: string } | undefined;
+    const cloned = outputs["test-docker-github-clone-step"] as { repoPath?: string; checkout?: unknown } | undefined;
+    const checkout = RepoCheckoutSchema.safeParse(cloned?.checkout);
+    if (checkout.success) setRunCheckout(runId, checkout.data);
+
+    let container: ResumeContainerMode = "recreated";
+    let containerId: string | undefined;
+    if (provisioned && await isRunContainerRunning(runId)) {
+        containerId = (await sh(`docker inspect -f '{{.Id}}' ${getRunContainerName(runId)}`)).trim();
+        container = "reused";
+    } else if (provisioned?.sandboxImage && getWorkspaceSnapshotPath(runId)) {
+        try {
+            containerId = await restoreRunContainer({ runId, projectId, image: provisioned.sandboxImage });
+            // Provisioning ends offline; the PR step turns egress back on itself
+            await setSandboxNetworkPhase(containerId, "offline");
+            container = "restored";
+        } catch (error) {
+            console.warn(`[run-resume] Restoring run ${runId} from its workspace snapshot failed:`, error instanceof Error ? error.message : error);
+        }
+    }
+
+    if (containerId) {
+        associateRunWithContainer(runId, containerId);
+        const repoPath = provisioned?.repoPath || cloned?.repoPath;
+        if (repoPath) await registerRepoEnvSecrets(containerId, repoPath, runId).catch(() => undefined);
+    } else {
+        for (const stepId of Object.keys(outputs)) {
+            if (!PORTABLE_STEP_IDS.includes(stepId)) delete outputs[stepId];
+        }
+    }
+
+    const plan: RunResumePlan = { outputs, staleContainerIds: [...staleIds] };
+    setRunResumePlan(runId, plan);
+    return { plan, container, containerId };
+}
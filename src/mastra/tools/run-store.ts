@@ -0,0 +1,216 @@
+import { createClient, type Client } from "@libsql/client";
+import { redact } from "./redaction";
+
+// One LibSQL database for Mastra's own tables (workflow snapshots, telemetry, evals) and the pipeline's run
+// history below. `MASTRA_STORAGE_URL` takes any LibSQL URL: a file (default, relative to the .mastra/output
+// working dir of `mastra dev`), `libsql://` / `https://` for a remote Turso database, or `:memory:`.
+export function getStorageUrl(): string {
+    return process.env.MASTRA_STORAGE_URL || 'file:../mastra.db';
+}
+
+export const storageClient: Client = createClient({
+    url: getStorageUrl(),
+    authToken: process.env.MASTRA_STORAGE_AUTH_TOKEN,
+});
+
+// Statuses a run can be recorded with. `interrupted` marks runs the server was executing when it stopped.
+export type StoredRunStatus = 'pending' | 'running' | 'waiting' | 'suspended' | 'success' | 'failed' | 'canceled' | 'interrupted';
+
+export type StoredRun = {
+    runId: string;
+    projectId?: string;
+    status: StoredRunStatus;
+    createdAt: string;
+    updatedAt: string;
+};
+
+export type StoredStepOutput = {
+    stepId: string;
+    status: string;
+    output: unknown;
+    updatedAt: string;
+};
+
+export type StoredAlert = {
+    id: number;
+    runId: string;
+    projectId?: string;
+    stepId?: string;
+    status?: string;
+    level?: string;
+    title: string;
+    subtitle: string;
+    payload: Record<string, unknown>;
+    createdAt: string;
+};
+
+const SCHEMA = [
+    `CREATE TABLE IF NOT EXISTS pipeline_runs (
+        run_id TEXT PRIMARY KEY,
+        project_id TEXT,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS pipeline_runs_project ON pipeline_runs (project_id, created_at)`,
+    `CREATE TABLE IF NOT EXISTS pipeline_step_outputs (
+        run_id TEXT NOT NULL,
+        step_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        output TEXT,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (run_id, step_id)
+    )`,
+    `CREATE TABLE IF NOT EXISTS pipeline_alerts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id TEXT NOT NULL,
+        project_id TEXT,
+        step_id TEXT,
+        status TEXT,
+        level TEXT,
+        title TEXT NOT NULL,
+        subtitle TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        created_at TEXT NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS pipeline_alerts_run ON pipeline_alerts (run_id, id)`,
+];
+
+let ready: Promise<void> | undefined;
+function ensureSchema(): Promise<void> {
+    if (!ready) {
+        ready = storageClient.batch(SCHEMA, 'write').then(() => undefined);
+        // Let a later call retry if the database was briefly unavailable
+        ready.catch(() => { ready = undefined; });
+    }
+    return ready;
+}
+
+function parseJson(text: unknown): any {
+    if (typeof text !== 'string') return undefined;
+    try { return JSON.parse(text); } catch { return undefined; }
+}
+
+function toStoredRun(row: Record<string, any>): StoredRun {
+    return {
+        runId: String(row.run_id),
+        projectId: row.project_id ? String(row.project_id) : undefined,
+        status: String(row.status) as StoredRunStatus,
+        createdAt: String(row.created_at),
+        updatedAt: String(row.updated_at),
+    };
+}
+
+export async function recordRun(runId: string, projectId?: string, status: StoredRunStatus = 'pending'): Promise<void> {
+    await ensureSchema();
+    const now = new Date().toISOString();
+    await storageClient.execute({
+        sql: `INSERT INTO pipeline_runs (run_id, project_id, status, created_at, updated_at) VALUES (?, ?, ?, ?, ?)
+              ON CONFLICT(run_id) DO UPDATE SET project_id = COALESCE(excluded.project_id, project_id), updated_at = excluded.updated_at`,
+        args: [runId, projectId ?? null, status, now, now],
+    });
+}
+
+export async function updateRunStatus(runId: string, status: StoredRunStatus): Promise<void> {
+    await ensureSchema();
+    await storageClient.execute({
+        sql: `UPDATE pipeline_runs SET status = ?, updated_at = ? WHERE run_id = ?`,
+        args: [status, new Date().toISOString(), runId],
+    });
+}
+
+export async function getStoredRun(runId: string): Promise<StoredRun | undefined> {
+    await ensureSchema();
+    const { rows } = await storageClient.execute({ sql: `SELECT * FROM pipeline_runs WHERE run_id = ?`, args: [runId] });
+    return rows[0] ? toStoredRun(rows[0] as Record<string, any>) : undefined;
+}
+
+export async function listStoredRuns(filter: { projectId?: string; limit?: number } = {}): Promise<StoredRun[]> {
+    await ensureSchema();
+    const limit = Math.min(Math.max(Math.floor(filter.limit ?? 50), 1), 500);
+    const { rows } = filter.projectId
+        ? await storageClient.execute({ sql: `SELECT * FROM pipeline_runs WHERE project_id = ? ORDER BY created_at DESC LIMIT ?`, args: [filter.projectId, limit] })
+        : await storageClient.execute({ sql: `SELECT * FROM pipeline_runs ORDER BY created_at DESC LIMIT ?`, args: [limit] });
+    return rows.map((row) => toStoredRun(row as Record<string, any>));
+}
+
+/**
+ * Flag runs that were in flight when the previous server process stopped. Their Mastra snapshot stays
+ * `running` forever; the status endpoint and the container sweeper use this mark instead. Only runs last
+ * updated before `startedAt` (this server's start) count, so runs started since are left alone.
+ */
+export async function markInterruptedRuns(startedAt: Date = new Date()): Promise<string[]> {
+    await ensureSchema();
+    const { rows } = await storageClient.execute({
+        sql: `UPDATE pipeline_runs SET status = 'interrupted', updated_at = ? WHERE status IN ('pending', 'running', 'waiting') AND updated_at < ? RETURNING run_id`,
+        args: [new Date().toISOString(), startedAt.toISOString()],
+    });
+    return rows.map((row) => String((row as Record<string, any>).run_id));
+}
+
+// Step outputs are redacted before they are written; Mastra's own snapshot keeps the raw values
+export async function recordStepOutput(runId: string, stepId: string, status: string, output: unknown): Promise<void> {
+    await ensureSchema();
+    await storageClient.execute({
+        sql: `INSERT INTO pipeline_step_outputs (run_id, step_id, status, output, updated_at) VALUES (?, ?, ?, ?, ?)
+              ON CONFLICT(run_id, step_id) DO UPDATE SET status = excluded.status, output = excluded.output, updated_at = excluded.updated_at`,
+        args: [runId, stepId, status, output === undefined ? null : JSON.stringify(redact(output)), new Date().toISOString()],
+    });
+}
+
+export async function listStepOutputs(runId: string): Promise<StoredStepOutput[]> {
+    await ensureSchema();
+    const { rows } = await storageClient.execute({ sql: `SELECT * FROM pipeline_step_outputs WHERE run_id = ? ORDER BY updated_at`, args: [runId] });
+    return rows.map((row: any) => ({
+        stepId: String(row.step_id),
+        status: String(row.status),
+        output: parseJson(row.output),
+        updatedAt: String(row.updated_at),
+    }));
+}
+
+// Alerts arrive already redacted from sendAlertEvent
+export async function recordAlert(alert: {
+    runId: string;
+    projectId?: string;
+    stepId?: string;
+    status?: string;
+    level?: string;
+    title: string;
+    subtitle: string;
+    timestamp?: string;
+    [key: string]: unknown;
+}): Promise<void> {
+    await ensureSchema();
+    await storageClient.execute({
+        sql: `INSERT INTO pipeline_alerts (run_id, project_id, step_id, status, level, title, subtitle, payload, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        args: [
+            alert.runId,
+            alert.projectId ?? null,
+            alert.stepId ?? null,
+            alert.status ?? null,
+            alert.level ?? null,
+            alert.title,
+            alert.subtitle,
+            JSON.stringify(alert),
+            alert.timestamp || new Date().toISOString(),
+        ],
+    });
+}
+
+export async function listAlerts(runId: string): Promise<StoredAlert[]> {
+    await ensureSchema();
+    const { rows } = await storageClient.execute({ sql: `SELECT * FROM pipeline_alerts WHERE run_id = ? ORDER BY id`, args: [runId] });
+    return rows.map((row: any) => ({
+        id: Number(row.id),
+        runId: String(row.run_id),
+        projectId: row.project_id ? String(row.project_id) : undefined,
+        stepId: row.step_id ? String(row.step_id) : undefined,
+        status: row.status ? String(row.status) : undefined,
+        level: row.level ? String(row.level) : undefined,
+        title: String(row.title),
+        subtitle: String(row.subtitle),
+        payload: parseJson(row.payload) || {},
+        createdAt: String(row.created_at),
+    }));
+}
@@ -0,0 +1,233 @@
+import { exec } from "child_process";
+import { createHash } from "crypto";
+
+export type SandboxImageKey = 'base' | 'node18' | 'node20' | 'node22' | 'python311' | 'python312' | 'go' | 'jvm';
+
+type SandboxImageSpec = {
+    key: SandboxImageKey;
+    language: 'none' | 'node' | 'python' | 'go' | 'jvm';
+    dockerfile: string;
+};
+
+function dockerfile(from: string, extraRun: string[] = [], env: string[] = []): string {
+    return [
+        `FROM ${from}`,
+        `RUN apt-get update && apt-get install -y --no-install-recommends git git-lfs ca-certificates curl && rm -rf /var/lib/apt/lists/*`,
+        ...extraRun.map((cmd) => `RUN ${cmd}`),
+        ...env.map((kv) => `ENV ${kv}`),
+        `WORKDIR /app`,
+        `CMD ["bash"]`,
+    ].join("\n");
+}
+
+const PYTHON_ENV = ["PIP_USER=1", "PATH=/root/.local/bin:$PATH"];
+
+// Every sandbox keeps git (with git-lfs) and /app as workdir so the clone and later steps behave the same on any image.
+export const SANDBOX_IMAGE_CATALOG: Record<SandboxImageKey, SandboxImageSpec> = {
+    base: { key: 'base', language: 'none', dockerfile: dockerfile("ubuntu:22.04") },
+    node18: { key: 'node18', language: 'node', dockerfile: dockerfile("node:18-bookworm", ["corepack enable"]) },
+    node20: { key: 'node20', language: 'node', dockerfile: dockerfile("node:20-bookworm", ["corepack enable"]) },
+    node22: { key: 'node22', language: 'node', dockerfile: dockerfile("node:22-bookworm", ["corepack enable"]) },
+    // pip installs into the user site under /root, which stays writable when the root filesystem is read-only
+    python311: { key: 'python311', language: 'python', dockerfile: dockerfile("python:3.11-bookworm", ["pip install --no-cache-dir pytest pytest-cov"], PYTHON_ENV) },
+    python312: { key: 'python312', language: 'python', dockerfile: dockerfile("python:3.12-bookworm", ["pip install --no-cache-dir pytest pytest-cov"], PYTHON_ENV) },
+    // Module and build caches under /root, which stays writable when the root filesystem is read-only
+    go: { key: 'go', language: 'go', dockerfile: dockerfile("golang:1.22-bookworm", [], ["GOPATH=/root/go", "GOCACHE=/root/.cache/go-build"]) },
+    jvm: { key: 'jvm', language: 'jvm', dockerfile: dockerfile("eclipse-temurin:21-jdk-jammy", ["apt-get update && apt-get install -y --no-install-recommends maven && rm -rf /var/lib/apt/lists/*"]) },
+};
+
+const NODE_MAJORS: Array<{ major: number; key: SandboxImageKey }> = [
+    { major: 18, key: 'node18' },
+    { major: 20, key: 'node20' },
+    { major: 22, key: 'node22' },
+];
+const NODE_LTS_CODENAMES: Record<string, number> = { hydrogen: 18, iron: 20, jod: 22 };
+
+const PYTHON_MINORS: Array<{ minor: number; key: SandboxImageKey }> = [
+    { minor: 11, key: 'python311' },
+    { minor: 12, key: 'python312' },
+];
+
+/**
+ * Tag is derived from the Dockerfile content, so an image is built once per definition
+ * and rebuilt automatically when the catalog entry changes.
+ */
+export function getSandboxImageTag(key: SandboxImageKey): string {
+    const hash = createHash("sha256").update(SANDBOX_IMAGE_CATALOG[key].dockerfile).digest("hex").substring(0, 10);
+    return `yc-sandbox:${key}-${hash}`;
+}
+
+function sh(cmd: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        exec(cmd, { maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(stderr || error.message));
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
+
+// Concurrent runs asking for the same image share one build
+const pendingBuilds = new Map<string, Promise<string>>();
+
+export async function ensureSandboxImage(key: SandboxImageKey): Promise<string> {
+    const tag = getSandboxImageTag(key);
+    const existing = pendingBuilds.get(tag);
+    if (existing) return existing;
+
+    const build = (async () => {
+        const present = await sh(`docker image inspect ${tag}`).then(() => true, () => false);
+        if (!present) {
+            await sh(`docker build -t ${tag} -<<'EOF'\n${SANDBOX_IMAGE_CATALOG[key].dockerfile}\nEOF`);
+        }
+        return tag;
+    })();
+    pendingBuilds.set(tag, build);
+    try {
+        return await build;
+    } finally {
+        pendingBuilds.delete(tag);
+    }
+}
+
+export type RepoManifests = {
+    packageJson?: string;
+    nvmrc?: string;
+    nodeVersion?: string;
+    pythonVersion?: string;
+    pyprojectToml?: string;
+    hasRequirementsTxt?: boolean;
+    hasSetupPy?: boolean;
+    goMod?: string;
+    hasPomXml?: boolean;
+    hasGradle?: boolean;
+};
+
+// Pick the catalog entry whose major is the lowest one satisfying the constraint.
+function pickNodeImage(constraint?: string): SandboxImageKey | undefined {
+    if (!constraint) return undefined;
+    const value = constraint.trim().toLowerCase();
+    if (value === 'node' || value === 'lts/*' || value === 'latest') return 'node22';
+    const codename = value.match(/^lts\/([a-z]+)/);
+    if (codename && NODE_LTS_CODENAMES[codename[1]]) {
+        return NODE_MAJORS.find((n) => n.major === NODE_LTS_CODENAMES[codename[1]])?.key;
+    }
+    const majorMatch = value.match(/(\d+)/);
+    if (!majorMatch) return undefined;
+    const major = Number(majorMatch[1]);
+    // ">=18" style ranges can use the newest toolchain; exact or caret/tilde pins want the closest one
+    if (/^>=?/.test(value)) return NODE_MAJORS[NODE_MAJORS.length - 1].key;
+    return (NODE_MAJORS.find((n) => n.major >= major) || NODE_MAJORS[NODE_MAJORS.length - 1]).key;
+}
+
+function pickPythonImage(constraint?: string): SandboxImageKey {
+    const value = (constraint || '').trim();
+    const minorMatch = value.match(/3\.(\d+)/);
+    if (!minorMatch || /^>=?/.test(value)) return 'python312';
+    const minor = Number(minorMatch[1]);
+    return (PYTHON_MINORS.find((p) => p.minor >= minor) || PYTHON_MINORS[PYTHON_MINORS.length - 1]).key;
+}
+
+/**
+ * Choose a sandbox image from repository manifests.
+ * Node wins when package.json exists (the test pipeline targets TS/JS first), then Python, Go and JVM.
+ */
+export function selectSandboxImage(manifests: RepoManifests): { key: SandboxImageKey; reason: string } {
+    if (manifests.packageJson || manifests.nvmrc || manifests.nodeVersion) {
+        let engines: string | undefined;
+        try {
+            engines = manifests.packageJson ? JSON.parse(manifests.packageJson)?.engines?.node : undefined;
+        } catch {
+            engines = undefined;
+        }
+        const fromNvmrc = pickNodeImage(manifests.nvmrc);
+        if (fromNvmrc) return { key: fromNvmrc, reason: `.nvmrc: ${manifests.nvmrc!.trim()}` };
+        const fromNodeVersion = pickNodeImage(manifests.nodeVersion);
+        if (fromNodeVersion) return { key: fromNodeVersion, reason: `.node-version: ${manifests.nodeVersion!.trim()}` };
+        const fromEngines = pickNodeImage(engines);
+        if (fromEngines) return { key: fromEngines, reason: `package.json engines.node: ${engines}` };
+        return { key: 'node20', reason: 'package.json without engines (default Node 20)' };
+    }
+
+    if (manifests.pythonVersion || manifests.pyprojectToml || manifests.hasRequirementsTxt || manifests.hasSetupPy) {
+        if (manifests.pythonVersion) {
+            return { key: pickPythonImage(manifests.pythonVersion), reason: `.python-version: ${manifests.pythonVersion.trim()}` };
+        }
+        const requires = manifests.pyprojectToml?.match(/requires-python\s*=\s*["']([^"']+)["']/)?.[1];
+        if (requires) return { key: pickPythonImage(requires), reason: `pyproject requires-python: ${requires}` };
+        return { key: 'python312', reason: 'python manifests without version (default Python 3.12)' };
+    }
+
+    if (manifests.goMod) {
+        const goVersion = manifests.goMod.match(/^go\s+(\S+)/m)?.[1];
+        return { key: 'go', reason: `go.mod${goVersion ? ` go ${goVersion}` : ''}` };
+    }
+
+    if (manifests.hasPomXml || manifests.hasGradle) {
+        return { key: 'jvm', reason: manifests.hasPomXml ? 'pom.xml' : 'build.gradle' };
+    }
+
+    return { key: 'base', reason: 'no recognised manifests' };
+}
+
+/**
+ * Read the manifests used for image selection from a cloned repository inside a container.
+ * Missing files are simply left undefined.
+ */
+export async function readRepoManifests(containerId: string, repoPath: string): Promise<RepoManifests> {
+    const read = (file: string) =>
+        sh(`docker exec ${containerId} bash -c "cat '${repoPath}/${file}' 2>/dev/null | head -c 200000"`)
+            .then((out) => (out.trim() ? out : undefined), () => undefined);
+    const exists = (file: string) =>
+        sh(`docker exec ${containerId} test -e '${repoPath}/${file}'`).then(() => true, () => false);
+
+    return {
+        packageJson: await read("package.json"),
+        nvmrc: await read(".nvmrc"),
+        nodeVersion: await read(".node-version"),
+        pythonVersion: await read(".python-version"),
+        pyprojectToml: await read("pyproject.toml"),
+        hasRequirementsTxt: await exists("requirements.txt"),
+        hasSetupPy: await exists("setup.py"),
+        goMod: await read("go.mod"),
+        hasPomXml: await exists("pom.xml"),
+        hasGradle: (await exists("build.gradle")) || (await exists("build.gradle.kts")),
+    };
+}
+
+// Dependency install per toolchain. Runs during the egress phase, before the sandbox goes offline.
+const INSTALL_COMMANDS: Record<SandboxImageSpec['language'], string | undefined> = {
+    none: undefined,
+    node: [
+        "if [ -f pnpm-lock.yaml ]; then corepack pnpm install --frozen-lockfile;",
+        "elif [ -f yarn.lock ]; then corepack yarn install --immutable || corepack yarn install --frozen-lockfile;",
+        "elif [ -f package-lock.json ]; then npm ci --no-audit --no-fund;",
+        "else npm install --no-audit --no-fund; fi;",
+        // Test tooling must be present before the network is cut; Jest projects bring their own runner
+        "npx --no-install jest --version >/dev/null 2>&1 || npx --no-install vitest --version >/dev/null 2>&1 || npm install --no-save --no-audit --no-fund vitest @vitest/coverage-v8",
+    ].join(" "),
+    python: [
+        "if [ -f requirements.txt ]; then pip install --user --no-cache-dir -r requirements.txt; fi;",
+        "if [ -f pyproject.toml ] || [ -f setup.py ]; then pip install --user --no-cache-dir -e . || true; fi",
+    ].join(" "),
+    go: "go mod download",
+    jvm: "if [ -f pom.xml ]; then mvn -q -B dependency:go-offline; elif [ -x gradlew ]; then ./gradlew --no-daemon -q dependencies; fi",
+};
+
+export async function installDependencies(containerId: string, repoPath: string, key: SandboxImageKey): Promise<{ command?: string; success: boolean; output: string }> {
+    const command = INSTALL_COMMANDS[SANDBOX_IMAGE_CATALOG[key].language];
+    if (!command) return { success: true, output: "No dependency install for this image" };
+
+    return await new Promise((resolve) => {
+        exec(
+            `docker exec ${containerId} bash -c ${JSON.stringify(`cd '${repoPath}' && ${command}`)}`,
+            { maxBuffer: 10 * 1024 * 1024, timeout: 15 * 60 * 1000 },
+            (error, stdout, stderr) => {
+                const output = `${stdout || ''}${stderr || ''}`.slice(-4000);
+                resolve({ command, success: !error, output: error ? (stderr || error.message).slice(-4000) : output });
+            }
+        );
+    });
+}
@@ -0,0 +1,136 @@
+import { exec } from "child_process";
+import { mkdtempSync, writeFileSync, unlinkSync } from "fs";
+import path from "path";
+import os from "os";
+
+// Sandboxes live on an internal Docker network with no route out. The only way out is an
+// allowlisting HTTP(S) proxy attached to both that network and the default bridge.
+export const SANDBOX_NETWORK = "yc-sandbox-internal";
+export const EGRESS_PROXY_NAME = "yc-egress-proxy";
+const EGRESS_PROXY_IMAGE = process.env.SANDBOX_EGRESS_PROXY_IMAGE || "ubuntu/squid:latest";
+const EGRESS_PROXY_PORT = 3128;
+
+// Package registries and the hosted git providers, enough for clone, dependency install and push.
+// Self-hosted GitLab/GitHub Enterprise hosts go in SANDBOX_EGRESS_ALLOWLIST.
+const DEFAULT_EGRESS_ALLOWLIST = [
+    ".github.com",
+    ".githubusercontent.com",
+    ".gitlab.com",
+    ".bitbucket.org",
+    ".npmjs.org",
+    ".yarnpkg.com",
+    ".pypi.org",
+    ".pythonhosted.org",
+    ".golang.org",
+    ".maven.apache.org",
+    ".gradle.org",
+];
+
+export type SandboxNetworkPolicy = 'restricted' | 'open';
+export type SandboxNetworkPhase = 'egress' | 'offline';
+
+export function getSandboxNetworkPolicy(): SandboxNetworkPolicy {
+    return process.env.SANDBOX_NETWORK_POLICY === 'open' ? 'open' : 'restricted';
+}
+
+export function getEgressAllowlist(): string[] {
+    const extra = (process.env.SANDBOX_EGRESS_ALLOWLIST || '')
+        .split(',')
+        .map((d) => d.trim())
+        .filter(Boolean);
+    return Array.from(new Set([...DEFAULT_EGRESS_ALLOWLIST, ...extra]));
+}
+
+function sh(cmd: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        exec(cmd, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(stderr || error.message));
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
+
+function buildSquidConfig(allowlist: string[]): string {
+    return [
+        `http_port ${EGRESS_PROXY_PORT}`,
+        `acl allowed_domains dstdomain ${allowlist.join(' ')}`,
+        `acl SSL_ports port 443`,
+        `acl CONNECT method CONNECT`,
+        `http_access deny CONNECT !SSL_ports`,
+        `http_access allow allowed_domains`,
+        `http_access deny all`,
+        `cache deny all`,
+        ``,
+    ].join("\n");
+}
+
+let proxyReady: Promise<void> | undefined;
+
+/**
+ * Create the internal network and the egress proxy once per host.
+ * Safe to call from concurrent runs; later calls reuse the same promise.
+ */
+export function ensureEgressProxy(): Promise<void> {
+    if (!proxyReady) {
+        proxyReady = (async () => {
+            await sh(`docker network inspect ${SANDBOX_NETWORK} >/dev/null 2>&1 || docker network create --internal ${SANDBOX_NETWORK}`);
+
+            const running = (await sh(`docker inspect -f '{{.State.Running}}' ${EGRESS_PROXY_NAME} 2>/dev/null || true`)).trim();
+            if (running === 'true') return;
+
+            await sh(`docker rm -f ${EGRESS_PROXY_NAME} || true`);
+            await sh(`docker create --name ${EGRESS_PROXY_NAME} --restart unless-stopped ${EGRESS_PROXY_IMAGE}`);
+
+            const tempDir = mkdtempSync(path.join(os.tmpdir(), 'egress-proxy-'));
+            const configPath = path.join(tempDir, 'squid.conf');
+            writeFileSync(configPath, buildSquidConfig(getEgressAllowlist()), 'utf8');
+            try {
+                await sh(`docker cp "${configPath}" ${EGRESS_PROXY_NAME}:/etc/squid/squid.conf`);
+            } finally {
+                try { unlinkSync(configPath); } catch {}
+            }
+
+            await sh(`docker network connect ${SANDBOX_NETWORK} ${EGRESS_PROXY_NAME}`);
+            await sh(`docker start ${EGRESS_PROXY_NAME}`);
+        })().catch((error) => {
+            proxyReady = undefined;
+            throw error;
+        });
+    }
+    return proxyReady;
+}
+
+/**
+ * `docker run` flags that attach a sandbox to the restricted network and route HTTP(S) through the proxy.
+ * Returns an empty string when the policy is `open` (legacy full network access).
+ */
+export async function getSandboxNetworkArgs(): Promise<string> {
+    if (getSandboxNetworkPolicy() === 'open') return '';
+    await ensureEgressProxy();
+    const proxyUrl = `http://${EGRESS_PROXY_NAME}:${EGRESS_PROXY_PORT}`;
+    return [
+        `--network ${SANDBOX_NETWORK}`,
+        ...['HTTP_PROXY', 'HTTPS_PROXY', 'http_proxy', 'https_proxy'].map((name) => `-e ${name}=${proxyUrl}`),
+        `-e NO_PROXY=localhost,127.0.0.1`,
+        `-e no_proxy=localhost,127.0.0.1`,
+        // The JVM ignores *_PROXY variables; Maven and Gradle pick these up instead
+        `-e JAVA_TOOL_OPTIONS="-Dhttp.proxyHost=${EGRESS_PROXY_NAME} -Dhttp.proxyPort=${EGRESS_PROXY_PORT} -Dhttps.proxyHost=${EGRESS_PROXY_NAME} -Dhttps.proxyPort=${EGRESS_PROXY_PORT}"`,
+    ].join(' ');
+}
+
+/**
+ * Switch a sandbox between the allowlisted egress phase (clone, install, push)
+ * and the offline phase (test generation and execution).
+ */
+export async function setSandboxNetworkPhase(containerId: string, phase: SandboxNetworkPhase): Promise<void> {
+    if (getSandboxNetworkPolicy() === 'open') return;
+    const connected = (await sh(`docker inspect -f '{{json .NetworkSettings.Networks}}' ${containerId}`)).includes(`"${SANDBOX_NETWORK}"`);
+    if (phase === 'egress' && !connected) {
+        await sh(`docker network connect ${SANDBOX_NETWORK} ${containerId}`);
+    } else if (phase === 'offline' && connected) {
+        await sh(`docker network disconnect -f ${SANDBOX_NETWORK} ${containerId}`);
+    }
+}
@@ -0,0 +1,81 @@
+// In-memory, per-run secret store. Secrets never touch disk and disappear when the run
+// finishes or when their TTL expires, whichever comes first.
+
+import type { GitHostKind } from "./git-hosts";
+
+// Access token for the run's git host (GitHub, GitLab or Bitbucket)
+export const GIT_TOKEN_SECRET = "gitToken";
+
+const HOST_TOKEN_ENV: Record<GitHostKind, string[]> = {
+    github: ["GITHUB_PAT", "GITHUB_TOKEN", "GH_TOKEN"],
+    gitlab: ["GITLAB_TOKEN"],
+    bitbucket: ["BITBUCKET_TOKEN"],
+};
+
+type StoredSecret = {
+    value: string;
+    expiresAt: number;
+};
+
+const runSecrets = new Map<string, Map<string, StoredSecret>>();
+
+function getDefaultTtlMs(): number {
+    const raw = Number(process.env.RUN_SECRET_TTL_MS);
+    return Number.isFinite(raw) && raw > 0 ? raw : 4 * 60 * 60 * 1000;
+}
+
+function pruneExpired(now: number = Date.now()): void {
+    for (const [runId, secrets] of runSecrets) {
+        for (const [name, secret] of secrets) {
+            if (secret.expiresAt <= now) secrets.delete(name);
+        }
+        if (secrets.size === 0) runSecrets.delete(runId);
+    }
+}
+
+export function putRunSecret(runId: string, name: string, value: string, ttlMs: number = getDefaultTtlMs()): void {
+    if (!runId || !name || !value) return;
+    pruneExpired();
+    const secrets = runSecrets.get(runId) || new Map<string, StoredSecret>();
+    secrets.set(name, { value, expiresAt: Date.now() + ttlMs });
+    runSecrets.set(runId, secrets);
+}
+
+export function getRunSecret(runId: string | undefined, name: string): string | undefined {
+    if (!runId) return undefined;
+    const secret = runSecrets.get(runId)?.get(name);
+    if (!secret) return undefined;
+    if (secret.expiresAt <= Date.now()) {
+        runSecrets.get(runId)?.delete(name);
+        return undefined;
+    }
+    return secret.value;
+}
+
+export function deleteRunSecrets(runId: string): void {
+    runSecrets.delete(runId);
+}
+
+// All live secret values, used to mask them wherever output leaves the process.
+export function listSecretValues(): string[] {
+    pruneExpired();
+    const values: string[] = [];
+    for (const secrets of runSecrets.values()) {
+        for (const secret of secrets.values()) values.push(secret.value);
+    }
+    return values;
+}
+
+/**
+ * Git-host token for a run: the per-run secret first, then the service-level env token for that host
+ * (used when workflows are started outside /start-full-pipeline, e.g. from the playground).
+ */
+export function getGitTokenForRun(runId: string | undefined, kind: GitHostKind = "github"): string | undefined {
+    const fromStore = getRunSecret(runId, GIT_TOKEN_SECRET);
+    if (fromStore) return fromStore;
+    for (const name of HOST_TOKEN_ENV[kind]) {
+        const envToken = process.env[name]?.trim();
+        if (envToken) return envToken;
+    }
+    return undefined;
+}
@@ -0,0 +1,642 @@
+import ts from "typescript";
+import { exec } from "child_process";
+import path from "path";
+import { isInSparseScope } from "./clone-options";
+import { analyzePythonSources, isPythonAnalyzable } from "./python-analysis";
+
+// Static analysis of TS/JS source files through the TypeScript compiler API; Python files go through
+// `python-analysis.ts`, which reports the same shape. The whole file set is parsed as one program that never
+// resolves imports, so signatures come from annotations or, when a declaration has none, from what the
+// checker can infer locally (imported types show up as `any`).
+
+export type SymbolKind = "function" | "class" | "variable" | "interface" | "type" | "enum" | "namespace" | "re-export";
+
+export type ExportedSymbol = {
+    name: string;
+    kind: SymbolKind;
+    line: number;
+    default?: boolean;
+    typeOnly?: boolean;
+    // Module a re-export comes from
+    from?: string;
+    decorators?: string[];
+};
+
+export type ParameterInfo = {
+    name: string;
+    type?: string;
+    optional: boolean;
+    rest?: boolean;
+};
+
+export type FunctionInfo = {
+    // Class members are named `Class.member`
+    name: string;
+    kind: "function" | "method" | "constructor" | "getter" | "setter";
+    line: number;
+    exported: boolean;
+    params: ParameterInfo[];
+    returnType?: string;
+    async: boolean;
+    // Constructors of errors thrown or rejected directly in the body (identifiers when a variable is rethrown)
+    throws: string[];
+    complexity: number;
+    // Signatures of the overload declarations, when there are any
+    overloads?: string[];
+    visibility?: "public" | "protected" | "private";
+    static?: boolean;
+    decorators?: string[];
+};
+
+export type ImportInfo = {
+    module: string;
+    names: string[];
+    typeOnly: boolean;
+};
+
+export type SourceAnalysis = {
+    filePath: string;
+    language: string;
+    lineCount: number;
+    exports: ExportedSymbol[];
+    functions: FunctionInfo[];
+    imports: { relative: ImportInfo[]; packages: ImportInfo[] };
+    parseErrors: number;
+};
+
+const TS_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts"];
+const JS_EXTENSIONS = [".js", ".jsx", ".mjs", ".cjs"];
+const SKIPPED_FILE = /(\.d\.[cm]?ts$)|(\.(test|spec)\.[cm]?[jt]sx?$)|((^|\/)(__tests__|__mocks__|tests?|node_modules|dist|build|coverage|migrations|\.?venv)\/)|((^|\/)[^/]+\.config\.[cm]?[jt]s$)|((^|\/)(test_[^/]*|[^/]*_test|conftest|setup|manage)\.py$)/;
+
+// Files analysed for planning, and the largest file worth parsing (bundles and generated code are bigger)
+const MAX_PLANNING_FILES = 150;
+const MAX_FILE_BYTES = 200000;
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    allowJs: true,
+    checkJs: false,
+    jsx: ts.JsxEmit.Preserve,
+    noResolve: true,
+    noEmit: true,
+    types: [],
+    lib: ["lib.es2022.d.ts"],
+};
+
+// Default library files are the same for every analysis; parse them once per process
+const libFiles = new Map<string, ts.SourceFile | undefined>();
+
+function sh(cmd: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        exec(cmd, { maxBuffer: 1024 * 1024 * 100 }, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(stderr || error.message));
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
+
+function shellEscape(str: string): string {
+    return "'" + str.replace(/'/g, "'\"'\"'") + "'";
+}
+
+export function isTypeScriptAnalyzable(filePath: string, language?: string): boolean {
+    if (language === "typescript" || language === "javascript") return true;
+    const ext = path.extname(filePath).toLowerCase();
+    return TS_EXTENSIONS.includes(ext) || JS_EXTENSIONS.includes(ext);
+}
+
+function scriptKindFor(filePath: string): ts.ScriptKind {
+    switch (path.extname(filePath).toLowerCase()) {
+        case ".tsx": return ts.ScriptKind.TSX;
+        case ".jsx": return ts.ScriptKind.JSX;
+        case ".js": case ".mjs": case ".cjs": return ts.ScriptKind.JS;
+        default: return ts.ScriptKind.TS;
+    }
+}
+
+function createProgram(files: Array<{ filePath: string; text: string }>): ts.Program {
+    const sources = new Map(files.map((f) => [f.filePath, ts.createSourceFile(f.filePath, f.text, ts.ScriptTarget.ES2022, true, scriptKindFor(f.filePath))]));
+    const host = ts.createCompilerHost(COMPILER_OPTIONS, true);
+    const getLibFile = host.getSourceFile.bind(host);
+    host.getSourceFile = (fileName, languageVersion, onError) => {
+        const source = sources.get(fileName);
+        if (source) return source;
+        if (!libFiles.has(fileName)) libFiles.set(fileName, getLibFile(fileName, languageVersion, onError));
+        return libFiles.get(fileName);
+    };
+    const fileExists = host.fileExists.bind(host);
+    host.fileExists = (fileName) => sources.has(fileName) || fileExists(fileName);
+    host.writeFile = () => undefined;
+    return ts.createProgram([...sources.keys()], COMPILER_OPTIONS, host);
+}
+
+function lineOf(node: ts.Node): number {
+    return node.getSourceFile().getLineAndCharacterOfPosition(node.getStart()).line + 1;
+}
+
+// Source text of a node on one line (multi-line object types would break up prompt listings)
+function flatText(node: ts.Node): string {
+    return node.getText().replace(/\s+/g, " ");
+}
+
+function decoratorNames(node: ts.Node): string[] {
+    if (!ts.canHaveDecorators(node)) return [];
+    return (ts.getDecorators(node) || []).map((d) => flatText(ts.isCallExpression(d.expression) ? d.expression.expression : d.expression));
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    return ts.canHaveModifiers(node) && (ts.getModifiers(node) || []).some((m) => m.kind === kind);
+}
+
+function isExported(node: ts.Node): boolean {
+    return hasModifier(node, ts.SyntaxKind.ExportKeyword);
+}
+
+function isNestedScope(node: ts.Node): boolean {
+    return ts.isFunctionDeclaration(node) || ts.isClassLike(node) || ts.isMethodDeclaration(node)
+        || ts.isConstructorDeclaration(node) || ts.isAccessor(node);
+}
+
+// Walk a function body without descending into nested named functions or classes; inline callbacks count
+// towards the function that declares them
+function walkBody(body: ts.Node | undefined, visit: (node: ts.Node) => void): void {
+    if (!body) return;
+    const walk = (node: ts.Node) => {
+        visit(node);
+        if (!isNestedScope(node)) ts.forEachChild(node, walk);
+    };
+    ts.forEachChild(body, walk);
+    if (!ts.isBlock(body)) visit(body);
+}
+
+/**
+ * McCabe complexity: one plus every branch point (`if`, loops, non-default `case`, `catch`, `?:`, and the
+ * short-circuiting `&&`, `||`, `??` operators).
+ */
+export function cyclomaticComplexity(body: ts.Node | undefined): number {
+    let complexity = 1;
+    walkBody(body, (node) => {
+        switch (node.kind) {
+            case ts.SyntaxKind.IfStatement:
+            case ts.SyntaxKind.ForStatement:
+            case ts.SyntaxKind.ForInStatement:
+            case ts.SyntaxKind.ForOfStatement:
+            case ts.SyntaxKind.WhileStatement:
+            case ts.SyntaxKind.DoStatement:
+            case ts.SyntaxKind.CaseClause:
+            case ts.SyntaxKind.CatchClause:
+            case ts.SyntaxKind.ConditionalExpression:
+                complexity += 1;
+                break;
+            case ts.SyntaxKind.BinaryExpression: {
+                const operator = (node as ts.BinaryExpression).operatorToken.kind;
+                if (operator === ts.SyntaxKind.AmpersandAmpersandToken
+                    || operator === ts.SyntaxKind.BarBarToken
+                    || operator === ts.SyntaxKind.QuestionQuestionToken
+                    || operator === ts.SyntaxKind.AmpersandAmpersandEqualsToken
+                    || operator === ts.SyntaxKind.BarBarEqualsToken
+                    || operator === ts.SyntaxKind.QuestionQuestionEqualsToken) {
+                    complexity += 1;
+                }
+                break;
+            }
+        }
+    });
+    return complexity;
+}
+
+function errorName(expression: ts.Expression | undefined): string | undefined {
+    if (!expression) return undefined;
+    if (ts.isNewExpression(expression) || ts.isCallExpression(expression)) return expression.expression.getText();
+    if (ts.isIdentifier(expression) || ts.isPropertyAccessExpression(expression)) return expression.getText();
+    const text = flatText(expression);
+    return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+}
+
+// `throw`, `Promise.reject(...)` and `reject(...)` inside promise executors
+function thrownErrors(body: ts.Node | undefined): string[] {
+    const errors = new Set<string>();
+    walkBody(body, (node) => {
+        let name: string | undefined;
+        if (ts.isThrowStatement(node)) {
+            name = errorName(node.expression);
+        } else if (ts.isCallExpression(node) && node.arguments.length > 0) {
+            const callee = node.expression.getText();
+            if (callee === "Promise.reject" || callee === "reject") name = errorName(node.arguments[0]);
+        }
+        if (name) errors.add(name);
+    });
+    return [...errors];
+}
+
+type FunctionLike = ts.SignatureDeclaration & { body?: ts.Node };
+
+function describeFunction(checker: ts.TypeChecker, decl: FunctionLike, name: string, kind: FunctionInfo["kind"], exported: boolean): FunctionInfo {
+    const signature = checker.getSignatureFromDeclaration(decl);
+    const params: ParameterInfo[] = decl.parameters.map((p) => ({
+        name: flatText(p.name),
+        type: p.type ? flatText(p.type) : checker.typeToString(checker.getTypeAtLocation(p), decl),
+        optional: !!p.questionToken || !!p.initializer,
+        ...(p.dotDotDotToken ? { rest: true } : {}),
+    }));
+    let returnType = decl.type && flatText(decl.type);
+    if (!returnType && signature && kind !== "constructor" && kind !== "setter") {
+        returnType = checker.typeToString(checker.getReturnTypeOfSignature(signature), decl);
+    }
+    const info: FunctionInfo = {
+        name,
+        kind,
+        line: lineOf(decl),
+        exported,
+        params,
+        returnType,
+        async: hasModifier(decl, ts.SyntaxKind.AsyncKeyword) || /^Promise</.test(returnType || ""),
+        throws: thrownErrors(decl.body),
+        complexity: cyclomaticComplexity(decl.body),
+    };
+    const decorators = decoratorNames(decl);
+    if (decorators.length > 0) info.decorators = decorators;
+    if (ts.isClassElement(decl)) {
+        info.visibility = hasModifier(decl, ts.SyntaxKind.PrivateKeyword) || (decl.name && ts.isPrivateIdentifier(decl.name)) ? "private"
+            : hasModifier(decl, ts.SyntaxKind.ProtectedKeyword) ? "protected" : "public";
+        if (hasModifier(decl, ts.SyntaxKind.StaticKeyword)) info.static = true;
+    }
+    return info;
+}
+
+function signatureText(decl: ts.SignatureDeclaration): string {
+    const params = decl.parameters.map(flatText).join(", ");
+    return `(${params})${decl.type ? `: ${flatText(decl.type)}` : ""}`;
+}
+
+// The function an initializer evaluates to, looking through parentheses and `as`/`satisfies`
+function functionInitializer(initializer: ts.Expression | undefined): ts.ArrowFunction | ts.FunctionExpression | undefined {
+    let expr = initializer;
+    while (expr && (ts.isParenthesizedExpression(expr) || ts.isAsExpression(expr) || ts.isSatisfiesExpression(expr))) {
+        expr = expr.expression;
+    }
+    return expr && (ts.isArrowFunction(expr) || ts.isFunctionExpression(expr)) ? expr : undefined;
+}
+
+function addImport(into: Map<string, ImportInfo>, module: string, names: string[], typeOnly: boolean): void {
+    const existing = into.get(module);
+    if (!existing) {
+        into.set(module, { module, names: [...new Set(names)], typeOnly });
+        return;
+    }
+    existing.names = [...new Set([...existing.names, ...names])];
+    existing.typeOnly = existing.typeOnly && typeOnly;
+}
+
+function analyzeFile(checker: ts.TypeChecker, source: ts.SourceFile, language: string): SourceAnalysis {
+    const exports: ExportedSymbol[] = [];
+    const functions: FunctionInfo[] = [];
+    const imports = new Map<string, ImportInfo>();
+
+    // Top-level declarations by name, so `export { a }`, `export default a` and `module.exports = { a }` can be
+    // traced back to what they export
+    const locals = new Map<string, { kind: SymbolKind; node: ts.Node }>();
+    const exportedNames = new Set<string>();
+    const markExported = (name: string) => {
+        exportedNames.add(name);
+        return locals.get(name)?.kind || "variable";
+    };
+
+    for (const statement of source.statements) {
+        if (ts.isFunctionDeclaration(statement) && statement.name) {
+            locals.set(statement.name.text, { kind: "function", node: statement });
+        } else if (ts.isClassDeclaration(statement) && statement.name) {
+            locals.set(statement.name.text, { kind: "class", node: statement });
+        } else if (ts.isVariableStatement(statement)) {
+            for (const decl of statement.declarationList.declarations) {
+                if (ts.isIdentifier(decl.name)) locals.set(decl.name.text, { kind: functionInitializer(decl.initializer) ? "function" : "variable", node: decl });
+            }
+        } else if (ts.isInterfaceDeclaration(statement)) {
+            locals.set(statement.name.text, { kind: "interface", node: statement });
+        } else if (ts.isTypeAliasDeclaration(statement)) {
+            locals.set(statement.name.text, { kind: "type", node: statement });
+        } else if (ts.isEnumDeclaration(statement)) {
+            locals.set(statement.name.text, { kind: "enum", node: statement });
+        } else if (ts.isModuleDeclaration(statement) && ts.isIdentifier(statement.name)) {
+            locals.set(statement.name.text, { kind: "namespace", node: statement });
+        }
+    }
+
+    for (const statement of source.statements) {
+        const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+        if (isExported(statement)) {
+            if (ts.isVariableStatement(statement)) {
+                for (const decl of statement.declarationList.declarations) {
+                    for (const element of ts.isIdentifier(decl.name) ? [decl.name] : (decl.name.elements as ts.NodeArray<ts.ArrayBindingElement>).filter(ts.isBindingElement).map((e) => e.name)) {
+                        if (!ts.isIdentifier(element)) continue;
+                        exports.push({ name: element.text, kind: markExported(element.text), line: lineOf(decl) });
+                    }
+                }
+            } else if ((ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) && (statement.name || isDefault)) {
+                const name = statement.name?.text || "default";
+                // Overloads share a name; report it once
+                if (ts.isFunctionDeclaration(statement) && exports.some((e) => e.name === name && e.kind === "function")) continue;
+                if (statement.name) markExported(name);
+                const decorators = decoratorNames(statement);
+                exports.push({
+                    name,
+                    kind: ts.isFunctionDeclaration(statement) ? "function" : "class",
+                    line: lineOf(statement),
+                    ...(isDefault ? { default: true } : {}),
+                    ...(decorators.length > 0 ? { decorators } : {}),
+                });
+            } else if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement)
+                || (ts.isModuleDeclaration(statement) && ts.isIdentifier(statement.name))) {
+                const name = (statement.name as ts.Identifier).text;
+                exports.push({ name, kind: markExported(name), line: lineOf(statement), ...(isDefault ? { default: true } : {}) });
+            }
+        }
+
+        if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+            const clause = statement.importClause;
+            const names: string[] = [];
+            if (clause?.name) names.push("default");
+            if (clause?.namedBindings) {
+                if (ts.isNamespaceImport(clause.namedBindings)) names.push("*");
+                else names.push(...clause.namedBindings.elements.map((e) => (e.propertyName || e.name).text));
+            }
+            addImport(imports, statement.moduleSpecifier.text, names, !!clause?.isTypeOnly);
+        } else if (ts.isImportEqualsDeclaration(statement) && ts.isExternalModuleReference(statement.moduleReference)
+            && ts.isStringLiteral(statement.moduleReference.expression)) {
+            addImport(imports, statement.moduleReference.expression.text, ["*"], statement.isTypeOnly);
+        } else if (ts.isExportDeclaration(statement)) {
+            const from = statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier) ? statement.moduleSpecifier.text : undefined;
+            const typeOnly = statement.isTypeOnly;
+            const clause = statement.exportClause;
+            if (from) {
+                const names = !clause ? ["*"] : ts.isNamespaceExport(clause) ? [clause.name.text] : clause.elements.map((e) => e.name.text);
+                for (const name of names) exports.push({ name, kind: "re-export", line: lineOf(statement), from, ...(typeOnly ? { typeOnly } : {}) });
+                addImport(imports, from, !clause || ts.isNamespaceExport(clause) ? ["*"] : clause.elements.map((e) => (e.propertyName || e.name).text), typeOnly);
+            } else if (clause && ts.isNamedExports(clause)) {
+                for (const element of clause.elements) {
+                    const kind = markExported((element.propertyName || element.name).text);
+                    exports.push({ name: element.name.text, kind, line: lineOf(element), ...(element.name.text === "default" ? { default: true } : {}), ...(typeOnly || element.isTypeOnly ? { typeOnly: true } : {}) });
+                }
+            }
+        } else if (ts.isExportAssignment(statement)) {
+            // `export default x` / `export = x`
+            const expr = statement.expression;
+            const kind = ts.isIdentifier(expr) ? markExported(expr.text)
+                : functionInitializer(expr) ? "function" : ts.isClassExpression(expr) ? "class" : "variable";
+            exports.push({ name: statement.isExportEquals ? "export=" : "default", kind, line: lineOf(statement), default: true });
+            const fn = functionInitializer(expr);
+            if (fn) functions.push(describeFunction(checker, fn, "default", "function", true));
+        } else if (ts.isExpressionStatement(statement) && ts.isBinaryExpression(statement.expression)
+            && statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+            // CommonJS: `module.exports = ...`, `module.exports.a = ...`, `exports.a = ...`
+            const target = statement.expression.left.getText();
+            const value = statement.expression.right;
+            const member = target.match(/^(?:module\.)?exports\.([A-Za-z_$][\w$]*)$/)?.[1];
+            if (target === "module.exports") {
+                if (ts.isObjectLiteralExpression(value)) {
+                    for (const prop of value.properties) {
+                        if (!prop.name || !ts.isIdentifier(prop.name)) continue;
+                        const local = ts.isShorthandPropertyAssignment(prop) ? prop.name.text
+                            : ts.isPropertyAssignment(prop) && ts.isIdentifier(prop.initializer) ? prop.initializer.text : undefined;
+                        const kind = local ? markExported(local) : ts.isMethodDeclaration(prop) || (ts.isPropertyAssignment(prop) && functionInitializer(prop.initializer)) ? "function" : "variable";
+                        exports.push({ name: prop.name.text, kind, line: lineOf(prop) });
+                    }
+                } else {
+                    const kind = ts.isIdentifier(value) ? markExported(value.text) : functionInitializer(value) ? "function" : "variable";
+                    exports.push({ name: "module.exports", kind, line: lineOf(statement), default: true });
+                    const fn = functionInitializer(value);
+                    if (fn) functions.push(describeFunction(checker, fn, "module.exports", "function", true));
+                }
+            } else if (member) {
+                const fn = functionInitializer(value);
+                const kind = ts.isIdentifier(value) ? markExported(value.text) : fn ? "function" : "variable";
+                exports.push({ name: member, kind, line: lineOf(statement) });
+                if (fn) functions.push(describeFunction(checker, fn, member, "function", true));
+            }
+        }
+    }
+
+    // `require("x")` and `import("x")` anywhere in the file
+    const visitCalls = (node: ts.Node) => {
+        if (ts.isCallExpression(node) && node.arguments.length === 1 && ts.isStringLiteralLike(node.arguments[0])
+            && ((ts.isIdentifier(node.expression) && node.expression.text === "require") || node.expression.kind === ts.SyntaxKind.ImportKeyword)) {
+            addImport(imports, node.arguments[0].text, ["*"], false);
+        }
+        ts.forEachChild(node, visitCalls);
+    };
+    visitCalls(source);
+
+    // Functions and class members, exported or not
+    const functionDeclarations = new Map<string, ts.FunctionDeclaration[]>();
+    for (const statement of source.statements) {
+        if (ts.isFunctionDeclaration(statement)) {
+            const name = statement.name?.text || "default";
+            functionDeclarations.set(name, [...(functionDeclarations.get(name) || []), statement]);
+        } else if (ts.isVariableStatement(statement)) {
+            for (const decl of statement.declarationList.declarations) {
+                const fn = functionInitializer(decl.initializer);
+                if (fn && ts.isIdentifier(decl.name)) functions.push(describeFunction(checker, fn, decl.name.text, "function", exportedNames.has(decl.name.text)));
+            }
+        } else if (ts.isClassDeclaration(statement)) {
+            const className = statement.name?.text || "default";
+            const classExported = isExported(statement) || exportedNames.has(className);
+            const members = new Map<string, ts.ClassElement[]>();
+            for (const member of statement.members) {
+                if (ts.isConstructorDeclaration(member)) {
+                    members.set("constructor", [...(members.get("constructor") || []), member]);
+                } else if ((ts.isMethodDeclaration(member) || ts.isAccessor(member)) && member.name) {
+                    const key = `${ts.isGetAccessor(member) ? "get " : ts.isSetAccessor(member) ? "set " : ""}${member.name.getText()}`;
+                    members.set(key, [...(members.get(key) || []), member]);
+                } else if (ts.isPropertyDeclaration(member) && functionInitializer(member.initializer)) {
+                    // Arrow-function class fields behave like methods
+                    const fn = functionInitializer(member.initializer)!;
+                    const info = describeFunction(checker, fn, `${className}.${member.name.getText()}`, "method", false);
+                    const visibility = hasModifier(member, ts.SyntaxKind.PrivateKeyword) || ts.isPrivateIdentifier(member.name) ? "private"
+                        : hasModifier(member, ts.SyntaxKind.ProtectedKeyword) ? "protected" : "public";
+                    functions.push({ ...info, exported: classExported && visibility !== "private", visibility, ...(hasModifier(member, ts.SyntaxKind.StaticKeyword) ? { static: true } : {}) });
+                }
+            }
+            for (const [key, decls] of members) {
+                const implementation = decls.find((d) => (d as FunctionLike).body) || decls[decls.length - 1];
+                const kind = ts.isConstructorDeclaration(implementation) ? "constructor" : ts.isGetAccessor(implementation) ? "getter" : ts.isSetAccessor(implementation) ? "setter" : "method";
+                const memberName = key.replace(/^(get|set) /, "");
+                const info = describeFunction(checker, implementation as FunctionLike, `${className}.${memberName}`, kind, false);
+                const overloads = decls.filter((d) => d !== implementation && !(d as FunctionLike).body);
+                functions.push({
+                    ...info,
+                    exported: classExported && info.visibility !== "private",
+                    ...(overloads.length > 0 ? { overloads: overloads.map((d) => signatureText(d as ts.SignatureDeclaration)) } : {}),
+                });
+            }
+        }
+    }
+    for (const [name, decls] of functionDeclarations) {
+        const implementation = decls.find((d) => d.body) || decls[decls.length - 1];
+        const overloads = decls.filter((d) => d !== implementation);
+        functions.push({
+            ...describeFunction(checker, implementation, name, "function", decls.some(isExported) || exportedNames.has(name)),
+            ...(overloads.length > 0 ? { overloads: overloads.map(signatureText) } : {}),
+        });
+    }
+    functions.sort((a, b) => a.line - b.line);
+
+    const isRelative = (module: string) => module.startsWith(".") || module.startsWith("/");
+    return {
+        filePath: source.fileName,
+        language,
+        lineCount: source.getLineStarts().length,
+        exports,
+        functions,
+        imports: {
+            relative: [...imports.values()].filter((i) => isRelative(i.module)),
+            packages: [...imports.values()].filter((i) => !isRelative(i.module)),
+        },
+        parseErrors: (source as { parseDiagnostics?: readonly ts.Diagnostic[] }).parseDiagnostics?.length ?? 0,
+    };
+}
+
+/**
+ * Analyse TypeScript/JavaScript sources. Files are parsed together so the default library is loaded once;
+ * imports are never followed.
+ */
+export function analyzeTypeScriptSources(files: Array<{ filePath: string; text: string }>): SourceAnalysis[] {
+    if (files.length === 0) return [];
+    const program = createProgram(files);
+    const checker = program.getTypeChecker();
+    return files.map((file) => {
+        const source = program.getSourceFile(file.filePath)!;
+        const ext = path.extname(file.filePath).toLowerCase();
+        return analyzeFile(checker, source, JS_EXTENSIONS.includes(ext) ? "javascript" : "typescript");
+    });
+}
+
+// Reads files from the container in one exec. Missing and oversized files are left out.
+export async function readContainerFiles(containerId: string, filePaths: string[]): Promise<Array<{ filePath: string; text: string }>> {
+    if (filePaths.length === 0) return [];
+    const script = `for f in ${filePaths.map(shellEscape).join(" ")}; do if [ -f "$f" ] && [ $(wc -c < "$f") -le ${MAX_FILE_BYTES} ]; then printf '%s\\0' "$f"; cat "$f"; printf '\\0'; fi; done`;
+    const output = await sh(`docker exec ${containerId} bash -lc ${shellEscape(script)}`);
+    const parts = output.split("\0");
+    const files: Array<{ filePath: string; text: string }> = [];
+    for (let i = 0; i + 1 < parts.length; i += 2) {
+        files.push({ filePath: parts[i], text: parts[i + 1] });
+    }
+    return files;
+}
+
+// Overwrites a file in the container through stdin, so it keeps its mode and owner (docker cp would not)
+export function writeContainerFile(containerId: string, filePath: string, text: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const child = exec(`docker exec -i ${containerId} sh -c ${shellEscape(`cat > ${shellEscape(filePath)}`)}`, (error, _stdout, stderr) => {
+            if (error) {
+                reject(new Error(stderr || error.message));
+            } else {
+                resolve();
+            }
+        });
+        child.stdin?.end(text);
+    });
+}
+
+// The checkout under /app when the caller does not know it
+export async function resolveRepoPath(containerId: string, repoPath?: string): Promise<string> {
+    return repoPath
+        || (await sh(`docker exec ${containerId} bash -lc ${shellEscape(`for d in /app/*; do if [ -d "$d/.git" ]; then echo "$d"; break; fi; done`)}`)).trim()
+        || "/app";
+}
+
+/**
+ * Tracked TS/JS and Python source files of the checkout, relative to `repoPath`: no tests, type declarations,
+ * configs or build output, and only inside the sparse checkout.
+ */
+export async function listSourceFiles(containerId: string, repoPath: string, sparsePaths?: string[]): Promise<string[]> {
+    const patterns = [...TS_EXTENSIONS, ...JS_EXTENSIONS, ".py"].map((ext) => shellEscape(`*${ext}`)).join(" ");
+    const listed = await sh(`docker exec ${containerId} bash -lc ${shellEscape(`cd ${shellEscape(repoPath)} && git ls-files -- ${patterns}`)}`);
+    return listed.split(/\r?\n/)
+        .map((f) => f.trim())
+        .filter((f) => f && !SKIPPED_FILE.test(f) && isInSparseScope(f, sparsePaths));
+}
+
+/**
+ * Analyse the source files of the repository checked out in the container (see `listSourceFiles`). Paths in
+ * the result are relative to `repoPath`. Files named in `priority` (e.g. the most imported ones) are analysed
+ * first when the repository has more files than the planning cap. Python files are skipped, with a warning,
+ * when the sandbox has no interpreter.
+ */
+export async function analyzeRepositorySources(containerId: string, options: { repoPath?: string; sparsePaths?: string[]; priority?: string[] } = {}): Promise<{ repoPath: string; analyses: SourceAnalysis[] }> {
+    const repoPath = await resolveRepoPath(containerId, options.repoPath);
+    const listed = await listSourceFiles(containerId, repoPath, options.sparsePaths);
+    const rank = new Map((options.priority || []).map((f, i) => [f, i]));
+    const candidates = listed
+        .sort((a, b) => (rank.get(a) ?? Infinity) - (rank.get(b) ?? Infinity))
+        .slice(0, MAX_PLANNING_FILES)
+        .map((f) => path.posix.join(repoPath, f));
+
+    const pythonFiles = candidates.filter((f) => isPythonAnalyzable(f));
+    const files = await readContainerFiles(containerId, candidates.filter((f) => !isPythonAnalyzable(f)));
+    const analyses = analyzeTypeScriptSources(files);
+    try {
+        analyses.push(...await analyzePythonSources(containerId, pythonFiles));
+    } catch (error) {
+        console.warn(`[source-analysis] Python analysis failed:`, error instanceof Error ? error.message : error);
+    }
+    return { repoPath, analyses: analyses.map((a) => ({ ...a, filePath: path.posix.relative(repoPath, a.filePath) })) };
+}
+
+function describeSignature(fn: FunctionInfo): string {
+    const params = fn.params.map((p) => `${p.rest ? "..." : ""}${p.name}${p.optional ? "?" : ""}${p.type ? `: ${p.type}` : ""}`).join(", ");
+    const notes = [
+        fn.async ? "async" : "",
+        `complexity ${fn.complexity}`,
+        fn.throws.length > 0 ? `throws ${fn.throws.join(", ")}` : "",
+        fn.overloads ? `${fn.overloads.length} overloads` : "",
+    ].filter(Boolean).join(", ");
+    return `${fn.name}(${params})${fn.returnType ? `: ${fn.returnType}` : ""} [${notes}]`;
+}
+
+// Testing value of a file: the branchiness of what it exports, plus async and error paths
+function targetScore(analysis: SourceAnalysis): number {
+    return analysis.functions
+        .filter((f) => f.exported)
+        .reduce((score, f) => score + f.complexity + (f.async ? 1 : 0) + f.throws.length, 0);
+}
+
+/**
+ * Files with exported functions, most valuable test target first. With the fan-in of each file from the
+ * dependency graph, the most imported files come first and the score breaks ties.
+ */
+export function rankAnalyzedTargets(analyses: SourceAnalysis[], fanIn?: Map<string, number>): Array<{ analysis: SourceAnalysis; score: number; fanIn?: number }> {
+    return analyses
+        .map((analysis) => ({ analysis, score: targetScore(analysis), fanIn: fanIn?.get(analysis.filePath) }))
+        .filter((r) => r.score > 0)
+        .sort((a, b) => (b.fanIn || 0) - (a.fanIn || 0) || b.score - a.score);
+}
+
+/**
+ * Prompt block ranking the analysed files as test targets, with the exported functions and their signatures,
+ * complexity and thrown errors, and the packages each file imports (the mocking candidates). Empty when
+ * nothing testable was found.
+ */
+export function describeAnalyzedTargets(analyses: SourceAnalysis[], limit: number = 15, fanIn?: Map<string, number>): string {
+    const ranked = rankAnalyzedTargets(analyses, fanIn).slice(0, limit);
+    if (ranked.length === 0) return "";
+    const lines = ranked.map(({ analysis, score, fanIn: importers }) => {
+        const exported = analysis.functions.filter((f) => f.exported).sort((a, b) => b.complexity - a.complexity);
+        const packages = analysis.imports.packages.filter((i) => !i.typeOnly).map((i) => i.module);
+        return [
+            `- ${analysis.filePath} (${importers !== undefined ? `fan-in ${importers}, ` : ""}score ${score}, ${analysis.lineCount} lines)`,
+            ...exported.slice(0, 8).map((f) => `    ${describeSignature(f)}`),
+            ...(exported.length > 8 ? [`    … ${exported.length - 8} more exported functions`] : []),
+            ...(packages.length > 0 ? [`    imports: ${packages.join(", ")}`] : []),
+        ].join("\n");
+    });
+    return `
+
+STATIC ANALYSIS OF SOURCE FILES (from the TypeScript compiler / Python ast, ranked by ${fanIn ? "fan-in, then " : ""}exported complexity):
+${lines.join("\n")}
+- Prefer targets from this list. Use these exact function names, parameters and return types in the test specs.
+- Every listed thrown error and every async function needs a test case; mock the listed package imports where they reach I/O.`;
+}
@@ -1,5 +1,6 @@
 import { createTool } from "@mastra/core";
 import z from "zod";
+import { withRedaction } from "./redaction";
 
 // Task status tracking
 export interface TaskEvent {
@@ -14,7 +15,7 @@ export interface TaskEvent {
 // In-memory task tracking (could be replaced with persistent storage)
 export const taskEvents: TaskEvent[] = [];
 
-export const taskLoggingTool = createTool({
+export const taskLoggingTool = withRedaction(createTool({
     id: "task_logging",
     description: "Log agent task events for tracking and coordination",
     inputSchema: z.object({
@@ -49,7 +50,7 @@ export const taskLoggingTool = createTool({
             timestamp: timestamp
         };
     },
-});
+}));
 
 // Helper functions for task coordination
 export function getAgentTasks(agentId: string): TaskEvent[] {
@@ -0,0 +1,293 @@
+import { exec } from "child_process";
+import path from "path";
+import { readContainerFiles } from "./source-analysis";
+
+// Test frameworks the generation prompts know how to target, and the framework-specific parts of those prompts:
+// where the test file goes, the patterns and skeleton the agent follows, and the fixes asked for on retry.
+
+export type TestFramework = "vitest" | "jest" | "pytest";
+
+const JEST_CONFIG = /^jest\.config\.([cm]?[jt]s|json)$/;
+const VITEST_CONFIG = /^vitest\.(config|workspace)\.[cm]?[jt]s$/;
+
+function sh(cmd: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        exec(cmd, { maxBuffer: 1024 * 1024 * 100 }, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(stderr || error.message));
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
+
+function shellEscape(str: string): string {
+    return "'" + str.replace(/'/g, "'\"'\"'") + "'";
+}
+
+// Frameworks the planner may name map onto the ones generation supports; Python targets always get pytest
+export function normalizeTestFramework(name?: string, language?: string): TestFramework {
+    if (language === "python" || /pytest|unittest|python/i.test(name || "")) return "pytest";
+    if (/jest/i.test(name || "")) return "jest";
+    return "vitest";
+}
+
+/**
+ * The JS test framework a project is set up for, from its root file names and package.json: a jest.config.* or
+ * vitest.config.* file decides when only one of them is present, then a `jest` key in package.json, then the
+ * runner the `test` script calls, then which of the two is a dependency (ts-jest and babel-jest count as Jest).
+ * Undefined when there is no sign of either.
+ */
+export function scriptFrameworkFromConfig(fileNames: string[], packageJson?: any): "vitest" | "jest" | undefined {
+    const jestConfig = fileNames.some((name) => JEST_CONFIG.test(name));
+    const vitestConfig = fileNames.some((name) => VITEST_CONFIG.test(name));
+    if (jestConfig !== vitestConfig) return jestConfig ? "jest" : "vitest";
+    if (packageJson?.jest && typeof packageJson.jest === "object") return "jest";
+
+    const testScript = String(packageJson?.scripts?.test || "");
+    if (/\bvitest\b/.test(testScript)) return "vitest";
+    if (/\bjest\b/.test(testScript)) return "jest";
+
+    const dependencies = { ...packageJson?.dependencies, ...packageJson?.devDependencies };
+    if (dependencies.vitest) return "vitest";
+    if (dependencies.jest || dependencies["ts-jest"] || dependencies["babel-jest"]) return "jest";
+    return undefined;
+}
+
+// scriptFrameworkFromConfig for the checkout at `repoPath` in the container
+export async function detectScriptTestFramework(containerId: string, repoPath: string): Promise<"vitest" | "jest" | undefined> {
+    const listing = await sh(`docker exec ${containerId} ls -A ${shellEscape(repoPath)}`);
+    const [manifest] = await readContainerFiles(containerId, [path.posix.join(repoPath, "package.json")]);
+    let packageJson: any;
+    try {
+        packageJson = manifest ? JSON.parse(manifest.text) : undefined;
+    } catch {
+        packageJson = undefined;
+    }
+    return scriptFrameworkFromConfig(listing.split("\n").map((name) => name.trim()).filter(Boolean), packageJson);
+}
+
+// Framework for one source file of a plan: Python files get pytest, script files the plan's JS framework (Vitest or Jest)
+export function frameworkForFile(sourceFile: string, planned?: string): TestFramework {
+    if (/\.pyi?$/.test(sourceFile)) return "pytest";
+    const framework = normalizeTestFramework(planned);
+    return framework === "pytest" ? "vitest" : framework;
+}
+
+/**
+ * Test file for a source file, relative to the repository root. Vitest and Jest tests mirror `src/` under the test
+ * directory with a `.test` infix (`src/a/b.ts` → `tests/a/b.test.ts`); pytest tests use a `test_` prefix so
+ * default discovery finds them (`pkg/mod.py` → `tests/pkg/test_mod.py`).
+ */
+export function testFilePathFor(sourceFile: string, testDirectory: string, framework: TestFramework): string {
+    if (framework === "pytest") {
+        const dir = path.posix.dirname(sourceFile).replace(/^src(\/|$)/, "");
+        return path.posix.join(testDirectory, dir, `test_${path.posix.basename(sourceFile)}`);
+    }
+    return sourceFile
+        .replace(/^src\//, `${testDirectory}/`)
+        .replace(/\.([cm]?[jt]sx?)$/, ".test.$1");
+}
+
+export function frameworkLanguage(framework: TestFramework): string {
+    return framework === "pytest" ? "Python" : "TypeScript";
+}
+
+// REQUIRED TEST PATTERNS and example skeleton for the generation prompt
+export function describeTestPatterns(framework: TestFramework): string {
+    if (framework === "pytest") {
+        return `REQUIRED TEST PATTERNS:
+- pytest test functions (or Test* classes) with plain assert statements
+- Import the module under test by its package path (add a conftest.py or sys.path entry only if imports fail)
+- Mock ALL external dependencies with unittest.mock (patch, MagicMock, AsyncMock) or the monkeypatch fixture
+- Patch names where they are looked up (the module under test), not where they are defined
+- pytest.raises for every raised exception, with match= on the message when it matters
+- @pytest.mark.asyncio (or asyncio.run) for async functions, AsyncMock for awaited dependencies
+- @pytest.mark.parametrize for input variations and boundary values
+- Fixtures for shared setup, tmp_path for filesystem work
+- Descriptive test names following "test_[function]_[expected_behavior]_when_[condition]"
+
+EXAMPLE SOPHISTICATED STRUCTURE:
+\`\`\`python
+import pytest
+from unittest.mock import MagicMock, patch
+
+from [ACTUAL_PACKAGE].[ACTUAL_MODULE] import [ACTUAL_IMPORTS_FROM_SOURCE]
+
+
+@pytest.fixture
+def mock_dependency():
+    with patch("[ACTUAL_PACKAGE].[ACTUAL_MODULE].[EXTERNAL_DEPENDENCY]") as mocked:
+        yield mocked
+
+
+class Test[FunctionName]:
+    def test_returns_expected_result_when_input_is_valid(self, mock_dependency):
+        # Comprehensive positive test case
+        ...
+
+    def test_raises_value_error_when_input_is_invalid(self):
+        with pytest.raises(ValueError):
+            ...
+
+    @pytest.mark.parametrize("value", [0, -1, ""])
+    def test_handles_boundary_values(self, value):
+        ...
+\`\`\``;
+    }
+    if (framework === "jest") {
+        return `REQUIRED TEST PATTERNS:
+- Jest globals (describe, it, expect, jest, beforeEach, afterEach); import them from '@jest/globals' only if the repo's existing tests do
+- Mock ALL external dependencies with jest.mock, jest.fn and jest.spyOn; NEVER use vi.* or import from 'vitest'
+- jest.mock calls are hoisted above the imports: a factory may only reference variables whose names start with "mock"
+- jest.mocked(fn) for typed access to mocked functions
+- Error boundary testing with expect(...).toThrow / rejects.toThrow
+- Async/await testing patterns with proper Promise handling
+- jest.clearAllMocks() in beforeEach, jest.restoreAllMocks() in afterEach
+- Descriptive test names following "should [expected behavior] when [condition]" pattern
+- Proper TypeScript typing and interface mocking
+- Performance and edge case coverage
+
+EXAMPLE SOPHISTICATED STRUCTURE:
+\`\`\`typescript
+import { exec } from 'child_process';
+
+// Import source modules and types
+import { [ACTUAL_IMPORTS_FROM_SOURCE] } from '[ACTUAL_IMPORT_PATH]';
+
+// Mock external dependencies (hoisted above the imports by Jest)
+jest.mock('child_process', () => ({
+  exec: jest.fn(),
+}));
+
+describe('[MODULE_NAME]', () => {
+  const mockExec = jest.mocked(exec);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('[FUNCTION_NAME]', () => {
+    it('should handle successful execution with valid parameters', async () => {
+      // Comprehensive positive test case
+    });
+
+    it('should reject with proper error when execution fails', async () => {
+      // Error condition testing
+    });
+
+    // Additional test cases based on function complexity
+  });
+});
+\`\`\``;
+    }
+    return `REQUIRED TEST PATTERNS:
+- Proper vitest imports (vi, expect, describe, it, beforeEach, afterEach, beforeAll, afterAll)
+- Smart mocking of ALL external dependencies with proper typing
+- Comprehensive test cases covering ALL functions from specification
+- Error boundary testing with proper error assertions
+- Async/await testing patterns with proper Promise handling
+- Mock setup/reset in beforeEach/afterEach hooks
+- Descriptive test names following "should [expected behavior] when [condition]" pattern
+- Proper TypeScript typing and interface mocking
+- Integration test considerations where applicable
+- Performance and edge case coverage
+
+EXAMPLE SOPHISTICATED STRUCTURE:
+\`\`\`typescript
+import { vi, expect, describe, it, beforeEach, afterEach } from 'vitest';
+import type { Mock } from 'vitest';
+
+// Import source modules and types
+import { [ACTUAL_IMPORTS_FROM_SOURCE] } from '[ACTUAL_IMPORT_PATH]';
+
+// Mock external dependencies
+vi.mock('child_process', () => ({
+  exec: vi.fn(),
+}));
+
+vi.mock('@mastra/core', () => ({
+  // Mock actual exports based on source analysis
+}));
+
+describe('[MODULE_NAME]', () => {
+  // Proper mock typing
+  const mockExec = vi.mocked(require('child_process').exec);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('[FUNCTION_NAME]', () => {
+    it('should handle successful execution with valid parameters', async () => {
+      // Comprehensive positive test case
+    });
+
+    it('should reject with proper error when execution fails', async () => {
+      // Error condition testing
+    });
+
+    it('should validate input parameters and throw on invalid input', () => {
+      // Input validation testing
+    });
+
+    // Additional test cases based on function complexity
+  });
+});
+\`\`\``;
+}
+
+// Error-driven fixes listed in the retry prompt
+export function describeRetryCorrections(framework: TestFramework): string {
+    if (framework === "pytest") {
+        return `   - If syntax errors: Fix Python syntax and indentation issues
+   - If import errors: Correct package paths (ModuleNotFoundError), add conftest.py/sys.path setup if the package is not importable
+   - If mocking errors: Patch the name where the module under test looks it up; use AsyncMock for awaited calls
+   - If execution errors: Fix fixtures, async handling and assertions
+   - If dependency errors: Mock the missing third-party modules instead of importing them`;
+    }
+    if (framework === "jest") {
+        return `   - If syntax errors: Fix TypeScript compilation issues (ts-jest type-checks the test file)
+   - If import errors: Correct import paths and module references; remove any 'vitest' import
+   - If mocking errors: Fix jest.mock factories (hoisted, may only use variables prefixed "mock") and type mocks with jest.mocked
+   - If execution errors: Fix async/await patterns and assertions
+   - If dependency errors: Ensure proper external dependency handling`;
+    }
+    return `   - If syntax errors: Fix TypeScript compilation issues
+   - If import errors: Correct import paths and module references
+   - If mocking errors: Fix vi.mock configurations and typing
+   - If execution errors: Fix async/await patterns and assertions
+   - If dependency errors: Ensure proper external dependency handling`;
+}
+
+// How to make a nondeterministic test deterministic, for the flaky-test repair prompt
+export function describeDeterminismFixes(framework: TestFramework): string {
+    if (framework === "pytest") {
+        return `   - Shared state: build it in fixtures (function scope), never at module level; undo patches with monkeypatch or context managers
+   - Time: patch the clock the module under test reads (time.time, datetime.now) instead of sleeping or comparing to the real time
+   - Randomness: patch random/uuid in the module under test or seed it inside the test
+   - Network and filesystem: mock them; use tmp_path for files
+   - Order: no test may rely on another test having run first`;
+    }
+    if (framework === "jest") {
+        return `   - Shared state: create it in beforeEach and call jest.clearAllMocks()/jest.restoreAllMocks() in afterEach; no module-level mutable variables
+   - Time: jest.useFakeTimers() with jest.setSystemTime(), advance with jest.advanceTimersByTime(), jest.useRealTimers() in afterEach
+   - Randomness: jest.spyOn(Math, 'random').mockReturnValue(...) or mock the id/uuid module
+   - Network and filesystem: jest.mock the modules that reach them
+   - Order: no test may rely on another test having run first`;
+    }
+    return `   - Shared state: create it in beforeEach and call vi.clearAllMocks()/vi.restoreAllMocks() in afterEach; no module-level mutable variables
+   - Time: vi.useFakeTimers() with vi.setSystemTime(), advance with vi.advanceTimersByTime(), vi.useRealTimers() in afterEach
+   - Randomness: vi.spyOn(Math, 'random').mockReturnValue(...) or mock the id/uuid module
+   - Network and filesystem: vi.mock the modules that reach them
+   - Order: no test may rely on another test having run first`;
+}
@@ -0,0 +1,262 @@
+import { exec } from "child_process";
+import path from "path";
+import z from "zod";
+import type { TestFramework } from "./test-frameworks";
+
+// Runs generated test files with the project's own runner inside the sandbox and reads the runner's
+// machine-readable report back (Jest's JSON or Vitest's Jest-compatible JSON, pytest's JUnit XML), so the
+// outcome is known per test case, with the assertion message of every failure, instead of from an agent's
+// reading of the console.
+
+const RUN_TIMEOUT_MS = Number(process.env.TEST_RUN_TIMEOUT_MS) || 5 * 60 * 1000;
+const OUTPUT_TAIL_BYTES = 20000;
+const MESSAGE_LIMIT = 2000;
+
+export const TestCaseResultSchema = z.object({
+    name: z.string().describe("Test name including its describe blocks or test class"),
+    status: z.enum(["passed", "failed", "skipped"]),
+    durationMs: z.number().optional(),
+    message: z.string().optional().describe("Assertion or error message of a failed test"),
+});
+export type TestCaseResult = z.infer<typeof TestCaseResultSchema>;
+
+// What one run of a generated test file produced, as kept on the generation result
+export const TestFileExecutionSchema = z.object({
+    passed: z.number(),
+    failed: z.number(),
+    skipped: z.number(),
+    error: z.string().optional().describe("Why the file did not load or was not collected"),
+    failures: z.array(TestCaseResultSchema).describe("Failed tests with their assertion messages"),
+});
+export type TestFileExecution = z.infer<typeof TestFileExecutionSchema>;
+
+export type TestFileRun = {
+    testFile: string;
+    tests: TestCaseResult[];
+    // Set when the file failed to load, import or collect, so none of its tests ran
+    error?: string;
+};
+
+export type TestRunResult = {
+    framework: TestFramework;
+    command: string;
+    exitCode: number;
+    durationMs: number;
+    files: TestFileRun[];
+    // Tail of the runner's console output
+    output: string;
+    // Set when the runner produced no report at all (not installed, crashed, timed out)
+    error?: string;
+};
+
+function sh(cmd: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        exec(cmd, { maxBuffer: 1024 * 1024 * 100 }, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(stderr || error.message));
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
+
+function shellEscape(str: string): string {
+    return "'" + str.replace(/'/g, "'\"'\"'") + "'";
+}
+
+// pytest has no built-in shuffle; this plugin shuffles the collected items with a given seed
+const PYTEST_SHUFFLE = `import random, sys, pytest; seed = int(sys.argv[1]); Shuffle = type("Shuffle", (), {"pytest_collection_modifyitems": staticmethod(lambda items: random.Random(seed).shuffle(items))}); sys.exit(pytest.main(sys.argv[2:], plugins=[Shuffle()]))`;
+
+// The runner invocation for `files`, writing its report to the path in $report; a seed runs the tests in shuffled
+// order, and `bail` stops at the first failing test
+function runnerCommand(framework: TestFramework, testFiles: string[], seed?: number, bail?: boolean): string {
+    const files = testFiles.map(shellEscape).join(" ");
+    if (framework === "pytest") {
+        const pytest = seed === undefined
+            ? `"$(command -v python3 || command -v python)" -m pytest`
+            : `env PYTHONHASHSEED=${seed} "$(command -v python3 || command -v python)" -c ${shellEscape(PYTEST_SHUFFLE)} ${seed} -p no:randomly`;
+        return `${pytest} -q -p no:cacheprovider${bail ? " -x" : ""} --continue-on-collection-errors --junitxml="$report" ${files}`;
+    }
+    if (framework === "jest") {
+        // --randomize needs Jest 29.2 or later
+        const shuffle = seed === undefined ? "" : ` --randomize --seed=${seed}`;
+        return `npx --no-install jest --ci${shuffle}${bail ? " --bail" : ""} --json --outputFile="$report" --runTestsByPath ${files}`;
+    }
+    const shuffle = seed === undefined ? "" : ` --sequence.shuffle --sequence.seed=${seed}`;
+    return `npx --no-install vitest run${shuffle}${bail ? " --bail=1" : ""} --reporter=json --outputFile="$report" ${files}`;
+}
+
+// Colour codes and the runner's own stack frames add nothing to a failure message
+function clip(text: string, limit = MESSAGE_LIMIT): string {
+    const clean = text
+        .replace(/\u001b\[[0-9;]*m/g, "")
+        .split("\n")
+        .filter((line) => !/^\s+at .*(node_modules|node:internal|site-packages)/.test(line))
+        .join("\n")
+        .trim();
+    return clean.length > limit ? `${clean.slice(0, limit)}…` : clean;
+}
+
+function decodeXml(text: string): string {
+    return text
+        .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+        .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+        .replace(/&amp;/g, "&");
+}
+
+function xmlAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of source.matchAll(/([\w:-]+)="([^"]*)"/g)) attributes[match[1]] = decodeXml(match[2]);
+    return attributes;
+}
+
+/**
+ * Per-file results from a Jest-compatible JSON report (what `vitest --reporter=json` and `jest --json` write).
+ * Suites that failed without a failing test, such as an import error, carry the suite message as the file error.
+ */
+export function parseJestJsonReport(report: string, repoPath: string): TestFileRun[] {
+    const data = JSON.parse(report);
+    const suites: any[] = Array.isArray(data?.testResults) ? data.testResults : [];
+    return suites.map((suite) => {
+        const name = String(suite?.name || "");
+        const tests: TestCaseResult[] = (Array.isArray(suite?.assertionResults) ? suite.assertionResults : []).map((assertion: any) => {
+            const status = assertion?.status === "passed" ? "passed" : assertion?.status === "failed" ? "failed" : "skipped";
+            const failureMessages: string[] = Array.isArray(assertion?.failureMessages) ? assertion.failureMessages : [];
+            return {
+                name: [...(Array.isArray(assertion?.ancestorTitles) ? assertion.ancestorTitles : []), assertion?.title].filter(Boolean).join(" > ") || String(assertion?.fullName || "unnamed test"),
+                status,
+                durationMs: typeof assertion?.duration === "number" ? assertion.duration : undefined,
+                message: status === "failed" ? clip(failureMessages.join("\n") || "failed without a message") : undefined,
+            };
+        });
+        const loadFailed = suite?.status === "failed" && !tests.some((t) => t.status === "failed");
+        return {
+            testFile: path.posix.isAbsolute(name) ? path.posix.relative(repoPath, name) : name,
+            tests,
+            error: loadFailed ? clip(String(suite?.message || "test file failed to run")) : undefined,
+        };
+    });
+}
+
+/**
+ * Per-file results from a pytest JUnit XML report. Test cases are matched to files through their dotted
+ * `classname` (`tests.pkg.test_mod.TestX` → `tests/pkg/test_mod.py`); collection errors, which pytest reports
+ * as a test case named after the module, become the file error.
+ */
+export function parseJunitReport(report: string, testFiles: string[]): TestFileRun[] {
+    const modules = testFiles
+        .map((testFile) => ({ testFile, module: testFile.replace(/\.py$/, "").replace(/\//g, ".") }))
+        .sort((a, b) => b.module.length - a.module.length);
+    const moduleOf = (dotted: string) => modules.find((m) => dotted === m.module || dotted.startsWith(`${m.module}.`));
+    const runs = new Map<string, TestFileRun>(testFiles.map((testFile) => [testFile, { testFile, tests: [] }]));
+
+    for (const match of report.matchAll(/<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g)) {
+        const attributes = xmlAttributes(match[1]);
+        const body = match[2] || "";
+        const problem = /<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/.exec(body);
+        const message = problem
+            ? clip([xmlAttributes(problem[2]).message, decodeXml(problem[3] || "")].filter(Boolean).join("\n"))
+            : undefined;
+
+        const classname = attributes.classname || "";
+        if (!classname) {
+            const owner = moduleOf(attributes.name || "");
+            const run = owner && runs.get(owner.testFile);
+            if (run && problem) run.error = message || "collection failed";
+            continue;
+        }
+        const owner = moduleOf(classname);
+        const run = owner && runs.get(owner.testFile);
+        if (!owner || !run) continue;
+        const testClass = classname.slice(owner.module.length + 1);
+        run.tests.push({
+            name: [testClass, attributes.name].filter(Boolean).join("::"),
+            status: problem ? "failed" : /<skipped\b/.test(body) ? "skipped" : "passed",
+            durationMs: attributes.time ? Math.round(Number(attributes.time) * 1000) : undefined,
+            message,
+        });
+    }
+    return [...runs.values()].filter((run) => run.tests.length > 0 || run.error);
+}
+
+/**
+ * Run `testFiles` (relative to `repoPath`) with the framework's runner in the container, offline and under a
+ * time limit; with `seed`, in an order shuffled by that seed, and with `bail`, only until the first failure.
+ * Every requested file gets an entry; files missing from the report get an error saying so.
+ */
+export async function runGeneratedTests(
+    containerId: string,
+    repoPath: string,
+    framework: TestFramework,
+    testFiles: string[],
+    options: { timeoutMs?: number; seed?: number; bail?: boolean } = {},
+): Promise<TestRunResult> {
+    const timeoutSeconds = Math.max(1, Math.round((options.timeoutMs ?? RUN_TIMEOUT_MS) / 1000));
+    const command = runnerCommand(framework, testFiles, options.seed, options.bail);
+    const script = [
+        `cd ${shellEscape(repoPath)} || exit 0`,
+        `report=$(mktemp); log=$(mktemp)`,
+        `CI=1 NO_COLOR=1 FORCE_COLOR=0 PYTHONDONTWRITEBYTECODE=1 timeout ${timeoutSeconds} ${command} >"$log" 2>&1`,
+        `code=$?`,
+        `printf '%s\\0' "$code"; cat "$report" 2>/dev/null; printf '\\0'; tail -c ${OUTPUT_TAIL_BYTES} "$log"`,
+        `rm -f "$report" "$log"`,
+    ].join("\n");
+
+    const startedAt = Date.now();
+    const [code, report = "", output = ""] = (await sh(`docker exec ${containerId} bash -lc ${shellEscape(script)}`)).split("\0");
+    const exitCode = Number(code) || 0;
+    const result: TestRunResult = { framework, command, exitCode, durationMs: Date.now() - startedAt, files: [], output };
+
+    let parsed: TestFileRun[] = [];
+    if (report.trim()) {
+        try {
+            parsed = framework === "pytest" ? parseJunitReport(report, testFiles) : parseJestJsonReport(report, repoPath);
+        } catch (error) {
+            result.error = `Unreadable ${framework} report: ${error instanceof Error ? error.message : String(error)}`;
+        }
+    } else {
+        result.error = exitCode === 124
+            ? `${framework} timed out after ${timeoutSeconds}s`
+            : `${framework} exited with code ${exitCode} without writing a report: ${clip(output, 500) || "no output"}`;
+    }
+
+    const byFile = new Map(parsed.map((run) => [run.testFile, run]));
+    result.files = testFiles.map((testFile) => byFile.get(testFile) || {
+        testFile,
+        tests: [],
+        error: result.error
+            || (parsed.length === 0 ? `${framework} ran no tests (exit code ${exitCode}): ${clip(output, 500) || "no output"}` : undefined)
+            || `${framework} did not collect this file; check the runner's include patterns`,
+    });
+    return result;
+}
+
+export function summarizeTestFileRun(run: TestFileRun): TestFileExecution {
+    return {
+        passed: run.tests.filter((t) => t.status === "passed").length,
+        failed: run.tests.filter((t) => t.status === "failed").length,
+        skipped: run.tests.filter((t) => t.status === "skipped").length,
+        error: run.error,
+        failures: run.tests.filter((t) => t.status === "failed"),
+    };
+}
+
+export function hasTestFailures(run: TestFileRun): boolean {
+    return !!run.error || run.tests.some((t) => t.status === "failed");
+}
+
+// Failures of one file as feedback for regenerating it: the load error, or each failed test with its message
+export function describeTestFailures(run: TestFileRun, limit = 10): string {
+    if (run.error) return `${run.testFile} did not run:\n${run.error}`;
+    const failed = run.tests.filter((t) => t.status === "failed");
+    const passed = run.tests.filter((t) => t.status === "passed").length;
+    const lines = failed.slice(0, limit).map((t) => `- ✗ ${t.name}\n  ${(t.message || "").replace(/\n/g, "\n  ")}`);
+    if (failed.length > limit) lines.push(`- … and ${failed.length - limit} more failing test(s)`);
+    return `${run.testFile}: ${failed.length} failing, ${passed} passing\n${lines.join("\n")}`;
+}
@@ -1,16 +1,27 @@
 import { createWorkflow, createStep, cloneWorkflow } from "@mastra/core";
+import type { Step } from "@mastra/core/workflows";
 import z from "zod";
-import { testDockerStep, testDockerGithubCloneStep, postProjectDescriptionStep, postProjectStackStep, dockerSaveContextStep } from "./test/01-docker-test-workflow";
-import { workflowStartStep as gatherStartStep, analyzeRepositoryStep, analyzeCodebaseStep, analyzeBuildDeploymentStep, synthesizeContextStep, gatherSaveContextStep, validateAndReturnStep as gatherValidateAndReturnStep } from "./test/02-gather-context-workflow";
-import { checkSavedPlanStep, loadContextAndPlanStep, generateUnitTestsWorkflow, generateTestCodeStep, finalizeStep } from "./test/03-generate-unit-tests-workflow";
+import { testDockerStep, testDockerGithubCloneStep, provisionSandboxStep, postProjectDescriptionStep, postProjectStackStep, dockerSaveContextStep } from "./test/01-docker-test-workflow";
+import { workflowStartStep as gatherStartStep, checkContextCacheStep, prescanRepositoryStep, buildDependencyGraphStep, analyzeRepositoryStep, analyzeCodebaseStep, analyzeBuildDeploymentStep, synthesizeContextStep, gatherSaveContextStep, validateAndReturnStep as gatherValidateAndReturnStep } from "./test/02-gather-context-workflow";
+import { checkSavedPlanStep, loadContextAndPlanStep, generateUnitTestsWorkflow, generateTestCodeStep, finalizeStep, mutationTestingStep, detectFlakyTestsStep } from "./test/03-generate-unit-tests-workflow";
 import { prepareCommitAndPushStep, createPullRequestStep, postPrUrlStep } from "./test/04-github-pr-workflow";
+import { exportPatchStep } from "./test/04-patch-export-workflow";
 import { runTypescriptVitestCoverageStep, postTestCoverageStep } from "./test/05-test-coverage-workflow";
+import { getResumedStepOutput, getRunCheckout } from "../tools/pipeline-runs";
+import { CloneOptionsSchema } from "../tools/clone-options";
+import { LocalSourceSchema, PatchExportSchema } from "../tools/local-source";
+import { GenerationBudgetSchema } from "../tools/generation-budget";
 
 
 // Input for the pipeline (optional context to seed into the container)
 const PipelineInput = z.object({
     contextData: z.any().optional().describe("Optional context data to save to the container during docker setup"),
-    repositoryUrl: z.string().optional().describe("Optional repository URL or owner/repo format (e.g., 'owner/repo' or 'https://github.com/owner/repo')"),
+    repositoryUrl: z.string().optional().describe("Optional repository URL or owner/repo format (e.g., 'owner/repo', 'https://github.com/owner/repo', 'https://gitlab.com/group/repo' or 'https://bitbucket.org/workspace/repo')"),
+    ref: z.string().optional().describe("Optional branch, tag or 40-character commit SHA to generate tests against"),
+    pullRequestNumber: z.number().int().positive().optional().describe("Optional pull/merge request number; tests are generated against its head and opened against its branch"),
+    cloneOptions: CloneOptionsSchema.optional().describe("Optional clone options for large repositories: depth, sparsePaths, recurseSubmodules, lfs"),
+    source: LocalSourceSchema.optional().describe("Optional host directory or uploaded .tar.gz; copied in instead of cloning, and tests come back as a patch instead of a PR"),
+    generationBudget: GenerationBudgetSchema.optional().describe("Optional limits for test generation: maxFiles, concurrency, maxDurationMs, maxTokens"),
     projectId: z.string().describe("Project ID associated with this workflow run"),
 });
 
@@ -23,37 +34,73 @@ const PipelineOutput = z.object({
     contextPath: z.string().optional(),
     projectId: z.string(),
     prUrl: z.string(),
+    commitSha: z.string().optional(),
+    patch: PatchExportSchema.optional(),
 });
 
+// Delivery depends on where the code came from: git-host runs open a PR, local sources export a patch.
+// Steps of the other mode pass their input through, which keeps the chain linear and every step on the
+// pipeline's runId (nested workflows get a runId of their own, losing the run's token and checkout).
+function onlyFor(mode: "git-host" | "local", step: Step<string, any, any, any, any, any>) {
+    return createStep({
+        ...step,
+        execute: async (params: any) => {
+            const isLocal = !!params.getInitData()?.source;
+            if (isLocal !== (mode === "local")) return params.inputData;
+            return step.execute(params);
+        },
+    } as any);
+}
+
+// On a resumed run, steps that succeeded in the failed attempt replay their saved output instead of running
+function resumable<T extends Step<string, any, any, any, any, any>>(step: T): T {
+    return createStep({
+        ...step,
+        execute: async (params: any) => {
+            const saved = getResumedStepOutput(params.runId, step.id);
+            if (saved !== undefined) return saved;
+            return step.execute(params);
+        },
+    } as any) as unknown as T;
+}
+
 export const fullPipelineWorkflow = createWorkflow({
     id: "full-pipeline-workflow",
     description: "End-to-end pipeline: Docker setup → Context gather → Unit test generation",
     inputSchema: PipelineInput,
     outputSchema: PipelineOutput,
 })
-    .then(testDockerStep)
-    .then(testDockerGithubCloneStep)
-    .parallel([postProjectDescriptionStep as any, postProjectStackStep as any])
-    .then(dockerSaveContextStep)
-    .then(gatherStartStep as any)
-    .parallel([analyzeRepositoryStep as any, analyzeCodebaseStep as any, analyzeBuildDeploymentStep as any])
-    .then(synthesizeContextStep)
-    .then(gatherSaveContextStep)
-    .then(checkSavedPlanStep as any)
-    .then(loadContextAndPlanStep)
-    .then(generateTestCodeStep)
-    .then(finalizeStep as any)
-    // 04 - GitHub PR steps
-    .then(prepareCommitAndPushStep as any)
-    .then(createPullRequestStep as any)
-    .then(postPrUrlStep as any)
-    .then(runTypescriptVitestCoverageStep as any)
-    .then(postTestCoverageStep as any)
+    .then(resumable(testDockerStep) as any)
+    .then(resumable(testDockerGithubCloneStep))
+    .then(resumable(provisionSandboxStep))
+    .parallel([resumable(postProjectDescriptionStep) as any, resumable(postProjectStackStep) as any])
+    .then(resumable(dockerSaveContextStep))
+    .then(resumable(gatherStartStep) as any)
+    // Not replayed on resume: the lookup is cheap and the analyses read its result from run state
+    .then(checkContextCacheStep as any)
+    .then(resumable(prescanRepositoryStep) as any)
+    .then(resumable(buildDependencyGraphStep) as any)
+    .parallel([resumable(analyzeRepositoryStep) as any, resumable(analyzeCodebaseStep) as any, resumable(analyzeBuildDeploymentStep) as any])
+    .then(resumable(synthesizeContextStep))
+    .then(resumable(gatherSaveContextStep))
+    .then(resumable(checkSavedPlanStep) as any)
+    .then(resumable(loadContextAndPlanStep))
+    .then(resumable(generateTestCodeStep))
+    .then(resumable(finalizeStep) as any)
+    .then(resumable(mutationTestingStep) as any)
+    .then(resumable(detectFlakyTestsStep) as any)
+    // 04 - Open a PR on the git host, or export a patch for local sources
+    .then(resumable(onlyFor("local", exportPatchStep)) as any)
+    .then(resumable(onlyFor("git-host", prepareCommitAndPushStep)) as any)
+    .then(resumable(onlyFor("git-host", createPullRequestStep)) as any)
+    .then(resumable(onlyFor("git-host", postPrUrlStep)) as any)
+    .then(resumable(runTypescriptVitestCoverageStep) as any)
+    .then(resumable(postTestCoverageStep) as any)
     .then(createStep({
         id: "full-pipeline-output-normalizer",
         inputSchema: z.any(),
         outputSchema: PipelineOutput,
-        execute: async ({ inputData }) => {
+        execute: async ({ inputData, runId, getStepResult }) => {
             return {
                 result: inputData?.result || "Pipeline completed",
                 success: inputData?.success ?? true,
@@ -62,6 +109,8 @@ export const fullPipelineWorkflow = createWorkflow({
                 contextPath: inputData?.contextPath,
                 projectId: inputData?.projectId || "",
                 prUrl: inputData?.prUrl || "",
+                commitSha: getRunCheckout(runId)?.sha,
+                patch: (getStepResult(exportPatchStep) as any)?.patch,
             };
         },
     }))
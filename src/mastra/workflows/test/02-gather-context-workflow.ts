@@ -7,16 +7,14 @@ import { writeFileSync, unlinkSync, mkdtempSync } from "fs";
 import path from "path";
 import os from "os";
 import { notifyStepStatus } from "../../tools/alert-notifier";
+import { getRunAbortSignal, getRunCheckout, getRunContextCache, markRunContextDegraded, setRunContextCache } from "../../tools/pipeline-runs";
+import { describeSparseScope } from "../../tools/clone-options";
+import { describeScanFacts, scanRepository, type RepoScan } from "../../tools/repo-scanner";
+import { buildDependencyGraph, dependencyGraphPathFor, internalModuleDependencies, saveDependencyGraph } from "../../tools/dependency-graph";
+import { describeIncrementalRefresh, isContextCacheEnabled, lookupRepoContext, reusableSection, saveRepoContext, type ContextSection } from "../../tools/context-cache";
 
 const ALERTS_ONLY = (process.env.ALERTS_ONLY === 'true') || (process.env.LOG_MODE === 'alerts_only') || (process.env.MASTRA_LOG_MODE === 'alerts_only');
 
-// Input schema - what we start with
-const WorkflowInput = z.object({
-    containerId: z.string(),
-    repoPath: z.string().optional(),
-    projectId: z.string().describe("Project ID associated with this workflow run"),
-});
-
 // Repository structure schema
 const RepositoryStructure = z.object({
     type: z.enum(["monorepo", "single-package", "multi-project"]),
@@ -114,6 +112,31 @@ const BuildAndDeployment = z.object({
     }),
 });
 
+// Output of the deterministic pre-scan (tools/repo-scanner.ts)
+const RepoScanSchema = z.object({
+    repository: RepositoryStructure,
+    buildDeploy: BuildAndDeployment,
+    codebase: z.object({
+        external: z.record(z.string()),
+        hasTests: z.boolean(),
+        linting: z.array(z.string()),
+        formatting: z.array(z.string()),
+        hasReadme: z.boolean(),
+        hasApiDocs: z.boolean(),
+    }),
+    fileCount: z.number(),
+});
+
+// Input schema - what we start with
+const WorkflowInput = z.object({
+    containerId: z.string(),
+    repoPath: z.string().optional(),
+    projectId: z.string().describe("Project ID associated with this workflow run"),
+    prescan: RepoScanSchema.optional().describe("Deterministic scan of the checkout; absent on cache hits or when the scan failed"),
+    internalDependencies: z.array(z.object({ from: z.string(), to: z.string(), type: z.string() })).optional()
+        .describe("Module-level imports from the dependency graph; absent when the graph could not be built"),
+});
+
 const RepoContext = z.object({
     repository: RepositoryStructure,
     codebase: CodebaseAnalysis,
@@ -239,7 +262,7 @@ async function callContextAgentForAnalysis<T>(
     const result: any = await agent.generate(prompt, { 
         maxSteps, 
         maxRetries: 3,
-
+        abortSignal: getRunAbortSignal(runId),
     });
     const duration = Date.now() - startTime;
     
@@ -359,6 +382,46 @@ async function withRetryAndAlerts<T>(options: {
     throw lastError instanceof Error ? lastError : new Error('Unknown error');
 }
 
+// Section of the cached RepoContext this run may reuse, if it still matches the current schema
+function cachedSection<T>(runId: string | undefined, section: ContextSection, schema: z.ZodType<T>): T | undefined {
+    const cached = reusableSection(getRunContextCache(runId), section);
+    const parsed = cached === undefined ? undefined : schema.safeParse(normalizeAgentJsonForSchemas(cached));
+    return parsed?.success ? parsed.data : undefined;
+}
+
+// The scan's mechanical fields, and the import graph's internal dependencies, win over what the agent reported
+function withScanFacts(
+    codebase: z.infer<typeof CodebaseAnalysis>,
+    scan?: RepoScan,
+    internal?: z.infer<typeof CodebaseAnalysis>["architecture"]["dependencies"]["internal"],
+): z.infer<typeof CodebaseAnalysis> {
+    if (internal) {
+        codebase = {
+            ...codebase,
+            architecture: { ...codebase.architecture, dependencies: { ...codebase.architecture.dependencies, internal } },
+        };
+    }
+    if (!scan) return codebase;
+    return {
+        ...codebase,
+        architecture: {
+            ...codebase.architecture,
+            dependencies: { ...codebase.architecture.dependencies, external: scan.codebase.external },
+        },
+        codeQuality: {
+            ...codebase.codeQuality,
+            hasTests: scan.codebase.hasTests,
+            linting: scan.codebase.linting,
+            formatting: scan.codebase.formatting,
+            documentation: {
+                ...codebase.codeQuality.documentation,
+                hasReadme: scan.codebase.hasReadme,
+                hasApiDocs: scan.codebase.hasApiDocs,
+            },
+        },
+    };
+}
+
 // Step 1: Comprehensive Repository Analysis
 export const analyzeRepositoryStep = createStep({
     id: "analyze-repository-step",
@@ -372,6 +435,34 @@ export const analyzeRepositoryStep = createStep({
         const { containerId } = inputData;
         const repoPath = (inputData as any).repoPath || '';
         const logger = ALERTS_ONLY ? null : mastra?.getLogger();
+        const cached = cachedSection(runId, "repository", RepositoryStructure);
+        if (cached) {
+            await notifyStepStatus({
+                stepId: "analyze-repository-step",
+                status: "completed",
+                runId,
+                containerId,
+                title: "Analyze repository skipped",
+                subtitle: "Reused from the context cache",
+                toolCallCount: cliToolMetrics.callCount,
+                metadata: { cached: true },
+            });
+            return { containerId, repository: cached, projectId: inputData.projectId };
+        }
+        // Every field of this section is mechanical, so the scan replaces the agent entirely
+        if (inputData.prescan) {
+            await notifyStepStatus({
+                stepId: "analyze-repository-step",
+                status: "completed",
+                runId,
+                containerId,
+                title: "Analyze repository completed",
+                subtitle: `From a scan of ${inputData.prescan.fileCount} files`,
+                toolCallCount: cliToolMetrics.callCount,
+                metadata: { prescan: true },
+            });
+            return { containerId, repository: inputData.prescan.repository, projectId: inputData.projectId };
+        }
         await notifyStepStatus({
             stepId: "analyze-repository-step",
             status: "starting",
@@ -391,6 +482,8 @@ export const analyzeRepositoryStep = createStep({
             runId: runId,
         });
 
+        // Sparse clones: keep the agent inside the checked-out paths
+        const scopeBlock = describeSparseScope(getRunCheckout(runId)?.sparsePaths);
         const prompt = `CRITICAL: Navigate to repository and analyze efficiently. Use docker_exec with containerId='${containerId}'.
 
 MANDATORY WORKFLOW (Execute in exact order):
@@ -423,7 +516,7 @@ FAST ANALYSIS - Return JSON immediately:
     "ignoredPaths": ["node_modules", ".git", "build", "dist"]
   },
   "languages": [{"language": "typescript", "percentage": 90, "fileCount": 20, "mainFiles": ["src/mastra/index.ts"]}]
-}`;
+}${scopeBlock}${describeIncrementalRefresh(getRunContextCache(runId), "repository")}`;
         
         try {
             logger?.info("🤖 Quick repository assessment call", {
@@ -493,6 +586,8 @@ FAST ANALYSIS - Return JSON immediately:
                 toolCallCount: cliToolMetrics.callCount,
             });
 
+            markRunContextDegraded(runId);
+
             logger?.warn("🔄 Using fallback repository structure", {
                 step: "1/6",
                 action: "fallback",
@@ -539,6 +634,21 @@ export const analyzeCodebaseStep = createStep({
         const { containerId } = inputData;
         const repoPath = (inputData as any).repoPath || '';
         const logger = ALERTS_ONLY ? null : mastra?.getLogger();
+        const cached = cachedSection(runId, "codebase", CodebaseAnalysis);
+        if (cached) {
+            await notifyStepStatus({
+                stepId: "analyze-codebase-step",
+                status: "completed",
+                runId,
+                containerId,
+                title: "Analyze codebase skipped",
+                subtitle: "Reused from the context cache",
+                toolCallCount: cliToolMetrics.callCount,
+                metadata: { cached: true },
+            });
+            // The graph is rebuilt on every run, so it is fresher than a cached section
+            return { containerId, codebase: withScanFacts(cached, undefined, inputData.internalDependencies), projectId: inputData.projectId };
+        }
         await notifyStepStatus({
             stepId: "analyze-codebase-step",
             status: "starting",
@@ -557,6 +667,7 @@ export const analyzeCodebaseStep = createStep({
             runId: runId,
         });
 
+        const scopeBlock = describeSparseScope(getRunCheckout(runId)?.sparsePaths);
         const prompt = `FAST codebase scan using docker_exec with containerId='${containerId}'. Focus on speed over completeness.
 
 RAPID WORKFLOW (6 commands max):
@@ -587,7 +698,7 @@ IMMEDIATE JSON RESPONSE:
     "documentation": {"hasReadme": true, "hasApiDocs": false, "codeComments": "minimal"}
   },
   "frameworks": [{"name": "Mastra", "version": "latest", "purpose": "AI workflow framework", "configFiles": ["tsconfig.json"]}]
-}`;
+}${describeScanFacts(inputData.prescan)}${scopeBlock}${describeIncrementalRefresh(getRunContextCache(runId), "codebase")}`;
         
         try {
             logger?.info("🔬 Quick dependency and framework scan", {
@@ -606,7 +717,7 @@ IMMEDIATE JSON RESPONSE:
                 logger,
                 maxAttempts: 3,
                 titleOnRetry: "Analyze codebase retry",
-                attempt: () => callContextAgentForAnalysis(prompt, CodebaseAnalysis, 6, runId, logger),
+                attempt: async () => withScanFacts(await callContextAgentForAnalysis(prompt, CodebaseAnalysis, 6, runId, logger), inputData.prescan, inputData.internalDependencies),
             });
             
             logger?.info("✅ Codebase scan completed efficiently", {
@@ -658,6 +769,8 @@ IMMEDIATE JSON RESPONSE:
                 toolCallCount: cliToolMetrics.callCount,
             });
 
+            markRunContextDegraded(runId);
+
             logger?.warn("🔄 Using fallback codebase structure", {
                 step: "2/6",
                 action: "fallback",
@@ -667,7 +780,7 @@ IMMEDIATE JSON RESPONSE:
 
             return {
                 containerId,
-                codebase: {
+                codebase: withScanFacts({
                     architecture: {
                         pattern: "unknown",
                         entryPoints: [],
@@ -690,7 +803,7 @@ IMMEDIATE JSON RESPONSE:
                         },
                     },
                     frameworks: [],
-                },
+                }, inputData.prescan, inputData.internalDependencies),
                 projectId: inputData.projectId,
             };
         }
@@ -710,6 +823,34 @@ export const analyzeBuildDeploymentStep = createStep({
         const { containerId } = inputData;
         const repoPath = (inputData as any).repoPath || '';
         const logger = ALERTS_ONLY ? null : mastra?.getLogger();
+        const cached = cachedSection(runId, "buildDeploy", BuildAndDeployment);
+        if (cached) {
+            await notifyStepStatus({
+                stepId: "analyze-build-deployment-step",
+                status: "completed",
+                runId,
+                containerId,
+                title: "Analyze build & deployment skipped",
+                subtitle: "Reused from the context cache",
+                toolCallCount: cliToolMetrics.callCount,
+                metadata: { cached: true },
+            });
+            return { containerId, buildDeploy: cached, projectId: inputData.projectId };
+        }
+        // Every field of this section is mechanical, so the scan replaces the agent entirely
+        if (inputData.prescan) {
+            await notifyStepStatus({
+                stepId: "analyze-build-deployment-step",
+                status: "completed",
+                runId,
+                containerId,
+                title: "Analyze build & deployment completed",
+                subtitle: `From a scan of ${inputData.prescan.fileCount} files`,
+                toolCallCount: cliToolMetrics.callCount,
+                metadata: { prescan: true },
+            });
+            return { containerId, buildDeploy: inputData.prescan.buildDeploy, projectId: inputData.projectId };
+        }
         await notifyStepStatus({
             stepId: "analyze-build-deployment-step",
             status: "starting",
@@ -728,6 +869,7 @@ export const analyzeBuildDeploymentStep = createStep({
             runId: runId,
         });
 
+        const scopeBlock = describeSparseScope(getRunCheckout(runId)?.sparsePaths);
         const prompt = `LIGHTNING DevOps scan using docker_exec with containerId='${containerId}'. Maximum 4 commands.
 
 SPEED WORKFLOW:
@@ -761,7 +903,7 @@ INSTANT JSON:
     "deploymentConfigs": [],
     "environmentConfig": {"envFiles": [], "requiredVars": []}
   }
-}`;
+}${scopeBlock}${describeIncrementalRefresh(getRunContextCache(runId), "buildDeploy")}`;
         
         try {
             logger?.info("🚀 Quick build and deployment check", {
@@ -833,6 +975,8 @@ INSTANT JSON:
                 toolCallCount: cliToolMetrics.callCount,
             });
 
+            markRunContextDegraded(runId);
+
             logger?.warn("🔄 Using fallback build deployment structure", {
                 step: "3/6",
                 action: "fallback",
@@ -907,6 +1051,21 @@ export const synthesizeContextStep = createStep({
         const buildDeploy = inputData["analyze-build-deployment-step"].buildDeploy;
         const containerId = inputData["analyze-repository-step"].containerId;
         const logger = ALERTS_ONLY ? null : mastra?.getLogger();
+        // Cache hit: the analyses above were cached too, so the stored synthesis still applies
+        const cachedContext = cachedSection(runId, "insights", RepoContext);
+        if (cachedContext) {
+            await notifyStepStatus({
+                stepId: "synthesize-context-step",
+                status: "completed",
+                runId,
+                containerId,
+                title: "Synthesize context skipped",
+                subtitle: "Reused from the context cache",
+                toolCallCount: cliToolMetrics.callCount,
+                metadata: { cached: true },
+            });
+            return { ...cachedContext, containerId, projectId: inputData["analyze-repository-step"].projectId };
+        }
         await notifyStepStatus({
             stepId: "synthesize-context-step",
             status: "starting",
@@ -1042,6 +1201,8 @@ Return strictly JSON matching this schema:
                 toolCallCount: cliToolMetrics.callCount,
             });
 
+            markRunContextDegraded(runId);
+
             logger?.warn("🔄 Using fallback insights and summary", {
                 step: "4/6",
                 action: "fallback",
@@ -1113,6 +1274,18 @@ export const gatherSaveContextStep = createStep({
         const { containerId, ...repoContextData } = inputData;
         const parsed = RepoContext.parse(repoContextData);
 
+        // Store the validated context for later runs; hits are cached already and fallbacks are not worth keeping
+        const cacheLookup = getRunContextCache(runId);
+        if (cacheLookup && cacheLookup.mode !== "hit" && !cacheLookup.degraded) {
+            await saveRepoContext(cacheLookup, parsed).catch((error) => {
+                logger?.warn("⚠️ Failed to cache repository context", {
+                    error: error instanceof Error ? error.message : 'Unknown error',
+                    type: "WORKFLOW",
+                    runId: runId,
+                });
+            });
+        }
+
         // Enhanced context specifically for unit testing
         const unitTestContext = {
             // Core repository information
@@ -1481,6 +1654,214 @@ export const workflowStartStep = createStep({
     },
 });
 
+// Context cache lookup: a stored RepoContext for this commit lets the analyses below return immediately,
+// one for an older commit lets them refresh only what the changed directories affect
+export const checkContextCacheStep = createStep({
+    id: "check-context-cache-step",
+    inputSchema: WorkflowInput,
+    outputSchema: WorkflowInput,
+    execute: async ({ inputData, mastra, runId }) => {
+        const logger = ALERTS_ONLY ? null : mastra?.getLogger();
+        const { containerId } = inputData;
+        if (!isContextCacheEnabled()) return inputData;
+
+        try {
+            const lookup = await lookupRepoContext({
+                containerId,
+                repoPath: inputData.repoPath,
+                sparsePaths: getRunCheckout(runId)?.sparsePaths,
+            });
+            setRunContextCache(runId, lookup);
+
+            const target = `${lookup.repo}@${lookup.sha.substring(0, 12)}`;
+            const subtitle = lookup.mode === "hit"
+                ? `Cache hit for ${target}`
+                : lookup.mode === "incremental"
+                    ? `${lookup.changedPaths.length} path(s) changed since ${lookup.baseSha?.substring(0, 12)}; refreshing ${lookup.staleSections.join(", ")}`
+                    : `No cached context for ${target}`;
+
+            logger?.info("🗃️ Context cache lookup", {
+                repo: lookup.repo,
+                sha: lookup.sha,
+                mode: lookup.mode,
+                changedPaths: lookup.changedPaths,
+                staleSections: lookup.staleSections,
+                type: "WORKFLOW",
+                runId: runId,
+            });
+
+            await notifyStepStatus({
+                stepId: "check-context-cache-step",
+                status: "completed",
+                runId,
+                containerId,
+                title: "Context cache",
+                subtitle,
+                toolCallCount: cliToolMetrics.callCount,
+                metadata: { mode: lookup.mode, baseSha: lookup.baseSha, changedPaths: lookup.changedPaths, staleSections: lookup.staleSections },
+            });
+        } catch (error) {
+            // The cache only saves time; any failure means a full analysis
+            logger?.warn("⚠️ Context cache lookup failed", {
+                error: error instanceof Error ? error.message : 'Unknown error',
+                type: "WORKFLOW",
+                runId: runId,
+            });
+        }
+
+        return inputData;
+    },
+});
+
+// Deterministic pre-scan: languages, packages, lock files, CI and Docker configs straight from the file tree.
+// The analyses below use it instead of asking the agent to discover the same facts with shell commands.
+export const prescanRepositoryStep = createStep({
+    id: "prescan-repository-step",
+    inputSchema: WorkflowInput,
+    outputSchema: WorkflowInput,
+    execute: async ({ inputData, mastra, runId }) => {
+        const logger = ALERTS_ONLY ? null : mastra?.getLogger();
+        const { containerId } = inputData;
+        // A full cache hit needs no facts
+        if (getRunContextCache(runId)?.mode === "hit") return inputData;
+
+        await notifyStepStatus({
+            stepId: "prescan-repository-step",
+            status: "starting",
+            runId,
+            containerId,
+            title: "Scan repository",
+            subtitle: "Reading file tree and manifests",
+        });
+
+        try {
+            const prescan = await scanRepository(containerId, inputData.repoPath, { sparsePaths: getRunCheckout(runId)?.sparsePaths });
+
+            logger?.info("🗂️ Repository pre-scan completed", {
+                files: prescan.fileCount,
+                repositoryType: prescan.repository.type,
+                languages: prescan.repository.languages.map((l) => l.language),
+                packages: prescan.repository.structure.packages.length,
+                managers: prescan.buildDeploy.packageManagement.managers,
+                type: "WORKFLOW",
+                runId: runId,
+            });
+
+            await notifyStepStatus({
+                stepId: "prescan-repository-step",
+                status: "completed",
+                runId,
+                containerId,
+                title: "Repository scanned",
+                subtitle: `${prescan.fileCount} files, ${prescan.repository.type}, ${prescan.repository.languages[0]?.language || "no source"}`,
+                toolCallCount: cliToolMetrics.callCount,
+                metadata: {
+                    languages: prescan.repository.languages.map(({ language, percentage }) => ({ language, percentage })),
+                    packages: prescan.repository.structure.packages.length,
+                },
+            });
+
+            return { ...inputData, prescan };
+        } catch (error) {
+            // Without a scan the analyses fall back to the agent's own discovery
+            logger?.warn("⚠️ Repository pre-scan failed", {
+                error: error instanceof Error ? error.message : 'Unknown error',
+                type: "WORKFLOW",
+                runId: runId,
+            });
+
+            await notifyStepStatus({
+                stepId: "prescan-repository-step",
+                status: "failed",
+                runId,
+                containerId,
+                title: "Repository scan failed",
+                subtitle: error instanceof Error ? error.message : 'Unknown error',
+                level: 'warning',
+                toolCallCount: cliToolMetrics.callCount,
+            });
+
+            return inputData;
+        }
+    },
+});
+
+// Import graph of the checkout, saved next to agent.context.json for the test planner. Built on cache hits too:
+// the container is new and the planner reads the graph from it.
+export const buildDependencyGraphStep = createStep({
+    id: "build-dependency-graph-step",
+    inputSchema: WorkflowInput,
+    outputSchema: WorkflowInput,
+    execute: async ({ inputData, mastra, runId }) => {
+        const logger = ALERTS_ONLY ? null : mastra?.getLogger();
+        const { containerId } = inputData;
+
+        await notifyStepStatus({
+            stepId: "build-dependency-graph-step",
+            status: "starting",
+            runId,
+            containerId,
+            title: "Build dependency graph",
+            subtitle: "Resolving imports between source files",
+        });
+
+        try {
+            const graph = await buildDependencyGraph(containerId, { repoPath: inputData.repoPath, sparsePaths: getRunCheckout(runId)?.sparsePaths });
+            const graphPath = dependencyGraphPathFor();
+            await saveDependencyGraph(containerId, graph, graphPath);
+
+            logger?.info("🕸️ Dependency graph built", {
+                files: graph.nodes.length,
+                edges: graph.edges.length,
+                cycles: graph.cycles.length,
+                unresolved: graph.unresolved.length,
+                workspaces: Object.keys(graph.workspaces).length,
+                graphPath,
+                type: "WORKFLOW",
+                runId: runId,
+            });
+
+            await notifyStepStatus({
+                stepId: "build-dependency-graph-step",
+                status: "completed",
+                runId,
+                containerId,
+                title: "Dependency graph built",
+                subtitle: `${graph.nodes.length} files, ${graph.edges.length} imports, ${graph.cycles.length} cycles`,
+                toolCallCount: cliToolMetrics.callCount,
+                metadata: {
+                    graphPath,
+                    cycles: graph.cycles.length,
+                    unresolved: graph.unresolved.length,
+                    truncated: graph.truncated,
+                },
+            });
+
+            return { ...inputData, internalDependencies: internalModuleDependencies(graph) };
+        } catch (error) {
+            // The planner falls back to the static analysis ranking alone
+            logger?.warn("⚠️ Dependency graph failed", {
+                error: error instanceof Error ? error.message : 'Unknown error',
+                type: "WORKFLOW",
+                runId: runId,
+            });
+
+            await notifyStepStatus({
+                stepId: "build-dependency-graph-step",
+                status: "failed",
+                runId,
+                containerId,
+                title: "Dependency graph failed",
+                subtitle: error instanceof Error ? error.message : 'Unknown error',
+                level: 'warning',
+                toolCallCount: cliToolMetrics.callCount,
+            });
+
+            return inputData;
+        }
+    },
+});
+
 export const gatherContextWorkflow = createWorkflow({
     id: "gather-context-workflow",
     description: "Ultra-fast parallel repository analysis optimized for unit test generation with context saved to agent.context.json",
@@ -1495,6 +1876,9 @@ export const gatherContextWorkflow = createWorkflow({
     }),
 })
 .then(workflowStartStep)
+.then(checkContextCacheStep)
+.then(prescanRepositoryStep)
+.then(buildDependencyGraphStep)
 .parallel([analyzeRepositoryStep, analyzeCodebaseStep, analyzeBuildDeploymentStep])
 .then(synthesizeContextStep)
 .then(gatherSaveContextStep)
@@ -7,6 +7,16 @@ import { writeFileSync, unlinkSync, mkdtempSync } from "fs";
 import path from "path";
 import os from "os";
 import { notifyStepStatus } from "../../tools/alert-notifier";
+import { getRunAbortSignal, getRunCheckout } from "../../tools/pipeline-runs";
+import { describeSparseScope, isInSparseScope } from "../../tools/clone-options";
+import { analyzeRepositorySources, describeAnalyzedTargets, rankAnalyzedTargets, readContainerFiles, resolveRepoPath, writeContainerFile, type SourceAnalysis } from "../../tools/source-analysis";
+import { boundaryImports, buildDependencyGraph, dependencyGraphPathFor, describeDependencyGraph, fanInByFile, loadDependencyGraph, type DependencyGraph } from "../../tools/dependency-graph";
+import { describeDeterminismFixes, describeRetryCorrections, describeTestPatterns, detectScriptTestFramework, frameworkForFile, frameworkLanguage, normalizeTestFramework, testFilePathFor, type TestFramework } from "../../tools/test-frameworks";
+import { describeTestFailures, hasTestFailures, runGeneratedTests, summarizeTestFileRun, TestFileExecutionSchema, type TestFileRun } from "../../tools/test-runner";
+import { QuarantinedTestSchema, quarantineTestCases, removeTestFile, type QuarantinedTest } from "../../tools/test-quarantine";
+import { describeFlakeRate, describeFlakyTest, detectFlakyTests, FlakinessReportSchema, flakyRunCount, randomSeeds, type FlakinessReport, type FlakyTest } from "../../tools/flaky-tests";
+import { describeMutant, describeMutationScore, mergeMutationReports, MutationReportSchema, MutationSummarySchema, mutantLimit, runMutationTesting, summarizeMutationReports, type MutationReport } from "../../tools/mutation-testing";
+import { createBudgetTracker, GenerationBudgetSchema, resolveGenerationBudget, runWithBudget, type BudgetTracker, type GenerationBudget } from "../../tools/generation-budget";
 
 const ALERTS_ONLY = (process.env.ALERTS_ONLY === 'true') || (process.env.LOG_MODE === 'alerts_only') || (process.env.MASTRA_LOG_MODE === 'alerts_only');
 
@@ -21,6 +31,7 @@ const WorkflowInput = z.object({
     containerId: z.string().describe("Docker container ID where the repository is mounted"),
     contextPath: z.string().optional().default("/app/agent.context.json").describe("Path to the context file"),
     projectId: z.string().describe("Project ID associated with this workflow run"),
+    generationBudget: GenerationBudgetSchema.optional().describe("How many files to generate tests for, in parallel, and within which time/token limits"),
 });
 
 /**
@@ -68,10 +79,15 @@ const CodingTask = z.object({
 const TestFileResult = z.object({
     sourceFile: z.string().describe("Source file that was tested"),
     testFile: z.string().describe("Generated test file path"),
+    framework: z.string().optional().describe("Test framework the file was generated for and is run with"),
     functionsCount: z.number().describe("Number of functions tested"),
     testCasesCount: z.number().describe("Number of test cases generated"),
     success: z.boolean().describe("Whether generation was successful"),
     error: z.string().optional().describe("Error message if generation failed"),
+    skipped: z.boolean().optional().describe("Not attempted because the generation budget ran out"),
+    execution: TestFileExecutionSchema.optional().describe("Outcome of running the file with its test runner"),
+    quarantined: z.array(QuarantinedTestSchema).optional().describe("Failing cases skipped in place, or the file itself if it was removed"),
+    mutation: MutationReportSchema.optional().describe("Mutants planted in the source file and whether this file's tests detected them"),
 });
 
 /**
@@ -86,12 +102,18 @@ const TestGenerationResult = z.object({
         totalTestCases: z.number().describe("Total test cases generated"),
         successfulFiles: z.number().describe("Number of successfully generated test files"),
         failedFiles: z.number().describe("Number of failed test file generations"),
+        skippedFiles: z.number().optional().describe("Number of planned files left out by the generation budget"),
+        passedTests: z.number().optional().describe("Tests that passed when the generated files were run"),
+        failedTests: z.number().optional().describe("Tests that failed when the generated files were run"),
+        quarantinedTests: z.number().optional().describe("Test cases skipped and test files removed by the repair stage"),
     }).describe("Overall generation summary"),
     quality: z.object({
         syntaxValid: z.boolean().describe("Whether generated tests have valid syntax"),
         followsBestPractices: z.boolean().describe("Whether tests follow best practices"),
-        coverageScore: z.number().describe("Estimated test coverage score (0-100)"),
+        coverageScore: z.number().describe("Mutation score of the generated tests (0-100); 0 until mutation testing has run"),
     }).describe("Quality assessment of generated tests"),
+    flakiness: FlakinessReportSchema.optional().describe("Tests that failed in shuffled repeat runs, with their flake rates"),
+    mutation: MutationSummarySchema.optional().describe("Mutants detected by the generated tests, over all mutation-tested files"),
 });
 
 /**
@@ -118,7 +140,8 @@ async function callAgent<T>(
     schema: z.ZodType<T>, 
     maxSteps: number = 1000,
     runId?: string,
-    logger?: any
+    logger?: any,
+    budget?: BudgetTracker
 ): Promise<T> {
     const agent = mastra?.getAgent(agentName);
     if (!agent) {
@@ -137,8 +160,10 @@ async function callAgent<T>(
     const result: any = await agent.generate(prompt, { 
         maxSteps, 
         maxRetries: 3,
+        abortSignal: getRunAbortSignal(runId),
     });
     const duration = Date.now() - startTime;
+    budget?.addTokens(result?.usage?.totalTokens);
     
     const text = (result?.text || "{}").toString();
     
@@ -384,6 +409,78 @@ async function loadPlanResults(containerId: string, logger?: any): Promise<any |
     }
 }
 
+/**
+ * Plan for the highest-ranked files of the static analysis, used when the planner agent fails. Each exported
+ * function gets a success case, one case per thrown error and a rejection case when it is async, and mocks
+ * the file's package imports plus the internal modules it imports across a module boundary.
+ */
+function planFromAnalysis(analyses: SourceAnalysis[], scriptFramework: TestFramework, graph?: DependencyGraph): { repoAnalysis: z.infer<typeof RepoTestAnalysis>; testSpecs: z.infer<typeof TestSpecification>[] } {
+    const testSpecs = analyses.map(analysis => {
+        const functions = analysis.functions
+            .filter(f => f.exported && f.kind !== "constructor")
+            .sort((a, b) => b.complexity - a.complexity)
+            .slice(0, 8);
+        const mockRequirements = [
+            ...analysis.imports.packages.filter(i => !i.typeOnly).map(i => i.module),
+            ...(graph ? boundaryImports(graph, analysis.filePath) : []),
+        ];
+        return {
+            sourceFile: analysis.filePath,
+            functions: functions.map(f => ({
+                name: f.name,
+                testCases: [
+                    `should return the expected result when ${f.name} is called with valid input`,
+                    ...f.throws.map(error => `should throw ${error} when its error condition is met`),
+                    ...(f.async ? [`should reject when an awaited dependency fails`] : []),
+                    ...(f.complexity > 2 ? [`should cover each branch of ${f.name} (complexity ${f.complexity})`] : []),
+                ],
+                ...(mockRequirements.length > 0 ? { mockRequirements } : {}),
+            })),
+        };
+    });
+    return {
+        repoAnalysis: {
+            sourceModules: analyses.map(analysis => ({
+                modulePath: path.posix.dirname(analysis.filePath),
+                sourceFiles: [path.posix.basename(analysis.filePath)],
+                priority: "high" as const,
+                language: analysis.language,
+            })),
+            testingFramework: analyses[0]?.language === "python" ? normalizeTestFramework(undefined, "python") : scriptFramework,
+            testDirectory: "tests",
+            totalFiles: testSpecs.length,
+        },
+        testSpecs,
+    };
+}
+
+const PRIORITY_ORDER = { high: 0, medium: 1, low: 2 } as const;
+
+/**
+ * Keep the planner's specs for the `maxFiles` most important source files: high priority modules first, in
+ * the order the planner listed them. Specs whose file no module lists are ranked as medium priority.
+ */
+function selectPlannedFiles(
+    repoAnalysis: z.infer<typeof RepoTestAnalysis>,
+    testSpecs: z.infer<typeof TestSpecification>[],
+    maxFiles: number,
+): { repoAnalysis: z.infer<typeof RepoTestAnalysis>; testSpecs: z.infer<typeof TestSpecification>[] } {
+    const moduleOf = (spec: z.infer<typeof TestSpecification>) => repoAnalysis.sourceModules.find(m =>
+        m.sourceFiles.some(file => spec.sourceFile === file || spec.sourceFile.endsWith(`/${file.replace(/^\.\//, '')}`)));
+    const seen = new Set<string>();
+    const selected = testSpecs
+        .filter(spec => !seen.has(spec.sourceFile) && seen.add(spec.sourceFile))
+        .map((spec, index) => ({ spec, index, priority: PRIORITY_ORDER[moduleOf(spec)?.priority || "medium"] }))
+        .sort((a, b) => a.priority - b.priority || a.index - b.index)
+        .slice(0, maxFiles)
+        .map(({ spec }) => spec);
+    const modules = repoAnalysis.sourceModules.filter(m => selected.some(spec => moduleOf(spec) === m));
+    return {
+        repoAnalysis: { ...repoAnalysis, sourceModules: modules.length > 0 ? modules : repoAnalysis.sourceModules.slice(0, 1), totalFiles: selected.length },
+        testSpecs: selected,
+    };
+}
+
 // ============================================================================
 // WORKFLOW STEPS
 // ============================================================================
@@ -489,10 +586,11 @@ export const checkSavedPlanStep = createStep({
 });
 
 /**
- * Step 1: Load Context and Plan Testing Strategy (MVP - High Priority Only)
+ * Step 1: Load Context and Plan Testing Strategy
  * 
- * This step loads the repository context and creates a focused testing strategy
- * for ONE high priority module only. Results are saved to static file for fast resume.
+ * This step loads the repository context and creates a testing strategy for the
+ * highest value source files, as many as the generation budget allows (`maxFiles`).
+ * Results are saved to static file for fast resume.
  */
 export const loadContextAndPlanStep = createStep({
     id: "load-context-and-plan-step",
@@ -511,8 +609,9 @@ export const loadContextAndPlanStep = createStep({
         testSpecs: z.array(TestSpecification),
         projectId: z.string(),
     }),
-    execute: async ({ inputData, mastra, runId }) => {
+    execute: async ({ inputData, mastra, runId, getInitData }) => {
         const { containerId, contextPath, repoAnalysis, testSpecs, skipToGeneration } = inputData;
+        const { maxFiles } = resolveGenerationBudget(getInitData()?.generationBudget);
         
         // If we have saved plan, skip this step
         if (skipToGeneration && repoAnalysis && testSpecs) {
@@ -549,7 +648,7 @@ export const loadContextAndPlanStep = createStep({
             runId,
             containerId,
             title: "Load context & plan",
-            subtitle: "Creating MVP plan for tests",
+            subtitle: `Planning tests for up to ${maxFiles} file(s)`,
             projectId: inputData.projectId,
         });
 
@@ -564,6 +663,55 @@ export const loadContextAndPlanStep = createStep({
             runId: runId,
         });
 
+        // Import graph saved by the gather-context workflow, built here when that run did not save one
+        const sparsePaths = getRunCheckout(runId)?.sparsePaths;
+        let graph = await loadDependencyGraph(containerId, dependencyGraphPathFor(contextPath));
+        if (!graph) {
+            try {
+                graph = await buildDependencyGraph(containerId, { sparsePaths });
+            } catch (error) {
+                logger?.warn("⚠️ Dependency graph unavailable", {
+                    step: "1/3",
+                    error: error instanceof Error ? error.message : 'Unknown error',
+                    type: "WORKFLOW_STEP",
+                    runId: runId,
+                });
+            }
+        }
+        const fanIn = fanInByFile(graph);
+
+        // Rank candidate files from the compiler analysis, most imported first; the planner falls back to its own scan without it
+        let analyses: SourceAnalysis[] = [];
+        try {
+            const priority = graph ? [...graph.nodes].sort((a, b) => b.fanIn - a.fanIn).map(n => n.path) : undefined;
+            ({ analyses } = await analyzeRepositorySources(containerId, { sparsePaths, priority }));
+        } catch (error) {
+            logger?.warn("⚠️ Static analysis of source files failed", {
+                step: "1/3",
+                error: error instanceof Error ? error.message : 'Unknown error',
+                type: "WORKFLOW_STEP",
+                runId: runId,
+            });
+        }
+        const analysisBlock = describeAnalyzedTargets(analyses, 15, fanIn);
+        const graphBlock = describeDependencyGraph(graph, rankAnalyzedTargets(analyses, fanIn).map(r => r.analysis.filePath));
+        // Mostly-Python repositories are planned for pytest, the rest for the JS framework the project is configured for
+        let scriptFramework: TestFramework = "vitest";
+        try {
+            scriptFramework = await detectScriptTestFramework(containerId, await resolveRepoPath(containerId)) ?? "vitest";
+        } catch (error) {
+            logger?.warn("⚠️ Test framework detection failed, planning for vitest", {
+                step: "1/3",
+                error: error instanceof Error ? error.message : 'Unknown error',
+                type: "WORKFLOW_STEP",
+                runId: runId,
+            });
+        }
+        const planLanguage = analyses.filter(a => a.language === "python").length > analyses.length / 2 ? "python" : "typescript";
+        const planFramework = planLanguage === "python" ? normalizeTestFramework(undefined, planLanguage) : scriptFramework;
+
+                // Sparse clones: keep the agent inside the checked-out paths
+                const scopeBlock = describeSparseScope(getRunCheckout(runId)?.sparsePaths);
                 const prompt = `CRITICAL: Return ONLY valid JSON. No explanations, no comments.
 
 TASK: Intelligent context analysis and high-priority module testing strategy using docker_exec with containerId='${containerId}'.
@@ -577,14 +725,15 @@ PHASE 1: REPOSITORY DISCOVERY
 4. Identify source code patterns and architecture
 
 PHASE 2: INTELLIGENT MODULE PRIORITIZATION
-5. Analyze source directories and scan for modules: docker_exec find /app/PROJECT_DIR/src -name "*.ts" -type f | head -20
+5. Start from the STATIC ANALYSIS list below when present (paths relative to /app/PROJECT_DIR); otherwise scan for modules: docker_exec find /app/PROJECT_DIR/src -name "*.ts" -type f | head -20
+   For details on a candidate use code_analysis with analysisType='full' (compiler-based for TS/JS)
 6. Evaluate module complexity and testability based on:
    - Core business logic vs utilities
    - External dependency count
    - Function complexity and async patterns
    - Error handling requirements
    - Integration points with other modules
-7. Select the SINGLE highest value module for MVP testing
+7. Select the ${maxFiles} highest value source file(s) for testing (fewer if the repository has fewer worthwhile targets), most valuable first
 
 PHASE 3: COMPREHENSIVE TEST SPECIFICATION
 8. Deep-analyze the selected module: docker_exec cat /app/PROJECT_DIR/[SELECTED_SOURCE_FILE]
@@ -605,7 +754,7 @@ PHASE 3: COMPREHENSIVE TEST SPECIFICATION
 - Prefer modules with external dependencies for comprehensive mocking
 
 🏗️ TESTING ARCHITECTURE REQUIREMENTS:
-- Use vitest framework with TypeScript support
+- Use ${planFramework} framework with ${frameworkLanguage(planFramework)} support
 - Implement separate test directory structure (tests/ parallel to src/)
 - Design for co-located testing patterns when beneficial
 - Plan for comprehensive mocking strategies
@@ -619,16 +768,16 @@ RETURN FORMAT (JSON only - comprehensive analysis):
         "modulePath": "[ANALYZED_MODULE_PATH]",
         "sourceFiles": ["[SELECTED_HIGH_VALUE_FILE]"],
         "priority": "high",
-        "language": "typescript",
+        "language": "${planLanguage}",
         "complexity": "medium|high",
         "testability": "excellent|good",
         "businessValue": "core|important|utility",
         "dependencyCount": [NUMBER_OF_EXTERNAL_DEPS]
       }
     ],
-    "testingFramework": "vitest",
+    "testingFramework": "${planFramework}",
     "testDirectory": "tests",
-    "totalFiles": 1,
+    "totalFiles": [NUMBER_OF_SELECTED_FILES],
     "selectionReason": "[WHY_THIS_MODULE_WAS_CHOSEN]"
   },
   "testSpecs": [
@@ -653,52 +802,50 @@ RETURN FORMAT (JSON only - comprehensive analysis):
       "estimatedTestCount": [REALISTIC_TEST_COUNT]
     }
   ]
-}`;
+}${analysisBlock}${graphBlock}${scopeBlock}`;
 
         try {
             const result = await callAgent("unitTestAgent", prompt, z.object({
                 repoAnalysis: RepoTestAnalysis,
                 testSpecs: z.array(TestSpecification),
             }), 1000, runId, logger);
-            
-            // Filter to ensure only high priority modules
-            const highPriorityModules = result.repoAnalysis.sourceModules.filter(m => m.priority === 'high');
-            if (highPriorityModules.length === 0) {
-                // Make the first module high priority if none found
-                if (result.repoAnalysis.sourceModules.length > 0) {
-                    result.repoAnalysis.sourceModules[0].priority = 'high';
-                    highPriorityModules.push(result.repoAnalysis.sourceModules[0]);
+
+            // Drop anything the planner picked outside the sparse checkout
+            const sparsePaths = getRunCheckout(runId)?.sparsePaths;
+            if (sparsePaths && sparsePaths.length > 0) {
+                result.repoAnalysis.sourceModules = result.repoAnalysis.sourceModules
+                    .map(m => ({ ...m, sourceFiles: m.sourceFiles.filter(f => isInSparseScope(f, sparsePaths)) }))
+                    .filter(m => m.sourceFiles.length > 0);
+                result.testSpecs = result.testSpecs.filter(spec => isInSparseScope(spec.sourceFile, sparsePaths));
+                if (result.testSpecs.length === 0 || result.repoAnalysis.sourceModules.length === 0) {
+                    throw new Error(`Planner selected no source files inside the sparse checkout (${sparsePaths.join(', ')})`);
                 }
             }
             
-            // Keep only the first high priority module for MVP
-            const mvpAnalysis = {
-                ...result.repoAnalysis,
-                sourceModules: [highPriorityModules[0]],
-                totalFiles: 1,
-            };
-            
-            // Filter test specs to match the selected module
-            const mvpTestSpecs = result.testSpecs.filter(spec => 
-                highPriorityModules[0].sourceFiles.some(file => 
-                    spec.sourceFile.includes(file.replace('.ts', '').replace('.js', ''))
-                )
-            );
+            // Generation only knows the frameworks in test-frameworks.ts; script files keep the detected one
+            const plannedFramework = normalizeTestFramework(result.repoAnalysis.testingFramework, result.repoAnalysis.sourceModules[0]?.language);
+            result.repoAnalysis.testingFramework = plannedFramework === "pytest" ? plannedFramework : scriptFramework;
+
+            // Keep the most important files the budget allows, high priority modules first
+            const plan = selectPlannedFiles(result.repoAnalysis, result.testSpecs, maxFiles);
+            if (plan.testSpecs.length === 0) {
+                throw new Error("Planner returned no test specifications");
+            }
             
-            logger?.info("✅ Step 1/3: MVP plan created for high priority module", {
+            logger?.info("✅ Step 1/3: Plan created", {
                 step: "1/3",
-                selectedModule: highPriorityModules[0].modulePath,
-                sourceFiles: highPriorityModules[0].sourceFiles,
-                testSpecs: mvpTestSpecs.length,
-                testingFramework: mvpAnalysis.testingFramework,
+                selectedModules: plan.repoAnalysis.sourceModules.map(m => m.modulePath),
+                sourceFiles: plan.testSpecs.map(spec => spec.sourceFile),
+                maxFiles,
+                testingFramework: plan.repoAnalysis.testingFramework,
                 type: "WORKFLOW_STEP",
                 runId: runId,
             });
 
             // Save plan results to static file for fast resume
             const planData = {
-                repoAnalysis: mvpAnalysis,
-                testSpecs: mvpTestSpecs,
+                repoAnalysis: plan.repoAnalysis,
+                testSpecs: plan.testSpecs,
                 timestamp: new Date().toISOString(),
                 version: "mvp-1.0"
             };
@@ -710,7 +857,7 @@ RETURN FORMAT (JSON only - comprehensive analysis):
                 runId,
                 containerId,
                 title: "Load context & plan completed",
-                subtitle: `MVP plan created for ${highPriorityModules[0].modulePath}`,
+                subtitle: `Plan created for ${plan.testSpecs.length} file(s) in ${plan.repoAnalysis.sourceModules.map(m => m.modulePath).join(', ')}`,
                 toolCallCount: cliToolMetrics.callCount,
                 projectId: inputData.projectId,
             });
@@ -718,8 +865,8 @@ RETURN FORMAT (JSON only - comprehensive analysis):
             return {
                 containerId,
                 contextPath,
-                repoAnalysis: mvpAnalysis,
-                testSpecs: mvpTestSpecs,
+                repoAnalysis: plan.repoAnalysis,
+                testSpecs: plan.testSpecs,
                 projectId: inputData.projectId,
             };
         } catch (error) {
@@ -749,7 +896,7 @@ RETURN FORMAT (JSON only - comprehensive analysis):
                         businessValue: "core" as const,
                         dependencyCount: 2,
                     }],
-                testingFramework: "vitest",
+                testingFramework: scriptFramework,
                 testDirectory: "tests",
                     totalFiles: 1,
                     selectionReason: "CLI tool selected as fallback - core utility with external dependencies suitable for comprehensive testing",
@@ -775,6 +922,10 @@ RETURN FORMAT (JSON only - comprehensive analysis):
                 estimatedTestCount: 6,
             }];
 
+            // Prefer the top-ranked files of the static analysis over the canned plan
+            const topTargets = rankAnalyzedTargets(analyses, fanIn).slice(0, maxFiles).map(r => r.analysis);
+            const analysisPlan = topTargets.length > 0 ? planFromAnalysis(topTargets, scriptFramework, graph) : undefined;
+
             await notifyStepStatus({
                 stepId: "load-context-and-plan-step",
                 status: "failed",
@@ -794,7 +945,7 @@ RETURN FORMAT (JSON only - comprehensive analysis):
                 runId,
                 containerId,
                 title: "Load context & plan completed",
-                subtitle: "Using fallback MVP plan",
+                subtitle: analysisPlan ? `Using fallback plan for ${topTargets.map(a => a.filePath).join(', ')} from static analysis` : "Using fallback MVP plan",
                 level: 'warning',
                 toolCallCount: cliToolMetrics.callCount,
                 projectId: inputData.projectId,
@@ -803,8 +954,8 @@ RETURN FORMAT (JSON only - comprehensive analysis):
             return {
                 containerId,
                 contextPath,
-                repoAnalysis: fallbackAnalysis,
-                testSpecs: fallbackTestSpecs,
+                repoAnalysis: analysisPlan?.repoAnalysis || fallbackAnalysis,
+                testSpecs: analysisPlan?.testSpecs || fallbackTestSpecs,
                 projectId: inputData.projectId,
             };
         }
@@ -812,7 +963,9 @@ RETURN FORMAT (JSON only - comprehensive analysis):
 });
 
 /**
- * Helper function to retry test generation with error feedback
+ * Helper function to retry test generation with error feedback. Only the failing files are regenerated:
+ * the keys of `failures` (test file → what its test run reported), otherwise the failed (not skipped) files
+ * of `previous`, otherwise every spec. Their results replace the earlier ones; files that already passed keep theirs.
  */
 async function retryTestGeneration(
     containerId: string,
@@ -824,37 +977,45 @@ async function retryTestGeneration(
     projectId: string,
     contextPath: string | undefined,
     runId?: string,
-    logger?: any
+    logger?: any,
+    previous?: z.infer<typeof TestGenerationResult>,
+    failures?: Record<string, string>,
+    generationBudget?: GenerationBudget
 ): Promise<z.infer<typeof UnitTestResult> & { projectId: string; containerId: string; contextPath?: string }> {
     if (testSpecs.length === 0) {
         throw new Error("Cannot retry test generation without test specifications");
     }
 
+    const tasks = buildCodingTasks(repoAnalysis, testSpecs);
+    const failedEarlier = new Set((previous?.testFiles || []).filter(f => !f.success && !f.skipped).map(f => f.testFile));
+    const named = tasks.filter(t => failures?.[t.testFile] !== undefined);
+    const retryTasks = named.length > 0 ? named : failedEarlier.size > 0 ? tasks.filter(t => failedEarlier.has(t.testFile)) : tasks;
+
     logger?.info("🔄 Initiating test generation retry with error feedback", {
         retryCount,
-        hasErrorFeedback: !!errorFeedback,
+        hasErrorFeedback: !!errorFeedback || named.length > 0,
+        testFiles: retryTasks.map(t => t.testFile),
         type: "RETRY_GENERATION",
         runId: runId,
     });
 
-    const testSpec = testSpecs[0];
-    const sourceFile = testSpec.sourceFile;
-    const testFile = sourceFile
-        .replace(/^src\//, `${repoAnalysis.testDirectory}/`)
-        .replace(/\.ts$/, '.test.ts');
+    const retryFile = async (task: z.infer<typeof CodingTask>, budget: BudgetTracker): Promise<z.infer<typeof TestFileResult> & { correctionsMade?: string }> => {
+        const { sourceFile, testFile, testSpec } = task;
+        const framework = frameworkForFile(sourceFile, task.framework);
 
-    const retryPrompt = `CRITICAL: Return ONLY valid JSON. No explanations, no comments.
+        const retryPrompt = `CRITICAL: Return ONLY valid JSON. No explanations, no comments.
 
 TASK: RETRY test generation with error feedback and corrections using docker_exec with containerId='${containerId}'.
 
 🚨 RETRY ATTEMPT ${retryCount} 🚨
 
-PREVIOUS ERROR FEEDBACK:
-${errorFeedback || 'No specific error feedback available'}
+${failures?.[testFile] ? `TEST RUN FAILURES (${testFile} was executed with ${framework}; fix every failing test below):
+${failures[testFile]}` : `PREVIOUS ERROR FEEDBACK:
+${errorFeedback || 'No specific error feedback available'}`}
 
 SOURCE FILE: ${sourceFile}
 TEST FILE: ${testFile}
-FRAMEWORK: ${repoAnalysis.testingFramework}
+FRAMEWORK: ${framework}
 
 🔧 ERROR-DRIVEN CORRECTION WORKFLOW:
 
@@ -862,16 +1023,12 @@ PHASE 1: ERROR ANALYSIS & DISCOVERY
 1. Find project directory: docker_exec ls -la /app/ | grep "^d" | grep -v "\\." | awk '{print $NF}' | head -1
 2. Read source file thoroughly: docker_exec cat /app/PROJECT_DIR/${sourceFile}
 3. Check existing test file (if any): docker_exec cat /app/PROJECT_DIR/${testFile} 2>/dev/null || echo "NO_EXISTING_TEST"
-4. Analyze the specific error patterns from feedback
+4. Analyze the specific error patterns from feedback (only those concerning ${testFile} apply)
 5. Identify root causes (syntax, imports, mocking, types, etc.)
 
 PHASE 2: TARGETED ERROR CORRECTION
 6. Based on error feedback, apply specific fixes:
-   - If syntax errors: Fix TypeScript compilation issues
-   - If import errors: Correct import paths and module references
-   - If mocking errors: Fix vi.mock configurations and typing
-   - If execution errors: Fix async/await patterns and assertions
-   - If dependency errors: Ensure proper external dependency handling
+${describeRetryCorrections(framework)}
 
 PHASE 3: ENHANCED TEST GENERATION
 7. Ensure directory exists using file tool: file_operations create_dir with filePath "/app/PROJECT_DIR/$(dirname ${testFile})"
@@ -880,8 +1037,8 @@ PHASE 3: ENHANCED TEST GENERATION
 MANDATORY ERROR-CORRECTED PATTERNS:
 - Fix ALL syntax issues identified in error feedback
 - Correct import statements based on actual source analysis
-- Fix mocking configurations with proper vi.mock syntax
-- Ensure proper TypeScript typing throughout
+- Fix mocking configurations with proper ${framework} mocking syntax
+- Ensure proper ${frameworkLanguage(framework)} typing throughout
 - Fix async/await patterns if Promise-related errors occurred
 - Correct assertion patterns and test structure
 - Address any framework-specific issues
@@ -900,6 +1057,7 @@ PHASE 4: VERIFICATION WITH ERROR PREVENTION
 
 🎯 RETRY-SPECIFIC REQUIREMENTS:
 - MUST directly address each error mentioned in feedback
+- When a failing assertion contradicts what the source actually does, correct the expectation to the source's behaviour
 - MUST improve upon the previous attempt substantially
 - MUST ensure syntax validity and proper imports
 - MUST fix any mocking or dependency issues from feedback
@@ -913,6 +1071,7 @@ PHASE 4: VERIFICATION WITH ERROR PREVENTION
 - MUST analyze and fix ALL errors from feedback
 - MUST actually write corrected content to disk
 - MUST verify the file exists and has substantial content
+- Only create or modify ${testFile}; other test files are handled separately
 - Tests must be sophisticated, corrected, and executable
 - THE FILE MUST BE PHYSICALLY SAVED, READABLE, AND ERROR-FREE
 
@@ -926,115 +1085,91 @@ RETURN FORMAT (JSON only - MUST return accurate counts after corrections):
   "correctionsMade": "[SUMMARY_OF_CORRECTIONS_APPLIED]"
 }`;
 
-    try {
-        const retryResult = await callAgent("unitTestAgent", retryPrompt, z.object({
-            sourceFile: z.string(),
-            testFile: z.string(),
-            functionsCount: z.number(),
-            testCasesCount: z.number(),
-            success: z.boolean(),
-            error: z.string().optional(),
-            correctionsMade: z.string().optional(),
-        }), 700, runId, logger); // More steps for retry with corrections
-
-        logger?.info("✅ Retry test generation completed", {
-            retryCount,
-            success: retryResult.success,
-            testFile: retryResult.testFile,
-            functionsCount: retryResult.functionsCount,
-            testCasesCount: retryResult.testCasesCount,
-            correctionsMade: retryResult.correctionsMade?.substring(0, 100),
-            type: "RETRY_GENERATION",
-            runId: runId,
-        });
-
-        // Create test generation result for retry
-        const retryTestGeneration: z.infer<typeof TestGenerationResult> = {
-            testFiles: [retryResult],
-            summary: {
-                totalSourceFiles: 1,
-                totalTestFiles: retryResult.success ? 1 : 0,
-                totalFunctions: retryResult.functionsCount,
-                totalTestCases: retryResult.testCasesCount,
-                successfulFiles: retryResult.success ? 1 : 0,
-                failedFiles: retryResult.success ? 0 : 1,
-            },
-            quality: {
-                syntaxValid: retryResult.success,
-                followsBestPractices: retryResult.success,
-                coverageScore: retryResult.success ? 80 : 0,
-            },
-        };
-
-        // Return the retry test generation result (let finalize step handle final processing)
-        return {
-            result: retryResult.success 
-                ? `✅ Test generation retry ${retryCount} successful: ${retryResult.testFile} created`
-                : `❌ Test generation retry ${retryCount} failed`,
-            success: retryResult.success,
-            toolCallCount: cliToolMetrics.callCount,
-            testGeneration: retryTestGeneration,
-            recommendations: [
-                `Retry attempt ${retryCount} completed with ${retryResult.success ? 'success' : 'failure'}`,
-                ...(retryResult.correctionsMade ? [`Corrections applied: ${retryResult.correctionsMade}`] : []),
-                "Review error feedback and consider manual intervention if retries continue to fail"
-            ],
-            projectId: projectId,
-            containerId,
-            contextPath,
-        };
+        try {
+            const retryResult = await callAgent("unitTestAgent", retryPrompt, z.object({
+                sourceFile: z.string(),
+                testFile: z.string(),
+                functionsCount: z.number(),
+                testCasesCount: z.number(),
+                success: z.boolean(),
+                error: z.string().optional(),
+                correctionsMade: z.string().optional(),
+            }), 700, runId, logger, budget); // More steps for retry with corrections
 
-    } catch (error) {
-        logger?.error("❌ Retry test generation failed", {
-            retryCount,
-            error: error instanceof Error ? error.message : 'Unknown error',
-            type: "RETRY_GENERATION",
-            runId: runId,
-        });
+            logger?.info("✅ Retry test generation completed", {
+                retryCount,
+                success: retryResult.success,
+                testFile: retryResult.testFile,
+                functionsCount: retryResult.functionsCount,
+                testCasesCount: retryResult.testCasesCount,
+                correctionsMade: retryResult.correctionsMade?.substring(0, 100),
+                type: "RETRY_GENERATION",
+                runId: runId,
+            });
 
-        // Return failed result for retry
-        const failedRetryResult = {
-            sourceFile,
-            testFile,
-            functionsCount: 0,
-            testCasesCount: 0,
-            success: false,
-            error: error instanceof Error ? error.message : 'Unknown error',
-        };
+            return { ...retryResult, sourceFile, testFile, framework };
+        } catch (error) {
+            logger?.error("❌ Retry test generation failed", {
+                retryCount,
+                testFile,
+                error: error instanceof Error ? error.message : 'Unknown error',
+                type: "RETRY_GENERATION",
+                runId: runId,
+            });
 
-        const failedTestGeneration: z.infer<typeof TestGenerationResult> = {
-            testFiles: [failedRetryResult],
-            summary: {
-                totalSourceFiles: 1,
-                totalTestFiles: 0,
-                totalFunctions: 0,
-                totalTestCases: 0,
-                successfulFiles: 0,
-                failedFiles: 1,
-            },
-            quality: {
-                syntaxValid: false,
-                followsBestPractices: false,
-                coverageScore: 0,
-            },
-        };
+            return {
+                sourceFile,
+                testFile,
+                framework,
+                functionsCount: 0,
+                testCasesCount: 0,
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    };
+
+    const budget = resolveGenerationBudget(generationBudget);
+    const tracker = createBudgetTracker(budget);
+    const retried = await runWithBudget<z.infer<typeof CodingTask>, z.infer<typeof TestFileResult> & { correctionsMade?: string }>(
+        retryTasks,
+        budget.concurrency,
+        tracker,
+        task => retryFile(task, tracker),
+        (task, reason) => skippedResult(task, reason),
+        getRunAbortSignal(runId),
+    );
 
-        // Return failed retry result (let finalize step handle final processing)
-        return {
-            result: `❌ Test generation retry ${retryCount} failed with error`,
-            success: false,
-            toolCallCount: cliToolMetrics.callCount,
-            testGeneration: failedTestGeneration,
-            recommendations: [
-                `Retry attempt ${retryCount} failed with error: ${failedRetryResult.error}`,
-                "Review error patterns and consider manual test creation",
-                "Check Docker container and dependency availability"
-            ],
-            projectId: projectId,
-            containerId,
-            contextPath,
-        };
-    }
+    // Retried files replace their earlier results; the rest are carried over
+    const byTestFile = new Map(retried.map(({ correctionsMade, ...result }) => [result.testFile, result]));
+    const earlier = previous?.testFiles || [];
+    const testFiles = [
+        ...earlier.map(f => byTestFile.get(f.testFile) || f),
+        ...[...byTestFile.values()].filter(r => !earlier.some(f => f.testFile === r.testFile)),
+    ];
+    const retryTestGeneration = summarizeGeneration(testFiles);
+    const success = retryTestGeneration.summary.successfulFiles > 0 && retried.every(r => r.success);
+    const failed = retried.filter(r => !r.success);
+    const corrections = retried.filter(r => r.correctionsMade).map(r => `${r.testFile}: ${r.correctionsMade}`);
+
+    // Return the retry test generation result (let finalize step handle final processing)
+    return {
+        result: success
+            ? `✅ Test generation retry ${retryCount} successful: ${retried.map(r => r.testFile).join(', ')} regenerated`
+            : `❌ Test generation retry ${retryCount} failed for ${failed.map(r => r.testFile).join(', ')}`,
+        success,
+        toolCallCount: cliToolMetrics.callCount,
+        testGeneration: retryTestGeneration,
+        recommendations: [
+            `Retry attempt ${retryCount} completed: ${retried.length - failed.length}/${retried.length} file(s) regenerated`,
+            ...corrections.map(c => `Corrections applied to ${c}`),
+            ...failed.map(r => `Retry failed for ${r.testFile}: ${r.error || 'unknown error'}`),
+            "Review error feedback and consider manual intervention if retries continue to fail"
+        ],
+        projectId: projectId,
+        containerId,
+        contextPath,
+    };
 }
 
 /**
@@ -1073,160 +1208,481 @@ Instructions:
 // Removed complex manager-worker step (was commented-out) to prevent nested comment issues.
 
 /**
- * Step 2: Simple Test Generation (MVP Validation)
- * 
- * Basic step that generates a simple test file using unitTestAgent with minimal reasoning
- * to validate that the workflow works before implementing complex features.
+ * One coding task per planned source file, in plan order
  */
-export const generateTestCodeStep = createStep({
-    id: "generate-test-code-step",
-    inputSchema: z.object({
-        containerId: z.string(),
-        contextPath: z.string(),
-        repoAnalysis: RepoTestAnalysis,
-        testSpecs: z.array(TestSpecification),
-        projectId: z.string(),
-    }),
-    outputSchema: z.object({
-        containerId: z.string(),
-        contextPath: z.string().optional(),
-        testGeneration: TestGenerationResult,
-        repoAnalysis: RepoTestAnalysis,
-        testSpecs: z.array(TestSpecification),
-        projectId: z.string(),
-    }),
-    execute: async ({ inputData, mastra, runId }) => {
-        const { containerId, repoAnalysis, testSpecs } = inputData;
-        const logger = mastra?.getLogger();
-        
-        logger?.info("🧪 Step 2/3: Simple test generation (MVP validation)", {
-            step: "2/3",
-            stepName: "Simple Test Generation",
-            sourceFile: testSpecs[0]?.sourceFile || "unknown",
-            framework: repoAnalysis.testingFramework,
-            type: "WORKFLOW_STEP",
+function buildCodingTasks(
+    repoAnalysis: z.infer<typeof RepoTestAnalysis>,
+    testSpecs: z.infer<typeof TestSpecification>[],
+): z.infer<typeof CodingTask>[] {
+    return testSpecs.map((testSpec, index) => {
+        const framework = frameworkForFile(testSpec.sourceFile, repoAnalysis.testingFramework);
+        const module = repoAnalysis.sourceModules.find(m => m.sourceFiles.some(file => testSpec.sourceFile.endsWith(file)));
+        return {
+            taskId: `task-${index + 1}`,
+            agentId: "unitTestAgent",
+            sourceFile: testSpec.sourceFile,
+            // e.g. src/mastra/tools/cli-tool.ts -> tests/mastra/tools/cli-tool.test.ts, app/util.py -> tests/app/test_util.py
+            testFile: testFilePathFor(testSpec.sourceFile, repoAnalysis.testDirectory, framework),
+            testSpec,
+            priority: module?.priority || "medium",
+            framework,
+        };
+    });
+}
+
+/**
+ * Per-file results rolled up into the generation result. Skipped files count toward neither successes nor
+ * failures; the coverage score stays 0 until mutation testing measures it.
+ */
+function summarizeGeneration(testFiles: z.infer<typeof TestFileResult>[]): z.infer<typeof TestGenerationResult> {
+    const attempted = testFiles.filter(f => !f.skipped);
+    const successful = attempted.filter(f => f.success);
+    const skippedFiles = testFiles.length - attempted.length;
+    const quarantinedTests = testFiles.reduce((sum, f) => sum + (f.quarantined?.length || 0), 0);
+    return {
+        testFiles,
+        summary: {
+            totalSourceFiles: testFiles.length,
+            totalTestFiles: successful.length,
+            totalFunctions: successful.reduce((sum, f) => sum + f.functionsCount, 0),
+            totalTestCases: successful.reduce((sum, f) => sum + f.testCasesCount, 0),
+            successfulFiles: successful.length,
+            failedFiles: attempted.length - successful.length,
+            ...(skippedFiles > 0 ? { skippedFiles } : {}),
+            ...(quarantinedTests > 0 ? { quarantinedTests } : {}),
+        },
+        quality: {
+            syntaxValid: successful.length > 0 && successful.length === attempted.length,
+            followsBestPractices: successful.length > 0 && successful.length === attempted.length,
+            coverageScore: 0,
+        },
+    };
+}
+
+// Framework a generated file runs with: the one it was generated for, else the plan's
+function testFrameworkOf(file: { sourceFile: string; framework?: string }, testingFramework?: string): TestFramework {
+    return frameworkForFile(file.sourceFile, file.framework || testingFramework);
+}
+
+/**
+ * Run every generated test file with its framework's runner (one invocation per framework) and record each
+ * file's outcome and the test totals on the generation result. A runner that produced no report at all leaves
+ * its files unexecuted and is returned in `runnerErrors`; quality then keeps the generation assessment.
+ */
+async function executeGeneratedTests(
+    containerId: string,
+    testGeneration: z.infer<typeof TestGenerationResult>,
+    testingFramework: string | undefined,
+    runId?: string,
+    logger?: any
+): Promise<{ testGeneration: z.infer<typeof TestGenerationResult>; runs: TestFileRun[]; runnerErrors: string[] }> {
+    const byFramework = new Map<TestFramework, string[]>();
+    for (const file of testGeneration.testFiles.filter(f => f.success)) {
+        const framework = testFrameworkOf(file, testingFramework);
+        byFramework.set(framework, [...(byFramework.get(framework) || []), file.testFile]);
+    }
+
+    const repoPath = await resolveRepoPath(containerId);
+    const runs: TestFileRun[] = [];
+    const runnerErrors: string[] = [];
+    for (const [framework, files] of byFramework) {
+        const run = await runGeneratedTests(containerId, repoPath, framework, files);
+        logger?.info("🧪 Test run finished", {
+            framework,
+            command: run.command,
+            exitCode: run.exitCode,
+            durationMs: run.durationMs,
+            files: run.files.length,
+            error: run.error?.substring(0, 200),
+            type: "TEST_EXECUTION",
             runId: runId,
         });
+        if (run.error) runnerErrors.push(run.error);
+        else runs.push(...run.files);
+    }
 
-        const testSpec = testSpecs[0];
-        if (!testSpec) {
-            throw new Error("No test specification available");
+    const runByFile = new Map(runs.map(run => [run.testFile, run]));
+    const testFiles = testGeneration.testFiles.map(({ execution, ...file }): z.infer<typeof TestFileResult> => {
+        const run = file.success ? runByFile.get(file.testFile) : undefined;
+        return run ? { ...file, execution: summarizeTestFileRun(run) } : file;
+    });
+    const executed = testFiles.filter(f => f.execution);
+    const passedTests = executed.reduce((sum, f) => sum + f.execution!.passed, 0);
+    const failedTests = executed.reduce((sum, f) => sum + f.execution!.failed, 0);
+    const allLoaded = executed.every(f => !f.execution!.error);
+    const allPassing = allLoaded && failedTests === 0;
+
+    return {
+        testGeneration: {
+            ...testGeneration,
+            testFiles,
+            summary: { ...testGeneration.summary, ...(executed.length > 0 ? { passedTests, failedTests } : {}) },
+            quality: executed.length > 0
+                ? { syntaxValid: allLoaded, followsBestPractices: allPassing, coverageScore: testGeneration.quality.coverageScore }
+                : testGeneration.quality,
+        },
+        runs,
+        runnerErrors,
+    };
+}
+
+/**
+ * Rewrite asking the agent to fix only the failing cases of one test file, leaving its passing tests untouched
+ */
+function failingCasesRewrite(task: z.infer<typeof CodingTask>, run: TestFileRun): TestRewrite {
+    const framework = frameworkForFile(task.sourceFile, task.framework);
+    return {
+        sourceFile: task.sourceFile,
+        testFile: task.testFile,
+        framework,
+        task: "REPAIR the failing test cases of one test file",
+        findings: `The file was run with ${framework}. Only these test cases fail; every other test in the file passes and MUST stay exactly as it is:
+${describeTestFailures(run)}`,
+        instructions: `For each failing test only, decide from the source what it actually does:
+   - If its setup or mocking is wrong, fix the setup
+   - If its expectation contradicts the source's actual behaviour, assert the actual behaviour
+   - If it cannot pass without changing the source, leave it unchanged`,
+        keep: "changing only the failing tests and keeping their names",
+        reports: "CHANGED",
+    };
+}
+
+/**
+ * Repair stage after the retries: what still fails is isolated per test case. Failing cases get one targeted
+ * rewrite, undone for a file the rewrite stops from loading; cases that still fail are then marked skipped
+ * with a TODO, and files that do not load, or whose failing cases cannot be located, are removed, so only a
+ * green suite reaches the PR. Returns the result of the last test run and the cases the rewrite fixed.
+ */
+async function repairFailingTests(
+    containerId: string,
+    testGeneration: z.infer<typeof TestGenerationResult>,
+    runs: TestFileRun[],
+    repoAnalysis: z.infer<typeof RepoTestAnalysis>,
+    testSpecs: z.infer<typeof TestSpecification>[],
+    runId?: string,
+    logger?: any,
+    generationBudget?: GenerationBudget
+): Promise<{ testGeneration: z.infer<typeof TestGenerationResult>; runs: TestFileRun[]; runnerErrors: string[]; repaired: string[] }> {
+    let current = testGeneration;
+    const failing = runs.filter(hasTestFailures);
+    const repaired: string[] = [];
+
+    // 1. One targeted rewrite per file whose failures are individual test cases
+    const tasks = buildCodingTasks(repoAnalysis, testSpecs).filter(t => failing.some(run => run.testFile === t.testFile && !run.error));
+    if (tasks.length > 0) {
+        // A rewrite that no longer loads goes back to what it was, so only its failing cases get quarantined
+        const { execution } = await applyTestRewrites({
+            containerId,
+            testGeneration: current,
+            testingFramework: repoAnalysis.testingFramework,
+            rewrites: tasks.map(task => failingCasesRewrite(task, failing.find(run => run.testFile === task.testFile)!)),
+            generationBudget,
+            logType: "TEST_REPAIR",
+            runId,
+            logger,
+        });
+        if (execution.runnerErrors.length > 0) return { ...execution, repaired };
+        for (const before of failing) {
+            const after = execution.runs.find(run => run.testFile === before.testFile);
+            const stillFailing = new Set(after?.tests.filter(t => t.status === "failed").map(t => t.name));
+            if (!after?.error) repaired.push(...before.tests.filter(t => t.status === "failed" && !stillFailing.has(t.name)).map(t => `${before.testFile} › ${t.name}`));
         }
+        current = execution.testGeneration;
+        runs = execution.runs;
+    }
 
-        const sourceFile = testSpec.sourceFile;
-        // Convert src/mastra/tools/cli-tool.ts to tests/mastra/tools/cli-tool.test.ts (project-agnostic)
-        const testFile = sourceFile
-            .replace(/^src\//, `${repoAnalysis.testDirectory}/`)  // Replace src/ with tests/
-            .replace(/\.ts$/, '.test.ts');  // Add .test before .ts extension
+    // 2. Quarantine what still fails
+    return { ...await quarantineFailingTests(containerId, current, runs, repoAnalysis.testingFramework, runId, logger), repaired };
+}
 
-        const prompt = `CRITICAL: Return ONLY valid JSON. No explanations, no comments.
+/**
+ * Skip the failing cases of `runs` in place and run the suite again. A file that does not load, whose failing
+ * cases cannot be located, or that still fails once they are skipped is removed. Returns the last test run.
+ */
+async function quarantineFailingTests(
+    containerId: string,
+    testGeneration: z.infer<typeof TestGenerationResult>,
+    runs: TestFileRun[],
+    testingFramework: string | undefined,
+    runId?: string,
+    logger?: any
+): Promise<{ testGeneration: z.infer<typeof TestGenerationResult>; runs: TestFileRun[]; runnerErrors: string[] }> {
+    let current = testGeneration;
+    let failing = runs.filter(hasTestFailures);
+    let runnerErrors: string[] = [];
+    const repoPath = await resolveRepoPath(containerId);
+    for (let pass = 0; pass < 2 && failing.length > 0; pass++) {
+        const quarantine = new Map<string, { entries: QuarantinedTest[]; removed: boolean }>();
+        for (const run of failing) {
+            const file = current.testFiles.find(f => f.testFile === run.testFile);
+            const framework = file ? testFrameworkOf(file, testingFramework) : frameworkForFile(run.testFile, testingFramework);
+            try {
+                if (!run.error && pass === 0) {
+                    const { quarantined, missing } = await quarantineTestCases(containerId, repoPath, run.testFile, framework, run.tests.filter(t => t.status === "failed"));
+                    if (missing.length === 0) {
+                        quarantine.set(run.testFile, { entries: quarantined, removed: false });
+                        continue;
+                    }
+                }
+                const reason = run.error || `failing tests could not be isolated: ${run.tests.filter(t => t.status === "failed").map(t => t.name).join(', ')}`;
+                quarantine.set(run.testFile, { entries: [await removeTestFile(containerId, repoPath, run.testFile, reason)], removed: true });
+            } catch (error) {
+                logger?.warn("⚠️ Quarantining failing tests failed", {
+                    testFile: run.testFile,
+                    error: error instanceof Error ? error.message : 'Unknown error',
+                    type: "TEST_REPAIR",
+                    runId: runId,
+                });
+            }
+        }
+        if (quarantine.size === 0) break;
 
-TASK: Generate high-quality vitest test file with nano-level reasoning using docker_exec with containerId='${containerId}'.
+        logger?.warn("🚧 Quarantined failing generated tests", {
+            quarantined: [...quarantine].map(([testFile, q]) => ({ testFile, removed: q.removed, tests: q.entries.map(e => e.name) })),
+            type: "TEST_REPAIR",
+            runId: runId,
+        });
 
-SOURCE FILE: ${sourceFile}
-TEST FILE: ${testFile}
-FRAMEWORK: ${repoAnalysis.testingFramework}
+        const testFiles = current.testFiles.map((file): z.infer<typeof TestFileResult> => {
+            const q = quarantine.get(file.testFile);
+            if (!q) return file;
+            const { execution, ...rest } = file;
+            const quarantined = [...(file.quarantined || []), ...q.entries];
+            return q.removed
+                ? { ...rest, success: false, error: `Removed: ${q.entries[0].reason}`, quarantined }
+                : { ...file, quarantined };
+        });
+        current = { ...current, testFiles, summary: summarizeGeneration(testFiles).summary };
+        if (current.summary.successfulFiles === 0) break;
+
+        const execution = await executeGeneratedTests(containerId, current, testingFramework, runId, logger);
+        current = execution.testGeneration;
+        runnerErrors = execution.runnerErrors;
+        runs = execution.runs;
+        failing = runs.filter(hasTestFailures);
+    }
 
-🚨 ABSOLUTE CRITICAL PATH REQUIREMENTS 🚨
-- Find the project directory inside /app/ (should be the only subdirectory)
-- The test file MUST be created INSIDE the project directory
-- DO NOT create it at: /app/${sourceFile.replace('.ts', '.test.ts')}
-- DO NOT create it at: /app/tests/ (wrong location - must be inside project)
-- MUST be inside the project directory at: PROJECT_DIR/${testFile}
+    return { testGeneration: current, runs, runnerErrors };
+}
 
-TEST SPECIFICATION (analyze thoroughly):
-${JSON.stringify(testSpec, null, 2)}
+/**
+ * Put test files back to the contents read before an agent rewrote them. Used when a step gives up after a
+ * rewrite, so the files on disk match the test generation result it passes on unchanged.
+ */
+async function restoreTestFiles(containerId: string, originals: Array<{ filePath: string; text: string }>, runId?: string, logger?: any): Promise<void> {
+    for (const original of originals) {
+        try {
+            await writeContainerFile(containerId, original.filePath, original.text);
+        } catch (error) {
+            logger?.warn("⚠️ Restoring a rewritten test file failed", {
+                filePath: original.filePath,
+                error: error instanceof Error ? error.message : 'Unknown error',
+                type: "TEST_REPAIR",
+                runId: runId,
+            });
+        }
+    }
+}
 
-🧠 NANO-LEVEL REASONING WORKFLOW:
+/**
+ * One agent rewrite of a generated test file: what to do, what the runs found, how to go about it (step 4 of
+ * the prompt) and what must stay as it is
+ */
+type TestRewrite = {
+    sourceFile: string;
+    testFile: string;
+    framework: TestFramework;
+    task: string;
+    findings: string;
+    instructions: string;
+    keep: string;
+    reports: "CHANGED" | "ADDED";
+};
 
-PHASE 1: DISCOVERY & ANALYSIS
-1. Find project directory: docker_exec ls -la /app/ | grep "^d" | grep -v "\\." | awk '{print $NF}' | head -1
-2. Set PROJECT_DIR variable based on step 1 result
-3. Read and analyze source file: docker_exec cat /app/PROJECT_DIR/${sourceFile}
-4. Identify imports, exports, functions, classes, and dependencies
-5. Analyze function signatures, parameters, return types, and error conditions
-6. Determine external dependencies that need mocking
-7. Identify async/sync patterns and Promise handling needs
+/**
+ * Ask the agent for one test file rewrite. Returns the names of the tests it reports changed or added; a
+ * failed rewrite reports none.
+ */
+async function rewriteTestFile(
+    rewrite: TestRewrite,
+    containerId: string,
+    logType: string,
+    runId?: string,
+    logger?: any,
+    budget?: BudgetTracker
+): Promise<string[]> {
+    const { sourceFile, testFile, framework } = rewrite;
+    const prompt = `CRITICAL: Return ONLY valid JSON. No explanations, no comments.
 
-PHASE 2: INTELLIGENT TEST DESIGN
-8. Map each function to comprehensive test scenarios:
-   - Happy path with valid inputs
-   - Edge cases with boundary values
-   - Error conditions and exception handling
-   - Async/Promise resolution and rejection flows
-   - Mock integration and dependency injection
-9. Design mock strategies for external dependencies (fs, child_process, @mastra/core, etc.)
-10. Plan test structure with proper setup/teardown
-11. Determine assertion strategies and coverage goals
+TASK: ${rewrite.task} using docker_exec with containerId='${containerId}'.
 
-PHASE 3: SOPHISTICATED CODE GENERATION
-12. Ensure directory exists: file_operations create_dir with filePath "/app/PROJECT_DIR/$(dirname ${testFile})"
-13. Generate comprehensive test file with advanced patterns:
+SOURCE FILE: ${sourceFile}
+TEST FILE: ${testFile}
+FRAMEWORK: ${framework}
 
-REQUIRED TEST PATTERNS:
-- Proper vitest imports (vi, expect, describe, it, beforeEach, afterEach, beforeAll, afterAll)
-- Smart mocking of ALL external dependencies with proper typing
-- Comprehensive test cases covering ALL functions from specification
-- Error boundary testing with proper error assertions
-- Async/await testing patterns with proper Promise handling
-- Mock setup/reset in beforeEach/afterEach hooks
-- Descriptive test names following "should [expected behavior] when [condition]" pattern
-- Proper TypeScript typing and interface mocking
-- Integration test considerations where applicable
-- Performance and edge case coverage
-
-EXAMPLE SOPHISTICATED STRUCTURE:
-\`\`\`typescript
-import { vi, expect, describe, it, beforeEach, afterEach } from 'vitest';
-import type { Mock } from 'vitest';
-
-// Import source modules and types
-import { [ACTUAL_IMPORTS_FROM_SOURCE] } from '[ACTUAL_IMPORT_PATH]';
-
-// Mock external dependencies
-vi.mock('child_process', () => ({
-  exec: vi.fn(),
-}));
-
-vi.mock('@mastra/core', () => ({
-  // Mock actual exports based on source analysis
-}));
-
-describe('[MODULE_NAME]', () => {
-  // Proper mock typing
-  const mockExec = vi.mocked(require('child_process').exec);
-  
-  beforeEach(() => {
-    vi.clearAllMocks();
-  });
-
-  afterEach(() => {
-    vi.resetAllMocks();
-  });
-
-  describe('[FUNCTION_NAME]', () => {
-    it('should handle successful execution with valid parameters', async () => {
-      // Comprehensive positive test case
-    });
-    
-    it('should reject with proper error when execution fails', async () => {
-      // Error condition testing
-    });
-    
-    it('should validate input parameters and throw on invalid input', () => {
-      // Input validation testing
-    });
-    
-    // Additional test cases based on function complexity
-  });
-});
-\`\`\`
+${rewrite.findings}
 
-14. Write sophisticated test file using file tool:
-   - Use file_operations write with filePath "/app/PROJECT_DIR/${testFile}" and content set to the full generated test code exactly
+STEPS:
+1. Find project directory: docker_exec ls -la /app/ | grep "^d" | grep -v "\\." | awk '{print $NF}' | head -1
+2. Read the source file: docker_exec cat /app/PROJECT_DIR/${sourceFile}
+3. Read the test file: docker_exec cat /app/PROJECT_DIR/${testFile}
+4. ${rewrite.instructions}
+5. Write the whole file back using file_operations write with filePath "/app/PROJECT_DIR/${testFile}", ${rewrite.keep}
 
-PHASE 4: VERIFICATION & QUALITY ASSURANCE
-15. Verify file creation: docker_exec ls -la /app/PROJECT_DIR/${testFile}
+RETURN FORMAT (JSON only):
+{
+  "testFile": "${testFile}",
+  "tests": ["[NAMES_OF_THE_TESTS_YOU_${rewrite.reports}]"]
+}`;
+
+    try {
+        const result = await callAgent("unitTestAgent", prompt, z.object({
+            testFile: z.string(),
+            tests: z.array(z.string()),
+        }), 300, runId, logger, budget);
+        return result.tests;
+    } catch (error) {
+        logger?.warn("⚠️ Rewriting a generated test file failed", {
+            testFile,
+            task: rewrite.task,
+            error: error instanceof Error ? error.message : 'Unknown error',
+            type: logType,
+            runId: runId,
+        });
+        return [];
+    }
+}
+
+/**
+ * Apply agent rewrites within the generation budget and run the suite again. A rewritten file that no longer
+ * loads goes back to its contents from before and the suite runs once more. The contents of `restorable`
+ * (test files, by default the rewritten ones) are read first: if anything here throws they are restored
+ * before the error is passed on, and `restore` puts them back for a caller that gives up later.
+ */
+async function applyTestRewrites(params: {
+    containerId: string;
+    testGeneration: z.infer<typeof TestGenerationResult>;
+    testingFramework?: string;
+    rewrites: TestRewrite[];
+    restorable?: string[];
+    generationBudget?: GenerationBudget;
+    logType: string;
+    runId?: string;
+    logger?: any;
+}): Promise<{ changes: string[][]; execution: Awaited<ReturnType<typeof executeGeneratedTests>>; restored: string[]; restore: () => Promise<void> }> {
+    const { containerId, rewrites, logType, runId, logger } = params;
+    const repoPath = await resolveRepoPath(containerId);
+    const originals = await readContainerFiles(containerId, (params.restorable || rewrites.map(r => r.testFile)).map(f => path.posix.join(repoPath, f)));
+    const restore = () => restoreTestFiles(containerId, originals, runId, logger);
+    try {
+        const budget = resolveGenerationBudget(params.generationBudget);
+        const tracker = createBudgetTracker(budget);
+        const changes = await runWithBudget(
+            rewrites,
+            budget.concurrency,
+            tracker,
+            rewrite => rewriteTestFile(rewrite, containerId, logType, runId, logger, tracker),
+            () => [] as string[],
+            getRunAbortSignal(runId),
+        );
+
+        let execution = await executeGeneratedTests(containerId, params.testGeneration, params.testingFramework, runId, logger);
+        const broken = execution.runnerErrors.length > 0 ? [] : execution.runs.filter(run => run.error && rewrites.some(r => r.testFile === run.testFile));
+        if (broken.length > 0) {
+            await restoreTestFiles(containerId, originals.filter(o => broken.some(run => o.filePath === path.posix.join(repoPath, run.testFile))), runId, logger);
+            logger?.warn("↩️ Restored test files a rewrite broke", {
+                testFiles: broken.map(run => ({ testFile: run.testFile, error: run.error })),
+                type: logType,
+                runId: runId,
+            });
+            execution = await executeGeneratedTests(containerId, params.testGeneration, params.testingFramework, runId, logger);
+        }
+        return { changes, execution, restored: broken.map(run => run.testFile), restore };
+    } catch (error) {
+        await restore();
+        throw error;
+    }
+}
+
+function skippedResult(task: { sourceFile: string; testFile: string; framework?: string }, reason: string): z.infer<typeof TestFileResult> {
+    return {
+        sourceFile: task.sourceFile,
+        testFile: task.testFile,
+        framework: task.framework,
+        functionsCount: 0,
+        testCasesCount: 0,
+        success: false,
+        skipped: true,
+        error: `Skipped: ${reason}`,
+    };
+}
+
+/**
+ * Generate the test file of one coding task. Failures, including the agent writing to the wrong path, come
+ * back as an unsuccessful result so the other files of the run carry on.
+ */
+async function generateTestFile(
+    task: z.infer<typeof CodingTask>,
+    containerId: string,
+    scopeBlock: string,
+    runId?: string,
+    logger?: any,
+    budget?: BudgetTracker
+): Promise<z.infer<typeof TestFileResult>> {
+    const { sourceFile, testFile, testSpec } = task;
+    const framework = frameworkForFile(sourceFile, task.framework);
+    const prompt = `CRITICAL: Return ONLY valid JSON. No explanations, no comments.
+
+TASK: Generate high-quality ${framework} test file with nano-level reasoning using docker_exec with containerId='${containerId}'.
+
+SOURCE FILE: ${sourceFile}
+TEST FILE: ${testFile}
+FRAMEWORK: ${framework}
+
+🚨 ABSOLUTE CRITICAL PATH REQUIREMENTS 🚨
+- Find the project directory inside /app/ (should be the only subdirectory)
+- The test file MUST be created INSIDE the project directory
+- DO NOT create it at: /app/${testFile}
+- DO NOT create it at: /app/tests/ (wrong location - must be inside project)
+- MUST be inside the project directory at: PROJECT_DIR/${testFile}
+- Other agents are writing test files for other source files at the same time: only create or modify ${testFile}
+
+TEST SPECIFICATION (analyze thoroughly):
+${JSON.stringify(testSpec, null, 2)}
+
+🧠 NANO-LEVEL REASONING WORKFLOW:
+
+PHASE 1: DISCOVERY & ANALYSIS
+1. Find project directory: docker_exec ls -la /app/ | grep "^d" | grep -v "\\." | awk '{print $NF}' | head -1
+2. Set PROJECT_DIR variable based on step 1 result
+3. Read and analyze source file: docker_exec cat /app/PROJECT_DIR/${sourceFile}
+4. Identify imports, exports, functions, classes, and dependencies
+5. Analyze function signatures, parameters, return types, and error conditions
+6. Determine external dependencies that need mocking
+7. Identify async/sync patterns and Promise handling needs
+
+PHASE 2: INTELLIGENT TEST DESIGN
+8. Map each function to comprehensive test scenarios:
+   - Happy path with valid inputs
+   - Edge cases with boundary values
+   - Error conditions and exception handling
+   - Async/Promise resolution and rejection flows
+   - Mock integration and dependency injection
+9. Design mock strategies for external dependencies (fs, child_process, @mastra/core, etc.)
+10. Plan test structure with proper setup/teardown
+11. Determine assertion strategies and coverage goals
+
+PHASE 3: SOPHISTICATED CODE GENERATION
+12. Ensure directory exists: file_operations create_dir with filePath "/app/PROJECT_DIR/$(dirname ${testFile})"
+13. Generate comprehensive test file with advanced patterns:
+
+${describeTestPatterns(framework)}
+
+14. Write sophisticated test file using file tool:
+   - Use file_operations write with filePath "/app/PROJECT_DIR/${testFile}" and content set to the full generated test code exactly
+
+PHASE 4: VERIFICATION & QUALITY ASSURANCE
+15. Verify file creation: docker_exec ls -la /app/PROJECT_DIR/${testFile}
 16. Verify file content: docker_exec cat /app/PROJECT_DIR/${testFile}
 17. Check syntax validity: docker_exec head -50 /app/PROJECT_DIR/${testFile}
 18. Confirm line count and complexity: docker_exec wc -l /app/PROJECT_DIR/${testFile}
@@ -1237,7 +1693,7 @@ PHASE 4: VERIFICATION & QUALITY ASSURANCE
 - Mock ALL external dependencies with proper typing
 - Include positive, negative, and edge case scenarios
 - Use proper async/await patterns where needed
-- Follow vitest best practices and TypeScript standards
+- Follow ${framework} best practices and ${frameworkLanguage(framework)} standards
 - Generate AT LEAST 5+ test cases per function
 - Include proper error handling and validation tests
 - Use descriptive test names and organize with nested describe blocks
@@ -1262,139 +1718,161 @@ RETURN FORMAT (JSON only - MUST return accurate counts):
   "functionsCount": [ACTUAL_FUNCTION_COUNT],
   "testCasesCount": [ACTUAL_TEST_CASES_COUNT], 
   "success": true
-}`;
+}${scopeBlock}`;
 
-        try {
-            const result = await callAgent("unitTestAgent", prompt, z.object({
-                sourceFile: z.string(),
-                testFile: z.string(),
-                functionsCount: z.number(),
-                testCasesCount: z.number(),
-                success: z.boolean(),
-                error: z.string().optional(),
-            }), 500, runId, logger); // Reduced max steps for simplicity
-
-            // Validate that the agent used the correct test file path
-            if (result.testFile !== testFile) {
-                logger?.error("❌ Agent used wrong test file path", {
-                    expected: testFile,
-                    actual: result.testFile,
-                    type: "VALIDATION_ERROR",
-                runId: runId,
-            });
-                throw new Error(`Agent created test file at wrong path. Expected: ${testFile}, Got: ${result.testFile}`);
-            }
-
-            // The agent instructions now include verification steps, so we rely on those
-            logger?.info("✅ Test file creation delegated to agent with explicit verification", {
-                testFile: testFile,
-                type: "DELEGATION_INFO",
-                runId: runId,
-            });
-
-            logger?.info("✅ Step 2/3: Simple test generation completed", {
-                step: "2/3",
-                testFile: result.testFile,
-                success: result.success,
-                functionsCount: result.functionsCount,
-                testCasesCount: result.testCasesCount,
-                type: "WORKFLOW_STEP",
+    try {
+        const result = await callAgent("unitTestAgent", prompt, z.object({
+            sourceFile: z.string(),
+            testFile: z.string(),
+            functionsCount: z.number(),
+            testCasesCount: z.number(),
+            success: z.boolean(),
+            error: z.string().optional(),
+        }), 500, runId, logger, budget); // Reduced max steps for simplicity
+
+        // Validate that the agent used the correct test file path
+        if (result.testFile !== testFile) {
+            logger?.error("❌ Agent used wrong test file path", {
+                taskId: task.taskId,
+                expected: testFile,
+                actual: result.testFile,
+                type: "VALIDATION_ERROR",
                 runId: runId,
             });
+            throw new Error(`Agent created test file at wrong path. Expected: ${testFile}, Got: ${result.testFile}`);
+        }
 
-            await notifyStepStatus({
-                stepId: "generate-test-code-step",
-                status: "completed",
-                runId,
-                containerId,
-                title: "Test generation completed",
-                subtitle: result.testFile,
-                toolCallCount: cliToolMetrics.callCount,
-                projectId: inputData.projectId,
-            });
+        logger?.info("✅ Test file generated", {
+            taskId: task.taskId,
+            testFile: result.testFile,
+            success: result.success,
+            functionsCount: result.functionsCount,
+            testCasesCount: result.testCasesCount,
+            type: "WORKFLOW_STEP",
+            runId: runId,
+        });
+        return { ...result, framework };
+    } catch (error) {
+        logger?.error("❌ Test file generation failed", {
+            taskId: task.taskId,
+            sourceFile,
+            error: error instanceof Error ? error.message : 'Unknown error',
+            type: "WORKFLOW_STEP",
+            runId: runId,
+        });
+        return {
+            sourceFile,
+            testFile,
+            framework,
+            functionsCount: 0,
+            testCasesCount: 0,
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error',
+        };
+    }
+}
 
-            // Create simple test generation result
-            const testGeneration: z.infer<typeof TestGenerationResult> = {
-                testFiles: [result],
-                summary: {
-                    totalSourceFiles: 1,
-                    totalTestFiles: result.success ? 1 : 0,
-                    totalFunctions: result.functionsCount,
-                    totalTestCases: result.testCasesCount,
-                    successfulFiles: result.success ? 1 : 0,
-                    failedFiles: result.success ? 0 : 1,
-                },
-                quality: {
-                    syntaxValid: result.success,
-                    followsBestPractices: result.success,
-                    coverageScore: result.success ? 75 : 0,
-                },
-            };
+/**
+ * Step 2: Test Generation
+ * 
+ * Fans out over the planned source files: one coding task per file, generated by
+ * unitTestAgent with at most `concurrency` files in flight. Files the time or token
+ * budget does not reach are reported as skipped.
+ */
+export const generateTestCodeStep = createStep({
+    id: "generate-test-code-step",
+    inputSchema: z.object({
+        containerId: z.string(),
+        contextPath: z.string(),
+        repoAnalysis: RepoTestAnalysis,
+        testSpecs: z.array(TestSpecification),
+        projectId: z.string(),
+    }),
+    outputSchema: z.object({
+        containerId: z.string(),
+        contextPath: z.string().optional(),
+        testGeneration: TestGenerationResult,
+        repoAnalysis: RepoTestAnalysis,
+        testSpecs: z.array(TestSpecification),
+        projectId: z.string(),
+    }),
+    execute: async ({ inputData, mastra, runId, getInitData }) => {
+        const { containerId, repoAnalysis, testSpecs } = inputData;
+        const logger = mastra?.getLogger();
+        const budget = resolveGenerationBudget(getInitData()?.generationBudget);
+        const tasks = buildCodingTasks(repoAnalysis, testSpecs).slice(0, budget.maxFiles);
+        if (tasks.length === 0) {
+            throw new Error("No test specification available");
+        }
+        
+        logger?.info("🧪 Step 2/3: Test generation", {
+            step: "2/3",
+            stepName: "Test Generation",
+            sourceFiles: tasks.map(t => t.sourceFile),
+            framework: repoAnalysis.testingFramework,
+            budget,
+            type: "WORKFLOW_STEP",
+            runId: runId,
+        });
 
-            return {
-                containerId,
-                contextPath: inputData.contextPath,
-                testGeneration,
-                repoAnalysis,
-                testSpecs: [testSpec],
-                projectId: inputData.projectId,
-            };
-        } catch (error) {
-            logger?.error("❌ Step 2/3: Simple test generation failed", {
-                step: "2/3",
-                error: error instanceof Error ? error.message : 'Unknown error',
-                type: "WORKFLOW_STEP",
-                runId: runId,
-            });
+        await notifyStepStatus({
+            stepId: "generate-test-code-step",
+            status: "starting",
+            runId,
+            containerId,
+            title: "Generate tests",
+            subtitle: `${tasks.length} file(s), ${Math.min(budget.concurrency, tasks.length)} at a time`,
+            projectId: inputData.projectId,
+        });
 
-            await notifyStepStatus({
-                stepId: "generate-test-code-step",
-                status: "failed",
-                runId,
-                containerId,
-                title: "Test generation failed",
-                subtitle: error instanceof Error ? error.message : 'Unknown error',
-                level: 'error',
-                toolCallCount: cliToolMetrics.callCount,
-                projectId: inputData.projectId,
-            });
+        const scopeBlock = describeSparseScope(getRunCheckout(runId)?.sparsePaths);
+        const tracker = createBudgetTracker(budget);
+        const testFiles = await runWithBudget(
+            tasks,
+            budget.concurrency,
+            tracker,
+            task => generateTestFile(task, containerId, scopeBlock, runId, logger, tracker),
+            (task, reason) => skippedResult(task, reason),
+            getRunAbortSignal(runId),
+        );
+        const testGeneration = summarizeGeneration(testFiles);
+        const { successfulFiles, failedFiles, skippedFiles = 0 } = testGeneration.summary;
 
-            // Return failed result
-            const failedResult = {
-                sourceFile,
-                testFile,
-                functionsCount: 0,
-                testCasesCount: 0,
-                success: false,
-                error: error instanceof Error ? error.message : 'Unknown error',
-            };
+        logger?.info("✅ Step 2/3: Test generation completed", {
+            step: "2/3",
+            successfulFiles,
+            failedFiles,
+            skippedFiles,
+            functionsCount: testGeneration.summary.totalFunctions,
+            testCasesCount: testGeneration.summary.totalTestCases,
+            tokensUsed: tracker.tokensUsed(),
+            durationMs: tracker.elapsedMs(),
+            type: "WORKFLOW_STEP",
+            runId: runId,
+        });
 
-            const testGeneration: z.infer<typeof TestGenerationResult> = {
-                testFiles: [failedResult],
-                summary: {
-                    totalSourceFiles: 1,
-                    totalTestFiles: 0,
-                    totalFunctions: 0,
-                    totalTestCases: 0,
-                    successfulFiles: 0,
-                    failedFiles: 1,
-                },
-                quality: {
-                    syntaxValid: false,
-                    followsBestPractices: false,
-                    coverageScore: 0,
-                },
-            };
+        await notifyStepStatus({
+            stepId: "generate-test-code-step",
+            status: successfulFiles > 0 ? "completed" : "failed",
+            runId,
+            containerId,
+            title: successfulFiles > 0 ? "Test generation completed" : "Test generation failed",
+            subtitle: `${successfulFiles}/${tasks.length} file(s) generated${failedFiles > 0 ? `, ${failedFiles} failed` : ''}${skippedFiles > 0 ? `, ${skippedFiles} skipped by budget` : ''}`,
+            level: successfulFiles > 0 ? (failedFiles > 0 ? 'warning' : undefined) : 'error',
+            toolCallCount: cliToolMetrics.callCount,
+            projectId: inputData.projectId,
+            metadata: { testFiles: testFiles.map(({ testFile, success, skipped }) => ({ testFile, success, skipped })), tokensUsed: tracker.tokensUsed() },
+        });
 
-            return {
-                containerId,
-                contextPath: inputData.contextPath,
-                testGeneration,
-                repoAnalysis,
-                testSpecs: [testSpec],
-                projectId: inputData.projectId,
-            };
-        }
+        return {
+            containerId,
+            contextPath: inputData.contextPath,
+            testGeneration,
+            repoAnalysis,
+            // What the budget left out is not retried or validated
+            testSpecs: tasks.filter((_, i) => !testFiles[i].skipped).map(t => t.testSpec),
+            projectId: inputData.projectId,
+        };
     },
 });
 
@@ -1430,10 +1908,11 @@ async function ensureCompletionNotification(
 }
 
 /**
- * Step 3: Finalize with Syntax Validation and Retry Logic (Enhanced MVP)
+ * Step 3: Finalize with Test Execution and Retry Logic (Enhanced MVP)
  * 
- * Advanced final step that validates test syntax, executes tests, and retries with error feedback if needed.
- * Improved with comprehensive error handling and guaranteed completion notifications.
+ * Runs the generated test files with the project's test runner inside the container and reads its report per
+ * test. Files that fail to load or have failing tests are regenerated with those failures as feedback and run
+ * again, up to `maxRetries` attempts. Improved with comprehensive error handling and guaranteed completion notifications.
  */
 export const finalizeStep = createStep({
     id: "finalize-step",
@@ -1452,10 +1931,11 @@ export const finalizeStep = createStep({
         containerId: z.string(),
         contextPath: z.string().optional(),
     }),
-    execute: async ({ inputData, mastra, runId }) => {
+    execute: async ({ inputData, mastra, runId, getInitData }) => {
         const { testGeneration, containerId, repoAnalysis, testSpecs, retryCount = 0, lastError } = inputData;
         const logger = mastra?.getLogger();
         const maxRetries = 2;
+        const generationBudget = getInitData()?.generationBudget;
         
         // Track execution state for proper cleanup
         let executionResult: any = null;
@@ -1469,13 +1949,13 @@ export const finalizeStep = createStep({
                 runId,
                 containerId,
                 title: "Finalize",
-                subtitle: "Validation and recommendations",
+                subtitle: "Run generated tests and retry failures",
                 projectId: inputData.projectId,
             });
             
-            logger?.info("🔍 Step 3/3: Enhanced finalization with syntax validation and retry logic", {
+            logger?.info("🔍 Step 3/3: Enhanced finalization with test execution and retry logic", {
                 step: "3/3",
-                stepName: "Enhanced Finalize with Validation",
+                stepName: "Enhanced Finalize with Test Execution",
                 testFileGenerated: testGeneration.testFiles.length,
                 retryCount,
                 maxRetries,
@@ -1484,174 +1964,146 @@ export const finalizeStep = createStep({
                 runId: runId,
             });
 
-            // Check if we should retry due to previous failures
-            if (testGeneration.summary.failedFiles > 0 && retryCount < maxRetries && repoAnalysis && testSpecs) {
+            let current = testGeneration;
+            let attempt = retryCount;
+            const retryResults: string[] = [];
+
+            // Files the agent failed to write at all are regenerated before anything is run
+            if (current.summary.failedFiles > 0 && attempt < maxRetries && repoAnalysis && testSpecs) {
                 logger?.warn("⚠️ Test generation had failures, initiating retry with error feedback", {
                     step: "3/3",
-                    failedFiles: testGeneration.summary.failedFiles,
-                    retryCount: retryCount + 1,
+                    failedFiles: current.summary.failedFiles,
+                    retryCount: attempt + 1,
                     lastError: lastError?.substring(0, 200),
                     type: "WORKFLOW_STEP",
                     runId: runId,
                 });
 
                 isRetryPath = true;
-                
-                // Execute retry with error feedback - store result, don't return yet
-                executionResult = await retryTestGeneration(
+                attempt++;
+                const retry = await retryTestGeneration(
                     containerId,
                     repoAnalysis,
                     testSpecs,
-                    retryCount + 1,
+                    attempt,
                     lastError,
                     mastra,
                     inputData.projectId,
                     inputData.contextPath,
                     runId,
-                    logger
+                    logger,
+                    current,
+                    undefined,
+                    generationBudget
                 );
-
-                // Don't return here - let finally block handle notification
-                return executionResult;
+                current = retry.testGeneration;
+                retryResults.push(retry.result);
             }
 
-            // Main execution path: Create a copy to avoid mutating the input
-            const processedTestGeneration = { 
-                ...testGeneration,
-                quality: { ...testGeneration.quality }
-            };
-
-            // Phase 1: Syntax and Execution Validation
-            if (processedTestGeneration.summary.successfulFiles > 0) {
-                const testFile = processedTestGeneration.testFiles[0];
-                
-                logger?.info("✅ Phase 1: Syntax and execution validation", {
+            // Run the generated files; files with failing tests are regenerated from the runner's report and run again
+            let runnerErrors: string[] = [];
+            let lastRuns: TestFileRun[] = [];
+            while (current.summary.successfulFiles > 0) {
+                logger?.info("✅ Running generated tests", {
                     step: "3/3",
-                    phase: "validation",
-                    testFile: testFile?.testFile,
+                    phase: "execution",
+                    testFiles: current.testFiles.filter(f => f.success).map(f => f.testFile),
+                    attempt,
                     type: "WORKFLOW_STEP",
                     runId: runId,
                 });
 
-                const validationPrompt = `CRITICAL: Validate test file syntax and execution using docker_exec with containerId='${containerId}'.
-
-TASK: Comprehensive test validation and execution check.
-
-TEST FILE TO VALIDATE: ${testFile?.testFile}
-
-🔍 VALIDATION WORKFLOW:
-
-PHASE 1: PROJECT SETUP AND DISCOVERY
-1. Find project directory: docker_exec ls -la /app/ | grep "^d" | grep -v "\\." | awk '{print $NF}' | head -1
-2. Change to project directory: cd /app/PROJECT_DIR
-3. Check if test file exists: docker_exec test -f /app/PROJECT_DIR/${testFile?.testFile} && echo "EXISTS" || echo "MISSING"
-
-PHASE 2: SYNTAX VALIDATION
-4. Check TypeScript syntax: docker_exec cd /app/PROJECT_DIR && npx tsc --noEmit ${testFile?.testFile} 2>&1 || echo "SYNTAX_CHECK_COMPLETE"
-5. Check for import/export errors: docker_exec cd /app/PROJECT_DIR && node -c ${testFile?.testFile?.replace('.ts', '.js')} 2>&1 || echo "IMPORT_CHECK_COMPLETE"
-
-PHASE 3: VITEST EXECUTION ATTEMPT  
-6. Install test dependencies if needed: docker_exec cd /app/PROJECT_DIR && npm list vitest || npm install vitest @types/node --save-dev
-7. Try to run the specific test: docker_exec cd /app/PROJECT_DIR && npm test ${testFile?.testFile} 2>&1 || npx vitest run ${testFile?.testFile} 2>&1 || echo "TEST_EXECUTION_ATTEMPTED"
-
-PHASE 4: COMPREHENSIVE ANALYSIS
-8. Analyze any error patterns from above steps
-9. Check test structure validity
-10. Verify mock configurations are correct
-
-🎯 ANALYSIS CRITERIA:
-- Syntax errors (TypeScript compilation issues)
-- Import/export problems
-- Missing dependencies
-- Mock configuration errors
-- Test framework compatibility
-- Runtime execution errors
-
-RETURN VALIDATION RESULTS (JSON only):
-{
-  "syntaxValid": true|false,
-  "executionSuccessful": true|false,
-  "errorDetails": "[SPECIFIC_ERROR_MESSAGE_IF_ANY]",
-  "needsRetry": true|false,
-  "recommendations": ["[SPECIFIC_FIX_RECOMMENDATIONS]"]
-}`;
-
+                let execution: Awaited<ReturnType<typeof executeGeneratedTests>>;
                 try {
-                    const validationResult = await callAgent("unitTestAgent", validationPrompt, z.object({
-                        syntaxValid: z.boolean(),
-                        executionSuccessful: z.boolean(),
-                        errorDetails: z.string().optional(),
-                        needsRetry: z.boolean(),
-                        recommendations: z.array(z.string()),
-                    }), 300, runId, logger);
-
-                    logger?.info("📊 Validation results received", {
-                        syntaxValid: validationResult.syntaxValid,
-                        executionSuccessful: validationResult.executionSuccessful,
-                        hasErrors: !!validationResult.errorDetails,
-                        needsRetry: validationResult.needsRetry,
+                    execution = await executeGeneratedTests(containerId, current, repoAnalysis?.testingFramework, runId, logger);
+                } catch (runError) {
+                    // Not being able to run the tests leaves the generation estimate in place
+                    logger?.warn("⚠️ Test execution failed, proceeding with basic assessment", {
+                        step: "3/3",
+                        error: runError instanceof Error ? runError.message : 'Unknown error',
                         type: "WORKFLOW_STEP",
                         runId: runId,
                     });
+                    runnerErrors = [runError instanceof Error ? runError.message : String(runError)];
+                    break;
+                }
+                current = execution.testGeneration;
+                runnerErrors = execution.runnerErrors;
+                lastRuns = execution.runs;
 
-                    // If validation failed and we can retry, trigger retry path instead of early return
-                    if (validationResult.needsRetry && retryCount < maxRetries && validationResult.errorDetails && repoAnalysis && testSpecs) {
-                        logger?.warn("🔄 Validation failed, initiating retry with detailed error feedback", {
-                            step: "3/3",
-                            retryCount: retryCount + 1,
-                            errorDetails: validationResult.errorDetails.substring(0, 200),
-                            type: "WORKFLOW_STEP",
-                            runId: runId,
-                        });
+                const failures = Object.fromEntries(execution.runs.filter(hasTestFailures).map(run => [run.testFile, describeTestFailures(run)]));
+                if (Object.keys(failures).length === 0 || attempt >= maxRetries || !repoAnalysis || !testSpecs) break;
 
-                        isRetryPath = true;
-                        executionResult = await retryTestGeneration(
-                            containerId, 
-                            repoAnalysis, 
-                            testSpecs, 
-                            retryCount + 1, 
-                            validationResult.errorDetails, 
-                            mastra, 
-                            inputData.projectId, 
-                            inputData.contextPath, 
-                            runId, 
-                            logger
-                        );
-                        
-                        // Don't return here - let finally block handle notification
-                        return executionResult;
-                    }
+                logger?.warn("🔄 Generated tests failed, regenerating them from the test run results", {
+                    step: "3/3",
+                    retryCount: attempt + 1,
+                    failingTestFiles: Object.keys(failures),
+                    failedTests: current.summary.failedTests,
+                    type: "WORKFLOW_STEP",
+                    runId: runId,
+                });
 
-                    // Update test generation quality based on validation
-                    processedTestGeneration.quality.syntaxValid = validationResult.syntaxValid;
-                    processedTestGeneration.quality.followsBestPractices = validationResult.syntaxValid && validationResult.executionSuccessful;
-                    processedTestGeneration.quality.coverageScore = validationResult.executionSuccessful ? 85 : 50;
+                isRetryPath = true;
+                attempt++;
+                const retry = await retryTestGeneration(
+                    containerId,
+                    repoAnalysis,
+                    testSpecs,
+                    attempt,
+                    undefined,
+                    mastra,
+                    inputData.projectId,
+                    inputData.contextPath,
+                    runId,
+                    logger,
+                    current,
+                    failures,
+                    generationBudget
+                );
+                current = retry.testGeneration;
+                retryResults.push(retry.result);
+            }
 
-                } catch (validationError) {
-                    logger?.warn("⚠️ Validation step failed, proceeding with basic assessment", {
+            // Repair stage: cases still failing after the retries are rewritten once, then quarantined
+            let repaired: string[] = [];
+            if (lastRuns.some(hasTestFailures) && repoAnalysis && testSpecs) {
+                try {
+                    const repair = await repairFailingTests(containerId, current, lastRuns, repoAnalysis, testSpecs, runId, logger, generationBudget);
+                    current = repair.testGeneration;
+                    repaired = repair.repaired;
+                    if (repair.runnerErrors.length > 0) runnerErrors = repair.runnerErrors;
+                } catch (repairError) {
+                    logger?.warn("⚠️ Repair of failing tests failed, keeping the last test run", {
                         step: "3/3",
-                        error: validationError instanceof Error ? validationError.message : 'Unknown error',
+                        error: repairError instanceof Error ? repairError.message : 'Unknown error',
                         type: "WORKFLOW_STEP",
                         runId: runId,
                     });
-                    // Continue with original test generation quality scores
                 }
             }
+            const processedTestGeneration = current;
 
             // Phase 2: Generate Final Recommendations and Result
-            const recommendations = generateRecommendations(processedTestGeneration, retryCount);
-            const result = generateResultMessage(processedTestGeneration, retryCount);
+            const recommendations = [
+                ...generateRecommendations(processedTestGeneration, attempt),
+                ...retryResults,
+                ...(repaired.length > 0 ? [`🔧 Rewrote ${repaired.length} failing test case(s) until they passed: ${repaired.slice(0, 5).join(', ')}${repaired.length > 5 ? ', …' : ''}`] : []),
+                ...runnerErrors.map(error => `⚠️ Generated tests could not be run: ${error}`),
+            ];
+            const result = generateResultMessage(processedTestGeneration, attempt);
 
             logger?.info("🏁 Step 3/3: Enhanced MVP test generation workflow completed", {
                 step: "3/3",
                 success: processedTestGeneration.summary.successfulFiles > 0,
                 syntaxValid: processedTestGeneration.quality.syntaxValid,
-                testFile: processedTestGeneration.testFiles[0]?.testFile || 'none',
+                testFiles: processedTestGeneration.testFiles.filter(f => f.success).map(f => f.testFile),
                 functionsCount: processedTestGeneration.summary.totalFunctions,
                 testCasesCount: processedTestGeneration.summary.totalTestCases,
-                coverageScore: processedTestGeneration.quality.coverageScore,
+                passedTests: processedTestGeneration.summary.passedTests,
+                failedTests: processedTestGeneration.summary.failedTests,
+                quarantinedTests: processedTestGeneration.summary.quarantinedTests,
                 toolCallCount: cliToolMetrics.callCount,
-                retryCount,
+                retryCount: attempt,
                 type: "WORKFLOW_STEP",
                 runId: runId,
             });
@@ -1735,26 +2187,399 @@ RETURN VALIDATION RESULTS (JSON only):
     },
 });
 
+/**
+ * Rewrite asking the agent to make the flaky tests of one test file deterministic, leaving its other tests untouched
+ */
+function flakyTestsRewrite(file: z.infer<typeof TestFileResult>, flaky: FlakyTest[]): TestRewrite {
+    const framework = testFrameworkOf(file);
+    return {
+        sourceFile: file.sourceFile,
+        testFile: file.testFile,
+        framework,
+        task: "Make the flaky tests of one test file deterministic",
+        findings: `These tests pass on a normal run but failed when the file was run repeatedly in shuffled order:
+${flaky.map(t => `- ${describeFlakyTest(t)}`).join('\n')}`,
+        instructions: `Find why each listed test depends on run order, time, randomness or the environment, and remove that dependency:
+${describeDeterminismFixes(framework)}`,
+        keep: "keeping every test name and leaving the other tests as they are",
+        reports: "CHANGED",
+    };
+}
+
+/**
+ * Shuffled repeat runs of `files`, one detection per framework, merged into one report
+ */
+async function detectFlakyGeneratedTests(
+    containerId: string,
+    repoPath: string,
+    files: z.infer<typeof TestFileResult>[],
+    seeds: number[]
+): Promise<FlakinessReport> {
+    const byFramework = new Map<TestFramework, string[]>();
+    for (const file of files) {
+        const framework = testFrameworkOf(file);
+        byFramework.set(framework, [...(byFramework.get(framework) || []), file.testFile]);
+    }
+    const reports: FlakinessReport[] = [];
+    for (const [framework, testFiles] of byFramework) {
+        reports.push(await detectFlakyTests(containerId, repoPath, framework, testFiles, seeds));
+    }
+    return {
+        runs: Math.min(...reports.map(r => r.runs)),
+        seeds,
+        flakyTests: reports.flatMap(r => r.flakyTests),
+    };
+}
+
+const FinalizeOutput = UnitTestResult.extend({
+    projectId: z.string(),
+    containerId: z.string(),
+    contextPath: z.string().optional(),
+});
+
+/**
+ * Rewrite asking the agent to add tests to one test file that fail on the mutants its tests let survive
+ */
+function survivingMutantsRewrite(file: z.infer<typeof TestFileResult>, report: MutationReport): TestRewrite {
+    return {
+        sourceFile: file.sourceFile,
+        testFile: file.testFile,
+        framework: testFrameworkOf(file),
+        task: "Strengthen one test file so it catches faults it currently misses",
+        findings: `Each of these small changes to the source file was planted on its own, and every test in the file still passed:
+${report.mutants.filter(m => m.status === "survived").map(m => `- ${describeMutant(m)}`).join('\n')}`,
+        instructions: `For each change, add a test that passes on the real source and would fail with the change in place:
+   - Boundary changes (< to <=): test the exact boundary value
+   - Logical and conditional changes: test the case where only one side of the condition holds
+   - Arithmetic and boolean changes: assert the exact value returned or the branch taken
+   - Skip a change if no input can tell it apart from the real source`,
+        keep: "keeping every existing test exactly as it is",
+        reports: "ADDED",
+    };
+}
+
+/**
+ * Step 4: Mutation testing of the generated tests
+ *
+ * Plants up to `MUTATION_MAX_MUTANTS` small faults, one at a time, in the source file of every passing
+ * generated test file and runs that file against each. Surviving mutants go back to the agent as ideas for
+ * extra tests; added tests that fail are quarantined, a file the additions break is restored, and the
+ * survivors are run again. The mutation score becomes the coverage score of the generation result.
+ */
+export const mutationTestingStep = createStep({
+    id: "mutation-testing-step",
+    inputSchema: FinalizeOutput,
+    outputSchema: FinalizeOutput,
+    execute: async ({ inputData, mastra, runId, getInitData }) => {
+        const { containerId, testGeneration } = inputData;
+        const limit = mutantLimit();
+        const passing = testGeneration.testFiles.filter(f => f.success && f.execution && !f.execution.error && f.execution.failed === 0);
+        if (limit === 0 || passing.length === 0) return inputData;
+
+        const logger = mastra?.getLogger();
+        await notifyStepStatus({
+            stepId: "mutation-testing-step",
+            status: "starting",
+            runId,
+            containerId,
+            title: "Mutation testing",
+            subtitle: `${passing.length} file(s), up to ${limit} mutant(s) each`,
+            projectId: inputData.projectId,
+        });
+
+        let restoreRewrites = async () => {};
+        try {
+            const repoPath = await resolveRepoPath(containerId);
+            const reports = new Map<string, MutationReport>();
+            for (const file of passing) {
+                try {
+                    reports.set(file.testFile, await runMutationTesting(containerId, repoPath, testFrameworkOf(file), file.sourceFile, file.testFile, { limit }));
+                } catch (error) {
+                    logger?.warn("⚠️ Mutation testing of a generated test file failed", {
+                        sourceFile: file.sourceFile,
+                        testFile: file.testFile,
+                        error: error instanceof Error ? error.message : 'Unknown error',
+                        type: "MUTATION_TESTING",
+                        runId: runId,
+                    });
+                }
+            }
+            if (reports.size === 0) throw new Error("No generated test file could be mutation-tested");
+
+            // 1. Surviving mutants go back to the agent as ideas for extra tests
+            let current = testGeneration;
+            const weak = passing.filter(f => reports.get(f.testFile)?.survived);
+            let added: string[] = [];
+            if (weak.length > 0) {
+                logger?.info("🧬 Mutants survived the generated tests", {
+                    survivors: weak.map(f => ({ sourceFile: f.sourceFile, survived: reports.get(f.testFile)!.survived })),
+                    type: "MUTATION_TESTING",
+                    runId: runId,
+                });
+                const rewrite = await applyTestRewrites({
+                    containerId,
+                    testGeneration: current,
+                    rewrites: weak.map(file => survivingMutantsRewrite(file, reports.get(file.testFile)!)),
+                    restorable: passing.map(f => f.testFile),
+                    generationBudget: getInitData()?.generationBudget,
+                    logType: "MUTATION_TESTING",
+                    runId,
+                    logger,
+                });
+                restoreRewrites = rewrite.restore;
+                const strengthened = weak.filter((f, i) => rewrite.changes[i].length > 0 && !rewrite.restored.includes(f.testFile));
+                added = weak.flatMap((f, i) => strengthened.includes(f) ? rewrite.changes[i].map(name => `${f.testFile} › ${name}`) : []);
+
+                // 2. A file the additions broke is back to what it was; added tests that fail are quarantined
+                current = rewrite.execution.testGeneration;
+                const failing = rewrite.execution.runs.filter(hasTestFailures);
+                if (failing.length > 0) {
+                    current = (await quarantineFailingTests(containerId, current, failing, undefined, runId, logger)).testGeneration;
+                }
+
+                // 3. The survivors run again against the strengthened files
+                for (const file of strengthened) {
+                    if (!current.testFiles.find(f => f.testFile === file.testFile)?.success) continue;
+                    const report = reports.get(file.testFile)!;
+                    try {
+                        const rerun = await runMutationTesting(containerId, repoPath, testFrameworkOf(file), file.sourceFile, file.testFile, {
+                            mutants: report.mutants.filter(m => m.status === "survived"),
+                        });
+                        reports.set(file.testFile, mergeMutationReports(report, rerun));
+                    } catch (error) {
+                        logger?.warn("⚠️ Re-running surviving mutants failed", {
+                            testFile: file.testFile,
+                            error: error instanceof Error ? error.message : 'Unknown error',
+                            type: "MUTATION_TESTING",
+                            runId: runId,
+                        });
+                    }
+                }
+            }
+
+            const testFiles = current.testFiles.map((file): z.infer<typeof TestFileResult> => {
+                const report = reports.get(file.testFile);
+                return report && file.success ? { ...file, mutation: report } : file;
+            });
+            const measured = testFiles.filter(f => f.mutation).map(f => f.mutation!);
+            const mutation = summarizeMutationReports(measured);
+            current = { ...current, testFiles, mutation, quality: { ...current.quality, coverageScore: mutation.score } };
+            const survivors = measured.flatMap(r => r.mutants.filter(m => m.status === "survived").map(m => ({ sourceFile: r.sourceFile, mutant: m })));
+
+            await notifyStepStatus({
+                stepId: "mutation-testing-step",
+                status: "completed",
+                runId,
+                containerId,
+                title: "Mutation testing completed",
+                subtitle: `Mutation score ${describeMutationScore(mutation)}${added.length > 0 ? `, ${added.length} test(s) added for survivors` : ''}`,
+                level: mutation.survived > 0 ? 'warning' : undefined,
+                toolCallCount: cliToolMetrics.callCount,
+                projectId: inputData.projectId,
+                metadata: { ...mutation, added },
+            });
+
+            return {
+                ...inputData,
+                success: current.summary.successfulFiles > 0,
+                toolCallCount: cliToolMetrics.callCount,
+                testGeneration: current,
+                recommendations: [
+                    ...inputData.recommendations,
+                    `🧬 Mutation score ${describeMutationScore(mutation)}`,
+                    ...(added.length > 0 ? [`🧬 Added ${added.length} test(s) for surviving mutants: ${added.slice(0, 5).join(', ')}${added.length > 5 ? ', …' : ''}`] : []),
+                    ...survivors.slice(0, 10).map(s => `🧬 Surviving mutant in ${s.sourceFile}, ${describeMutant(s.mutant)}: no test fails on it`),
+                ],
+            };
+        } catch (error) {
+            // Mutation testing that cannot run leaves the tests as finalize produced them, unscored and without
+            // the unverified additions
+            logger?.warn("⚠️ Mutation testing failed, keeping the generated tests unscored", {
+                error: error instanceof Error ? error.message : 'Unknown error',
+                type: "MUTATION_TESTING",
+                runId: runId,
+            });
+            await restoreRewrites();
+            await notifyStepStatus({
+                stepId: "mutation-testing-step",
+                status: "completed",
+                runId,
+                containerId,
+                title: "Mutation testing skipped",
+                subtitle: error instanceof Error ? error.message.substring(0, 200) : 'Unknown error',
+                level: 'warning',
+                toolCallCount: cliToolMetrics.callCount,
+                projectId: inputData.projectId,
+            });
+            return {
+                ...inputData,
+                recommendations: [...inputData.recommendations, `⚠️ Mutation testing could not run: ${error instanceof Error ? error.message : 'Unknown error'}`],
+            };
+        }
+    },
+});
+
+/**
+ * Step 5: Flakiness check before anything is committed
+ *
+ * Runs every passing generated test file `FLAKY_TEST_RUNS` more times, each in an order shuffled by a fresh
+ * seed. Tests that fail in any run get one rewrite aimed at determinism and are checked again with the same
+ * seeds; those that still fail are quarantined like other failing cases. Flake rates and how each flaky test
+ * was resolved are recorded in `testGeneration.flakiness`.
+ */
+export const detectFlakyTestsStep = createStep({
+    id: "detect-flaky-tests-step",
+    inputSchema: FinalizeOutput,
+    outputSchema: FinalizeOutput,
+    execute: async ({ inputData, mastra, runId, getInitData }) => {
+        const { containerId, testGeneration } = inputData;
+        const runs = flakyRunCount();
+        const generated = testGeneration.testFiles.filter(f => f.success && f.execution);
+        if (runs === 0 || generated.length === 0) return inputData;
+
+        const logger = mastra?.getLogger();
+        await notifyStepStatus({
+            stepId: "detect-flaky-tests-step",
+            status: "starting",
+            runId,
+            containerId,
+            title: "Flakiness check",
+            subtitle: `${generated.length} file(s) × ${runs} shuffled run(s)`,
+            projectId: inputData.projectId,
+        });
+
+        let restoreRewrites = async () => {};
+        try {
+            const repoPath = await resolveRepoPath(containerId);
+            const report = await detectFlakyGeneratedTests(containerId, repoPath, generated, randomSeeds(runs));
+            let current = testGeneration;
+            let stillFlaky: FlakyTest[] = [];
+
+            if (report.flakyTests.length > 0) {
+                logger?.warn("🎲 Flaky generated tests detected", {
+                    flakyTests: report.flakyTests.map(t => ({ testFile: t.testFile, name: t.name, flakeRate: t.flakeRate, seeds: t.seeds })),
+                    type: "FLAKY_TESTS",
+                    runId: runId,
+                });
+
+                // 1. One rewrite per file aimed at determinism, checked again with the same seeds
+                const flakyFiles = generated.filter(f => report.flakyTests.some(t => t.testFile === f.testFile));
+                const rewrite = await applyTestRewrites({
+                    containerId,
+                    testGeneration: current,
+                    rewrites: flakyFiles.map(file => flakyTestsRewrite(file, report.flakyTests.filter(t => t.testFile === file.testFile))),
+                    restorable: generated.map(f => f.testFile),
+                    generationBudget: getInitData()?.generationBudget,
+                    logType: "FLAKY_TESTS",
+                    runId,
+                    logger,
+                });
+                restoreRewrites = rewrite.restore;
+                current = rewrite.execution.testGeneration;
+                stillFlaky = (await detectFlakyGeneratedTests(containerId, repoPath, flakyFiles, report.seeds)).flakyTests;
+
+                // 2. Quarantine what is still flaky; otherwise a normal run confirms the rewrites
+                const failingRuns: TestFileRun[] = flakyFiles
+                    .filter(f => stillFlaky.some(t => t.testFile === f.testFile))
+                    .map(f => {
+                        const flaky = stillFlaky.filter(t => t.testFile === f.testFile);
+                        const fileLevel = flaky.find(t => t.name === t.testFile);
+                        return {
+                            testFile: f.testFile,
+                            tests: flaky.filter(t => t !== fileLevel).map(t => ({ name: t.name, status: "failed" as const, message: `flaky, ${describeFlakeRate(t)}` })),
+                            error: fileLevel ? `flaky, ${describeFlakeRate(fileLevel)}` : undefined,
+                        };
+                    });
+                if (failingRuns.length === 0) failingRuns.push(...rewrite.execution.runs.filter(hasTestFailures));
+                if (failingRuns.length > 0) {
+                    current = (await quarantineFailingTests(containerId, current, failingRuns, undefined, runId, logger)).testGeneration;
+                }
+            }
+
+            const flakyTests = report.flakyTests.map(t => ({
+                ...t,
+                resolution: stillFlaky.some(s => s.testFile === t.testFile && s.name === t.name) ? "quarantined" as const : "repaired" as const,
+            }));
+            current = { ...current, flakiness: { runs: report.runs, seeds: report.seeds, flakyTests } };
+            const success = current.summary.successfulFiles > 0;
+
+            await notifyStepStatus({
+                stepId: "detect-flaky-tests-step",
+                status: "completed",
+                runId,
+                containerId,
+                title: "Flakiness check completed",
+                subtitle: flakyTests.length > 0
+                    ? `${flakyTests.length} flaky test(s): ${flakyTests.filter(t => t.resolution === "repaired").length} repaired, ${flakyTests.filter(t => t.resolution === "quarantined").length} quarantined`
+                    : `No flaky tests in ${report.runs} shuffled run(s)`,
+                level: flakyTests.length > 0 ? 'warning' : undefined,
+                toolCallCount: cliToolMetrics.callCount,
+                projectId: inputData.projectId,
+                metadata: { runs: report.runs, seeds: report.seeds, flakyTests: flakyTests.map(({ testFile, name, flakeRate, resolution }) => ({ testFile, name, flakeRate, resolution })) },
+            });
+
+            return {
+                ...inputData,
+                success,
+                toolCallCount: cliToolMetrics.callCount,
+                testGeneration: current,
+                recommendations: [
+                    ...inputData.recommendations,
+                    ...flakyTests.map(t => `🎲 Flaky (${Math.round(t.flakeRate * 100)}% of shuffled runs) ${t.resolution}: ${t.testFile} › ${describeFlakyTest(t)}`),
+                ],
+            };
+        } catch (error) {
+            // A check that cannot run leaves the tests as finalize produced them, undoing unverified rewrites
+            logger?.warn("⚠️ Flakiness check failed, keeping the generated tests as they are", {
+                error: error instanceof Error ? error.message : 'Unknown error',
+                type: "FLAKY_TESTS",
+                runId: runId,
+            });
+            await restoreRewrites();
+            await notifyStepStatus({
+                stepId: "detect-flaky-tests-step",
+                status: "completed",
+                runId,
+                containerId,
+                title: "Flakiness check skipped",
+                subtitle: error instanceof Error ? error.message.substring(0, 200) : 'Unknown error',
+                level: 'warning',
+                toolCallCount: cliToolMetrics.callCount,
+                projectId: inputData.projectId,
+            });
+            return {
+                ...inputData,
+                recommendations: [...inputData.recommendations, `⚠️ Flakiness check could not run: ${error instanceof Error ? error.message : 'Unknown error'}`],
+            };
+        }
+    },
+});
+
 /**
  * Generate recommendations based on test generation results
  */
 function generateRecommendations(testGeneration: z.infer<typeof TestGenerationResult>, retryCount: number): string[] {
     const recommendations = [];
+    const generated = testGeneration.testFiles.filter(f => f.success).map(f => f.testFile);
+    
+    const { passedTests, failedTests } = testGeneration.summary;
     
     if (testGeneration.summary.successfulFiles > 0 && testGeneration.quality.syntaxValid) {
         recommendations.push(
-            `✅ Run the validated test: npm test ${testGeneration.testFiles[0]?.testFile || ''}`,
-            "Test file has been syntax-validated and is ready for execution",
+            `✅ Run the validated tests: npm test ${generated.join(' ')}`,
+            passedTests !== undefined
+                ? `${generated.length} test file(s) were executed: ${passedTests} test(s) passed, ${failedTests ?? 0} failed`
+                : `${generated.length} test file(s) have been syntax-validated and are ready for execution`,
             "Consider expanding to other high-priority modules",
             "Set up test automation in CI/CD pipeline",
             "Monitor test coverage and add additional test cases as needed"
         );
     } else if (testGeneration.summary.successfulFiles > 0) {
         recommendations.push(
-            `⚠️ Test file created but may have syntax issues: ${testGeneration.testFiles[0]?.testFile || ''}`,
+            `⚠️ Test files created but may have syntax issues: ${generated.join(', ')}`,
             "Review and fix any syntax errors before execution",
             "Check import statements and dependency mocking",
-            "Verify vitest configuration is correct"
+            `Verify the ${[...new Set(testGeneration.testFiles.filter(f => f.success).map(f => testFrameworkOf(f)))].join('/') || 'test runner'} configuration is correct`
         );
     } else {
         recommendations.push(
@@ -1766,6 +2591,30 @@ function generateRecommendations(testGeneration: z.infer<typeof TestGenerationRe
         );
     }
 
+    // Files that failed or that the generation budget did not reach
+    const failed = testGeneration.testFiles.filter(f => !f.success && !f.skipped && !f.quarantined?.some(q => q.action === 'removed'));
+    const skipped = testGeneration.testFiles.filter(f => f.skipped);
+    if (testGeneration.summary.successfulFiles > 0 && failed.length > 0) {
+        recommendations.push(`❌ Generation failed for ${failed.map(f => f.sourceFile).join(', ')}`);
+    }
+    for (const file of testGeneration.testFiles.filter(f => f.execution && (f.execution.error || f.execution.failed > 0))) {
+        const { error, failed: failing, failures } = file.execution!;
+        recommendations.push(error
+            ? `❌ ${file.testFile} does not run: ${error.split('\n')[0]}`
+            : `❌ ${file.testFile} still has ${failing} failing test(s): ${failures.slice(0, 3).map(t => t.name).join(', ')}`);
+    }
+    // Cases the repair stage skipped and files it removed, with the failure behind each
+    for (const file of testGeneration.testFiles) {
+        for (const q of file.quarantined || []) {
+            recommendations.push(q.action === 'removed'
+                ? `🚧 Removed ${file.testFile} (could not be made to pass): ${q.reason}`
+                : `🚧 Quarantined ${file.testFile} › ${q.name} (marked skipped with a TODO): ${q.reason}`);
+        }
+    }
+    if (skipped.length > 0) {
+        recommendations.push(`⏭️ Not generated within the budget: ${skipped.map(f => f.sourceFile).join(', ')} (raise generationBudget to include them)`);
+    }
+
     // Add retry-specific recommendations
     if (retryCount > 0) {
         recommendations.push(
@@ -1789,11 +2638,17 @@ function generateRecommendations(testGeneration: z.infer<typeof TestGenerationRe
  * Generate result message based on test generation results
  */
 function generateResultMessage(testGeneration: z.infer<typeof TestGenerationResult>, retryCount: number): string {
-    if (testGeneration.summary.successfulFiles > 0) {
+    const { successfulFiles, totalSourceFiles } = testGeneration.summary;
+    const generated = testGeneration.testFiles.filter(f => f.success).map(f => f.testFile).join(', ');
+    if (successfulFiles > 0) {
         if (testGeneration.quality.syntaxValid) {
-            return `✅ Enhanced MVP test generation successful with validation: ${testGeneration.testFiles[0]?.testFile || 'test file'} created and validated`;
+            const { passedTests, failedTests } = testGeneration.summary;
+            const { quarantinedTests } = testGeneration.summary;
+            const tests = (passedTests !== undefined ? `, ${passedTests} passing and ${failedTests ?? 0} failing test(s)` : '')
+                + (quarantinedTests ? `, ${quarantinedTests} quarantined` : '');
+            return `✅ Enhanced MVP test generation successful with validation: ${successfulFiles}/${totalSourceFiles} test file(s) created and validated (${generated})${tests}`;
         } else {
-            return `⚠️ MVP test generation completed with syntax warnings: ${testGeneration.testFiles[0]?.testFile || 'test file'} created but needs review`;
+            return `⚠️ MVP test generation completed with syntax warnings: ${successfulFiles}/${totalSourceFiles} test file(s) created but need review (${generated})`;
         }
     } else {
         return `❌ Enhanced MVP test generation failed after ${retryCount} retry attempts - check logs for details`;
@@ -1807,18 +2662,21 @@ function generateResultMessage(testGeneration: z.infer<typeof TestGenerationResu
 /**
  * Generate Unit Tests Workflow (MVP Version)
  * 
- * A streamlined 3-step MVP workflow that generates high-quality unit tests for
- * ONE high priority module using block-based manager-worker pattern with checkpoints.
+ * A streamlined 5-step MVP workflow that generates high-quality unit tests for the
+ * highest value source files, as many as the generation budget allows.
  * 
  * Steps:
  * 0. Check Saved Plan - Fast static check for previously saved plan (no agent calls)
- * 1. Load Context & Plan - Analyze repository and select ONE high priority module for MVP
- * 2. Generate Tests - Use block-based manager-worker pattern with checkpoints
- * 3. Finalize - Simple summary and recommendations
+ * 1. Load Context & Plan - Analyze repository and select up to `maxFiles` source files
+ * 2. Generate Tests - One coding task per file, with bounded parallelism and per-file results
+ * 3. Finalize - Run the generated tests, retry failing files, repair or quarantine failing cases
+ * 4. Mutation testing - Score the tests by the planted faults they catch; add tests for the survivors
+ * 5. Flakiness check - Shuffled repeat runs; flaky tests are made deterministic or quarantined
  * 
  * MVP Features:
  * - Fast resume with static file checking
- * - Focus on single high-priority module for quick results
+ * - Generation budget: file count, parallelism, time and token limits
+ * - Generated tests are executed; cases that keep failing are quarantined so the suite stays green
  * - Block-based generation with progress checkpoints
  * - Co-located test file placement
  * - Comprehensive error handling and fallback strategies
@@ -1827,7 +2685,7 @@ function generateResultMessage(testGeneration: z.infer<typeof TestGenerationResu
  */
 export const generateUnitTestsWorkflow = createWorkflow({
     id: "generate-unit-tests-workflow",
-    description: "MVP workflow: Generate unit tests for ONE high priority module using block-based approach with checkpoints",
+    description: "MVP workflow: Generate unit tests for the highest value source files within a generation budget",
     inputSchema: WorkflowInput,
     outputSchema: UnitTestResult.extend({
         projectId: z.string(),
@@ -1837,4 +2695,6 @@ export const generateUnitTestsWorkflow = createWorkflow({
 .then(loadContextAndPlanStep)
 .then(generateTestCodeStep)
 .then(finalizeStep)
+.then(mutationTestingStep)
+.then(detectFlakyTestsStep)
 .commit();
\ No newline at end of file
@@ -1,10 +1,14 @@
 import { createStep, createWorkflow } from "@mastra/core";
 import z from "zod";
 import { notifyStepStatus } from "../../tools/alert-notifier";
+import { getRunAbortSignal, getRunCheckout } from "../../tools/pipeline-runs";
+import { setSandboxNetworkPhase } from "../../tools/sandbox-network";
+import { getGitTokenForRun } from "../../tools/secret-store";
+import { execWithGitCredentials } from "../../tools/git-credentials";
+import { getGitHostProvider, parseRepositoryUrl, type GitHostProvider, type RepoCoordinates } from "../../tools/git-hosts";
 import { cliToolMetrics } from "../../tools/cli-tool";
+import { frameworkForFile, frameworkLanguage } from "../../tools/test-frameworks";
 import { exec } from "child_process";
-import { existsSync, readFileSync } from "fs";
-import path from "path";
 
 const ALERTS_ONLY = (process.env.ALERTS_ONLY === 'true') || (process.env.LOG_MODE === 'alerts_only') || (process.env.MASTRA_LOG_MODE === 'alerts_only');
 
@@ -26,36 +30,44 @@ function shellEscape(str: string): string {
     return "'" + str.replace(/'/g, "'\"'\"'") + "'";
 }
 
-// Improved docker exec wrapper with better error handling
-async function dockerExec(containerId: string, repoPath: string, command: string): Promise<{ stdout: string; stderr: string }> {
-    const fullCmd = `docker exec ${containerId} bash -lc "cd ${shellEscape(repoPath)} && ${command}"`;
+type GitAuth = { token?: string; username: string };
+
+// Improved docker exec wrapper with better error handling.
+// Pass `gitAuth` for commands that talk to the remote; git then authenticates through the askpass helper.
+async function dockerExec(containerId: string, repoPath: string, command: string, gitAuth?: GitAuth): Promise<{ stdout: string; stderr: string }> {
     try {
+        if (gitAuth?.token) {
+            return await execWithGitCredentials(containerId, `cd ${shellEscape(repoPath)} && ${command}`, gitAuth.token, gitAuth.username);
+        }
+        const fullCmd = `docker exec ${containerId} bash -lc "cd ${shellEscape(repoPath)} && ${command}"`;
         return await sh(fullCmd);
     } catch (error) {
         throw new Error(`Docker exec failed: ${error instanceof Error ? error.message : String(error)}`);
     }
 }
 
-function getGithubTokenFromHost(): string | null {
-    // Try env first
-    const envToken = process.env.GITHUB_PAT || process.env.GITHUB_TOKEN || process.env.GH_TOKEN;
-    if (envToken && envToken.trim().length > 0) return envToken.trim();
-
-    // Try local credentials file(s)
-    try {
-        const cwd = process.cwd();
-        const primary = path.resolve(cwd, ".docker.credentials");
-        const fallback = path.resolve(cwd, "..", "..", ".docker.credentials");
-        const target = existsSync(primary) ? primary : (existsSync(fallback) ? fallback : null);
-        if (!target) return null;
-        const content = readFileSync(target, "utf8");
-        const m = content.match(/GITHUB_PAT\s*=\s*(.+)/);
-        return m && m[1] ? m[1].trim() : null;
-    } catch {
-        return null;
+// Stage the generated test files that passed. Files that failed, were removed or were left half-written by the
+// agent stay out of the commit, as does anything else the run changed in the sandbox. A path that no longer
+// exists is skipped, since git rejects a pathspec that matches nothing.
+async function stageGeneratedTests(containerId: string, repoPath: string, testGeneration: any): Promise<void> {
+    const candidates: string[] = (Array.isArray(testGeneration?.testFiles) ? testGeneration.testFiles : [])
+        .filter((f: any) => f?.success && f?.testFile)
+        .map((f: any) => f.testFile);
+    if (candidates.length === 0) return;
+    const existing = await sh(`docker exec ${containerId} bash -c ${shellEscape(`cd ${shellEscape(repoPath)} && for f in ${candidates.map(shellEscape).join(" ")}; do [ -f "$f" ] && printf '%s\\n' "$f"; done; true`)}`);
+    const testFiles = existing.stdout.split("\n").filter(Boolean);
+    if (testFiles.length > 0) {
+        await dockerExec(containerId, repoPath, `git add -A -- ${testFiles.map(shellEscape).join(" ")}`);
     }
 }
 
+// Host, owner and repo of the clone's origin remote; unknown remotes fall back to GitHub
+async function resolveOrigin(containerId: string, repoPath: string): Promise<{ coords?: RepoCoordinates; provider: GitHostProvider }> {
+    const { stdout } = await dockerExec(containerId, repoPath, "git remote get-url origin").catch(() => ({ stdout: "" }));
+    const coords = parseRepositoryUrl(stdout.trim());
+    return { coords, provider: getGitHostProvider(coords?.kind || "github") };
+}
+
 // ============================================================================
 // Step 1: Prepare git branch, commit changes, and push
 // ============================================================================
@@ -81,6 +93,7 @@ export const prepareCommitAndPushStep = createStep({
         baseBranch: z.string(),
         repoOwner: z.string(),
         repoName: z.string(),
+        repoHost: z.string().optional().describe("Hostname of the git host (github.com, gitlab.com, bitbucket.org, ...)"),
         commitMessage: z.string(),
         projectId: z.string(),
         testGeneration: z.any().optional(),
@@ -105,6 +118,13 @@ export const prepareCommitAndPushStep = createStep({
             subtitle: "Creating branch and committing tests",
         });
 
+        // Fetch and push need GitHub again; the sandbox has been offline since provisioning
+        try {
+            await setSandboxNetworkPhase(containerId, "egress");
+        } catch (err) {
+            logger?.warn?.("Failed to re-enable sandbox egress", { error: err instanceof Error ? err.message : String(err), type: "NETWORK", runId });
+        }
+
         // 1) Resolve repo path inside container
         let repoPath = inputData.repoPath || "";
         try {
@@ -116,37 +136,53 @@ export const prepareCommitAndPushStep = createStep({
             throw new Error(`Failed to resolve repoPath: ${err instanceof Error ? err.message : String(err)}`);
         }
 
+        // Token and askpass username follow the host the repository was cloned from
+        const { coords, provider } = await resolveOrigin(containerId, repoPath);
+        const gitAuth: GitAuth = { token: getGitTokenForRun(runId, provider.kind), username: provider.gitUsername };
+        const repoOwner = coords?.owner || "unknown";
+        const repoName = coords?.repo || "unknown";
+        const repoHost = coords?.hostname;
+
         // 2) Ensure git identity and fetch latest
         try {
             await dockerExec(containerId, repoPath, "git config user.email 'mastra-bot@local'");
             await dockerExec(containerId, repoPath, "git config user.name 'Mastra Bot'");
-            await dockerExec(containerId, repoPath, "git fetch origin --prune");
+            await dockerExec(containerId, repoPath, "git fetch origin --prune", gitAuth);
         } catch (err) {
             logger?.warn?.("Git setup failed", { error: err instanceof Error ? err.message : String(err) });
         }
 
-        // 3) Determine base branch priority: dev > develop > main > master > origin HEAD
+        // 3) Determine base branch priority: dev > develop > main > master > host default branch > origin HEAD
         let baseBranch = "main";
         try {
-            const { stdout: branches } = await dockerExec(containerId, repoPath, "git ls-remote --heads origin dev develop main master | awk -F'/' '{print $NF}'");
+            const { stdout: branches } = await dockerExec(containerId, repoPath, "git ls-remote --heads origin dev develop main master | awk -F'/' '{print $NF}'", gitAuth);
             const available = branches.split(/\r?\n/).map(s => s.trim()).filter(Boolean);
             if (available.includes("dev")) baseBranch = "dev";
             else if (available.includes("develop")) baseBranch = "develop";
             else if (available.includes("main")) baseBranch = "main";
             else if (available.includes("master")) baseBranch = "master";
             else {
-                // Fallback to default branch
-                try {
-                    const { stdout: head } = await dockerExec(containerId, repoPath, "git symbolic-ref refs/remotes/origin/HEAD | sed 's@^refs/remotes/origin/@@'");
-                    if (head.trim()) baseBranch = head.trim();
-                } catch {
-                    // keep "main" as fallback
+                // Fallback to the host's default branch, then origin HEAD
+                const metadata = coords ? await provider.getMetadata(coords, gitAuth.token) : {};
+                if (metadata.defaultBranch) {
+                    baseBranch = metadata.defaultBranch;
+                } else {
+                    try {
+                        const { stdout: head } = await dockerExec(containerId, repoPath, "git symbolic-ref refs/remotes/origin/HEAD | sed 's@^refs/remotes/origin/@@'");
+                        if (head.trim()) baseBranch = head.trim();
+                    } catch {
+                        // keep "main" as fallback
+                    }
                 }
             }
         } catch (err) {
             logger?.warn?.("Base branch detection failed, using main", { error: err instanceof Error ? err.message : String(err) });
         }
 
+        // A requested feature branch or pull request decides the base; the heuristics and the planner do not
+        const checkout = getRunCheckout(runId);
+        if (checkout?.targetBranch) baseBranch = checkout.targetBranch;
+
         // 3.5) Empowered planning via githubPrAgent (uses docker_exec internally) to choose branch/base/message
         let plannedBranchName: string | undefined;
         let plannedBaseBranch: string | undefined;
@@ -171,7 +207,7 @@ Return JSON exactly:
   "baseBranch": "...",
   "commitMessage": "..."
 }`;
-                const planResult: any = await prAgent.generate(planPrompt, { maxSteps: 60, maxRetries: 1 });
+                const planResult: any = await prAgent.generate(planPrompt, { maxSteps: 60, maxRetries: 1, abortSignal: getRunAbortSignal(runId) });
                 const text = (planResult?.text || "{}").toString();
                 const md = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
                 const jsonRaw = md ? md[1] : text.substring(text.indexOf('{'), text.lastIndexOf('}') + 1);
@@ -187,7 +223,7 @@ Return JSON exactly:
             // planning is best-effort; continue with heuristics
             logger?.debug?.("PR planning via agent failed; using defaults", { error: e instanceof Error ? e.message : String(e) });
         }
-        if (plannedBaseBranch) baseBranch = plannedBaseBranch;
+        if (plannedBaseBranch && !checkout?.targetBranch) baseBranch = plannedBaseBranch;
 
         // 4) Create a unique branch name and handle existing branches
         const ts = new Date().toISOString().replace(/[-:TZ\.]/g, "").slice(0, 14);
@@ -198,7 +234,7 @@ Return JSON exactly:
             // Check if branch already exists remotely
             let branchExists = false;
             try {
-                await dockerExec(containerId, repoPath, `git ls-remote --heads origin ${branchName}`);
+                await dockerExec(containerId, repoPath, `git ls-remote --heads origin ${branchName}`, gitAuth);
                 branchExists = true;
                 // If it exists, make it unique
                 branchName = `${branchName}-${Math.random().toString(36).slice(2, 8)}`;
@@ -206,39 +242,33 @@ Return JSON exactly:
                 // Branch doesn't exist, proceed
             }
 
-            // Ensure we have the latest base branch
-            await dockerExec(containerId, repoPath, `git fetch origin ${baseBranch}`);
+            // Ensure we have the latest base branch. The explicit refspec also covers shallow clones,
+            // which are single-branch and would otherwise not create origin/<base>.
+            const depthArg = checkout?.depth ? ` --depth ${checkout.depth}` : "";
+            await dockerExec(containerId, repoPath, `git fetch${depthArg} origin +refs/heads/${baseBranch}:refs/remotes/origin/${baseBranch}`, gitAuth);
             
-            // Create branch from the latest base
-            await dockerExec(containerId, repoPath, `git checkout -B ${branchName} origin/${baseBranch}`);
+            // Create branch from the latest base. Tags, commits and fork PRs branch from the checked-out
+            // commit instead, since the tests were generated against that code.
+            const fromCheckedOutCommit = checkout?.refType === 'tag' || checkout?.refType === 'commit'
+                || (checkout?.refType === 'pull-request' && !checkout.pullRequest?.sameRepository);
+            const startPoint = fromCheckedOutCommit ? checkout!.sha : `origin/${baseBranch}`;
+            await dockerExec(containerId, repoPath, `git checkout -B ${branchName} ${startPoint}`);
             
         } catch (err) {
             throw new Error(`Failed to create branch: ${err instanceof Error ? err.message : String(err)}`);
         }
 
-        // 5) Stage changes (prefer tests directory if known)
+        // 5) Stage the generated tests that passed
         try {
-            const testDir = (inputData as any)?.repoAnalysis?.testDirectory || "tests";
-            // Stage tests dir if exists, otherwise stage all
-            const { stdout: testDirExists } = await dockerExec(containerId, repoPath, `test -d ${testDir} && echo EXISTS || echo NO`);
-            if (testDirExists.trim() === "EXISTS") {
-                await dockerExec(containerId, repoPath, `git add -A -- ${testDir}`);
-            } else {
-                await dockerExec(containerId, repoPath, "git add -A");
-            }
+            await stageGeneratedTests(containerId, repoPath, (inputData as any)?.testGeneration);
         } catch (err) {
             throw new Error(`Failed to stage changes: ${err instanceof Error ? err.message : String(err)}`);
         }
 
         // 6) Check if there is anything to commit
-        const { stdout: statusOut } = await dockerExec(containerId, repoPath, "git status --porcelain");
+        const { stdout: statusOut } = await dockerExec(containerId, repoPath, "git diff --cached --name-only");
         if (!statusOut.trim()) {
             // Nothing changed; still return repo info to allow next steps to no-op
-            const { stdout: remoteUrlRaw } = await dockerExec(containerId, repoPath, "git remote get-url origin");
-            const remoteUrl = remoteUrlRaw.trim();
-            const match = remoteUrl.match(/github\.com[:/]{1,2}([^/]+)\/([^\.]+)(?:\.git)?/);
-            const repoOwner = match?.[1] || "unknown";
-            const repoName = match?.[2] || "unknown";
             const commitMessage = "No changes to commit";
 
             await notifyStepStatus({
@@ -252,7 +282,7 @@ Return JSON exactly:
                 toolCallCount: cliToolMetrics.callCount,
             });
 
-            return { containerId, repoPath, branchName, baseBranch, repoOwner, repoName, commitMessage, projectId: inputData.projectId };
+            return { containerId, repoPath, branchName, baseBranch, repoOwner, repoName, repoHost, commitMessage, projectId: inputData.projectId };
         }
 
         // 7) Build commit message from available context
@@ -274,7 +304,7 @@ Return JSON exactly:
         } catch (err) {
             // If commit fails, try recovery with single combined message
             try {
-                await dockerExec(containerId, repoPath, `git add -A && git commit -m ${shellEscape(commitMessageCombined)} --no-verify`);
+                await dockerExec(containerId, repoPath, `git commit -m ${shellEscape(commitMessageCombined)} --no-verify`);
             } catch (err2) {
                 logger?.warn?.("Commit attempt failed; will verify divergence and attempt recovery", { error: err2 instanceof Error ? err2.message : String(err2) });
             }
@@ -283,7 +313,7 @@ Return JSON exactly:
         // 8) Push branch with force-with-lease for safety
         try {
             // First try a normal push
-            await dockerExec(containerId, repoPath, `git push -u origin ${branchName}`);
+            await dockerExec(containerId, repoPath, `git push -u origin ${branchName}`, gitAuth);
         } catch (err) {
             const errorMsg = err instanceof Error ? err.message : String(err);
             
@@ -293,7 +323,7 @@ Return JSON exactly:
                 
                 try {
                     // Fetch latest and try to rebase
-                    await dockerExec(containerId, repoPath, `git fetch origin ${branchName}`);
+                    await dockerExec(containerId, repoPath, `git fetch origin ${branchName}`, gitAuth);
                     
                     // Check if remote branch exists and has commits
                     const { stdout: remoteBranchInfo } = await dockerExec(containerId, repoPath, `git log --oneline origin/${branchName} 2>/dev/null | head -5`);
@@ -302,16 +332,16 @@ Return JSON exactly:
                         // Remote branch has commits, need to merge/rebase
                         logger?.info?.("Remote branch has commits, rebasing local changes");
                         await dockerExec(containerId, repoPath, `git rebase origin/${branchName}`);
-                        await dockerExec(containerId, repoPath, `git push origin ${branchName}`);
+                        await dockerExec(containerId, repoPath, `git push origin ${branchName}`, gitAuth);
                     } else {
                         // Force push since remote might be in inconsistent state
                         logger?.warn?.("Remote branch inconsistent, force pushing");
-                        await dockerExec(containerId, repoPath, `git push --force-with-lease origin ${branchName}`);
+                        await dockerExec(containerId, repoPath, `git push --force-with-lease origin ${branchName}`, gitAuth);
                     }
                 } catch (recoveryErr) {
                     // As last resort, try force push with lease
                     try {
-                        await dockerExec(containerId, repoPath, `git push --force-with-lease origin ${branchName}`);
+                        await dockerExec(containerId, repoPath, `git push --force-with-lease origin ${branchName}`, gitAuth);
                     } catch (forceErr) {
                         throw new Error(`Failed to push after all recovery attempts: ${forceErr instanceof Error ? forceErr.message : String(forceErr)}`);
                     }
@@ -321,13 +351,6 @@ Return JSON exactly:
             }
         }
 
-        // 9) Extract repo owner/name from origin
-        const { stdout: remoteUrlOut } = await dockerExec(containerId, repoPath, "git remote get-url origin");
-        const remoteUrl = remoteUrlOut.trim();
-        const match = remoteUrl.match(/github\.com[:/]{1,2}([^/]+)\/([^\.]+)(?:\.git)?/);
-        const repoOwner = match?.[1] || "unknown";
-        const repoName = match?.[2] || "unknown";
-
         await notifyStepStatus({
             stepId: "prepare-commit-and-push-step",
             status: "completed",
@@ -346,6 +369,7 @@ Return JSON exactly:
             baseBranch, 
             repoOwner, 
             repoName, 
+            repoHost,
             commitMessage: commitMessageCombined, 
             projectId: inputData.projectId,
             testGeneration: (inputData as any)?.testGeneration,
@@ -360,7 +384,7 @@ Return JSON exactly:
 });
 
 // ============================================================================
-// Step 2: Create Pull Request via GitHub API
+// Step 2: Create Pull Request via the git host's API
 // ============================================================================
 export const createPullRequestStep = createStep({
     id: "create-pull-request-step",
@@ -371,6 +395,7 @@ export const createPullRequestStep = createStep({
         baseBranch: z.string(),
         repoOwner: z.string(),
         repoName: z.string(),
+        repoHost: z.string().optional().describe("Hostname of the git host (github.com, gitlab.com, bitbucket.org, ...)"),
         commitMessage: z.string(),
         projectId: z.string(),
         testGeneration: z.any().optional(),
@@ -393,10 +418,17 @@ export const createPullRequestStep = createStep({
     }),
     execute: async ({ inputData, mastra, runId }) => {
         const logger = ALERTS_ONLY ? null : mastra?.getLogger();
-        const token = getGithubTokenFromHost();
+        // Older callers only pass owner/name; those repos are on GitHub
+        const coords = parseRepositoryUrl(`https://${inputData.repoHost || "github.com"}/${inputData.repoOwner}/${inputData.repoName}`);
+        if (!coords) {
+            throw new Error(`Cannot resolve repository ${inputData.repoOwner}/${inputData.repoName} on ${inputData.repoHost || "github.com"}`);
+        }
+        const provider = getGitHostProvider(coords.kind);
+        const token = getGitTokenForRun(runId, coords.kind);
         if (!token) {
-            throw new Error("GitHub token not found. Ensure .docker.credentials or env GITHUB_PAT exists.");
+            throw new Error(`${provider.label} token not found. Start the run through /start-full-pipeline or set the host token env var.`);
         }
+        const gitAuth: GitAuth = { token, username: provider.gitUsername };
 
         await notifyStepStatus({
             stepId: "create-pull-request-step",
@@ -412,18 +444,46 @@ export const createPullRequestStep = createStep({
         const tg = (inputData as any)?.testGeneration || {};
         const qa = tg?.quality || {};
         const summary = tg?.summary || {};
-        const testFile = Array.isArray(tg?.testFiles) && tg?.testFiles[0]?.testFile ? tg.testFiles[0].testFile : undefined;
+        const generatedFiles: Array<{ sourceFile: string; testFile: string; framework?: string }> = Array.isArray(tg?.testFiles) ? tg.testFiles.filter((f: any) => f?.success && f?.testFile) : [];
         const functionsCount = summary?.totalFunctions ?? 0;
         const casesCount = summary?.totalTestCases ?? 0;
         const syntaxValid = qa?.syntaxValid === true;
         const followsBest = qa?.followsBestPractices === true;
-        const coverageScore = typeof qa?.coverageScore === 'number' ? qa.coverageScore : undefined;
+        const mutation = tg?.mutation;
+        const mutationScore = typeof mutation?.score === 'number'
+            ? `\n- Mutation score: ${mutation.score}% (${(mutation.killed ?? 0) + (mutation.timedOut ?? 0)} of ${mutation.mutants ?? 0} mutants detected, ${mutation.survived ?? 0} survived)`
+            : '';
+        const survivors: string[] = (Array.isArray(tg?.testFiles) ? tg.testFiles : []).flatMap((f: any) => (Array.isArray(f?.mutation?.mutants) ? f.mutation.mutants : [])
+            .filter((m: any) => m?.status === 'survived')
+            .map((m: any) => `- \`${f.sourceFile}\` line ${m.line}: ${m.replacement ? `\`${m.original}\` → \`${m.replacement}\`` : `removed \`${String(m.original).trim()}\``} in \`${m.snippet}\``));
+        const testRun = typeof summary?.passedTests === 'number' ? `\n- Test run: ${summary.passedTests} passed, ${summary.failedTests ?? 0} failed` : '';
+        const flaky: any[] = Array.isArray(tg?.flakiness?.flakyTests) ? tg.flakiness.flakyTests : [];
+        const flakiness = tg?.flakiness
+            ? `\n- Flakiness: ${tg.flakiness.runs} shuffled run(s) per file, ${flaky.length === 0 ? 'no flaky tests' : `${flaky.length} flaky test(s) (${flaky.filter(t => t?.resolution === 'repaired').length} made deterministic, ${flaky.filter(t => t?.resolution === 'quarantined').length} quarantined)`}`
+            : '';
+        const quarantined: string[] = (Array.isArray(tg?.testFiles) ? tg.testFiles : []).flatMap((f: any) => (Array.isArray(f?.quarantined) ? f.quarantined : []).map((q: any) =>
+            q?.action === 'removed' ? `- \`${f.testFile}\` removed: ${q.reason}` : `- \`${f.testFile}\` › ${q.name} (skipped): ${q.reason}`));
+
+        const frameworkNames: Record<string, string> = { vitest: 'Vitest', jest: 'Jest', pytest: 'pytest' };
+        const frameworks = [...new Set(generatedFiles.map(f => {
+            const framework = frameworkForFile(f.sourceFile, f.framework);
+            return `${frameworkNames[framework]} (${frameworkLanguage(framework)})`;
+        }))];
 
         const title = `Add high-quality unit tests (${functionsCount} functions, ${casesCount} cases)`;
 
-        const spec = (inputData as any)?.testSpecs?.[0] || {};
-        const sourceFile = spec?.sourceFile || "[unknown source]";
-        const specFunctions = Array.isArray(spec?.functions) ? spec.functions.map((f: any) => `- ${f.name}: ${Array.isArray(f.testCases) ? f.testCases.length : 0} cases`).join("\n") : "- [spec not available]";
+        const checkout = getRunCheckout(runId);
+        const checkoutLines = checkout ? [
+            `\n- Generated against commit: ${checkout.sha}`,
+            checkout.pullRequest ? `\n- Targets PR #${checkout.pullRequest.number} (${checkout.pullRequest.headBranch})` : '',
+            checkout.ref && !checkout.pullRequest ? `\n- Requested ref: ${checkout.ref}` : '',
+        ].join('') : '';
+
+        const specs: any[] = Array.isArray((inputData as any)?.testSpecs) ? (inputData as any).testSpecs : [];
+        const sourceFiles = generatedFiles.length > 0 ? generatedFiles.map(f => f.sourceFile) : specs.map(spec => spec?.sourceFile).filter(Boolean);
+        const specFunctions = specs.length > 0
+            ? specs.map(spec => (specs.length > 1 ? [`${spec?.sourceFile}:`] : []).concat(Array.isArray(spec?.functions) ? spec.functions.map((f: any) => `- ${f.name}: ${Array.isArray(f.testCases) ? f.testCases.length : 0} cases`) : ["- [spec not available]"]).join("\n")).join("\n")
+            : "- [spec not available]";
 
         const body = [
 `## What
@@ -431,12 +491,12 @@ This PR introduces comprehensive unit tests for critical modules, focusing on co
 `## Why
 Improves confidence in core business logic and guards against regressions. The test suite follows pragmatic best practices championed by Google and similar large-scale engineering organizations.`,
 `## Scope
-- Source under test: ${sourceFile}
-- Generated test file: ${testFile || '[unknown]'}
+- Source under test: ${sourceFiles.join(', ') || '[unknown source]'}
+- Generated test files: ${generatedFiles.map(f => f.testFile).join(', ') || '[unknown]'}
 - Functions covered: ${functionsCount}
-- Test cases: ${casesCount}${coverageScore !== undefined ? `\n- Estimated coverage score: ${coverageScore}` : ''}`,
+- Test cases: ${casesCount}${testRun}${mutationScore}${checkoutLines}`,
 `## Design & Approach
-- Framework: Vitest (TypeScript)
+- Framework: ${frameworks.join(', ') || 'Vitest (TypeScript)'}
 - Clear Arrange-Act-Assert structure
 - Deterministic mocks for external deps
 - Edge cases and error paths explicitly validated
@@ -447,8 +507,14 @@ Functions analyzed and their scenarios:
 ${specFunctions}`,
 `## Quality
 - Syntax valid: ${syntaxValid ? 'Yes' : 'Needs follow-up'}
-- Best practices: ${followsBest ? 'Adhered' : 'Partial'}
+- Best practices: ${followsBest ? 'Adhered' : 'Partial'}${flakiness}
 - Lint/style consistency: aligned with repo defaults`,
+...(survivors.length > 0 ? [`## Surviving mutants
+No generated test fails when one of these changes is made to the source, so the behaviour they touch is not pinned down yet:
+${survivors.slice(0, 20).join('\n')}${survivors.length > 20 ? `\n- … and ${survivors.length - 20} more` : ''}`] : []),
+...(quarantined.length > 0 ? [`## Quarantined tests
+These generated cases kept failing after retries and a targeted rewrite, so they are skipped with a TODO (or their file was left out) to keep the suite green:
+${quarantined.join('\n')}`] : []),
 `## Reviewer Notes
 - Start with the test names for intent
 - Verify mocks align with real dependency boundaries
@@ -467,81 +533,45 @@ ${specFunctions}`,
             await dockerExec(inputData.containerId, inputData.repoPath, `git checkout ${inputData.branchName}`);
             
             // Stage and commit if there are changes
-            const { stdout: statusCheck } = await dockerExec(inputData.containerId, inputData.repoPath, "git status --porcelain");
-            if (statusCheck.trim()) {
-                await dockerExec(inputData.containerId, inputData.repoPath, "git add -A");
-                const { stdout: stagedCheck } = await dockerExec(inputData.containerId, inputData.repoPath, "git diff --cached --quiet; echo $?");
-                if (stagedCheck.trim() !== "0") {
-                    await dockerExec(inputData.containerId, inputData.repoPath, `git commit -m ${shellEscape(inputData.commitMessage || title)} --no-verify`);
-                }
+            await stageGeneratedTests(inputData.containerId, inputData.repoPath, (inputData as any)?.testGeneration);
+            const { stdout: stagedCheck } = await dockerExec(inputData.containerId, inputData.repoPath, "git diff --cached --quiet; echo $?");
+            if (stagedCheck.trim() !== "0") {
+                await dockerExec(inputData.containerId, inputData.repoPath, `git commit -m ${shellEscape(inputData.commitMessage || title)} --no-verify`);
             }
             
             // Push if needed
-            await dockerExec(inputData.containerId, inputData.repoPath, `git push -u origin ${inputData.branchName}`).catch(() => {});
+            await dockerExec(inputData.containerId, inputData.repoPath, `git push -u origin ${inputData.branchName}`, gitAuth).catch(() => {});
         } catch {
             // best-effort; PR creation flow has additional recovery
         }
 
-        // Create PR
-        const url = `https://api.github.com/repos/${inputData.repoOwner}/${inputData.repoName}/pulls`;
-        const res = await fetch(url, {
-            method: 'POST',
-            headers: {
-                'Authorization': `token ${token}`,
-                'Accept': 'application/vnd.github+json',
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                title,
-                head: inputData.branchName,
-                base: inputData.baseBranch,
-                body,
-                maintainer_can_modify: true,
-            }),
-        });
+        // Create PR (merge request on GitLab)
+        const mergeRequest = { title, body, head: inputData.branchName, base: inputData.baseBranch };
+        const res = await provider.createMergeRequest(coords, token, mergeRequest);
 
         if (!res.ok) {
-            const text = await res.text().catch(() => "");
-            const isNoCommits = res.status === 422 && /No commits between/i.test(text);
-            if (isNoCommits) {
+            if (res.noCommits) {
                 // Senior-style auto-recovery: ensure at least one commit exists on remote head
                 try {
                     // Stage and commit if needed; if nothing to commit, create an empty commit as last resort
-                    await dockerExec(inputData.containerId, inputData.repoPath, "git add -A");
+                    await stageGeneratedTests(inputData.containerId, inputData.repoPath, (inputData as any)?.testGeneration);
                     try {
                         await dockerExec(inputData.containerId, inputData.repoPath, `git commit -m ${shellEscape(inputData.commitMessage || title)} --no-verify`);
                     } catch {
                         await dockerExec(inputData.containerId, inputData.repoPath, `git commit --allow-empty -m ${shellEscape(inputData.commitMessage || title)} --no-verify`);
                     }
-                    await dockerExec(inputData.containerId, inputData.repoPath, `git push -u origin ${inputData.branchName}`);
+                    await dockerExec(inputData.containerId, inputData.repoPath, `git push -u origin ${inputData.branchName}`, gitAuth);
 
                     // Small fetch to let GitHub register the new head
-                    await dockerExec(inputData.containerId, inputData.repoPath, `git fetch origin ${inputData.branchName} --quiet || true`);
+                    await dockerExec(inputData.containerId, inputData.repoPath, `git fetch origin ${inputData.branchName} --quiet || true`, gitAuth);
 
                     // Retry PR creation once
-                    const retry = await fetch(url, {
-                        method: 'POST',
-                        headers: {
-                            'Authorization': `token ${token}`,
-                            'Accept': 'application/vnd.github+json',
-                            'Content-Type': 'application/json',
-                        },
-                        body: JSON.stringify({
-                            title,
-                            head: inputData.branchName,
-                            base: inputData.baseBranch,
-                            body,
-                            maintainer_can_modify: true,
-                        }),
-                    });
+                    const retry = await provider.createMergeRequest(coords, token, mergeRequest);
                     if (!retry.ok) {
-                        const retryText = await retry.text().catch(() => "");
-                        throw new Error(`Failed to create PR after recovery: ${retry.status} ${retryText}`);
+                        throw new Error(`Failed to create PR after recovery: ${retry.status} ${retry.text}`);
                     }
-                    // Overwrite res/pr with retry
-                    const prRetry = await retry.json() as any;
-                    const prUrlRetry = prRetry?.html_url || `https://github.com/${inputData.repoOwner}/${inputData.repoName}/pulls`;
-                    const prNumberRetry = prRetry?.number;
+                    const prUrlRetry = retry.url;
+                    const prNumberRetry = retry.number;
 
                     await notifyStepStatus({
                         stepId: "create-pull-request-step",
@@ -568,31 +598,21 @@ ${specFunctions}`,
                     throw new Error(`PR creation failed with 422 (no commits). Recovery attempt also failed: ${recoveryErr instanceof Error ? recoveryErr.message : String(recoveryErr)}`);
                 }
             }
-            throw new Error(`Failed to create PR: ${res.status} ${text}`);
+            throw new Error(`Failed to create PR: ${res.status} ${res.text}`);
         }
 
-        const pr = await res.json() as any;
-        const prUrl = pr?.html_url || `https://github.com/${inputData.repoOwner}/${inputData.repoName}/pulls`;
-        const prNumber = pr?.number;
+        const prUrl = res.url;
+        const prNumber = res.number;
 
         // Optionally add initial comment with a concise summary
         try {
-            const commentUrl = `https://api.github.com/repos/${inputData.repoOwner}/${inputData.repoName}/issues/${prNumber}/comments`;
             const commentBody = [
                 `Thanks for reviewing! Key highlights:`,
                 `- Branch: ${inputData.branchName} → ${inputData.baseBranch}`,
                 `- Tests: ${casesCount} cases across ${functionsCount} functions`,
                 `- Focus: correctness, error handling, and determinism`
             ].join("\n");
-            await fetch(commentUrl, {
-                method: 'POST',
-                headers: {
-                    'Authorization': `token ${token}`,
-                    'Accept': 'application/vnd.github+json',
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({ body: commentBody }),
-            });
+            if (prNumber !== undefined) await provider.addComment(coords, token, prNumber, commentBody);
         } catch {
             // best effort
         }
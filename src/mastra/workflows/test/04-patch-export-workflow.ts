@@ -0,0 +1,199 @@
+import { createStep, createWorkflow } from "@mastra/core";
+import z from "zod";
+import { notifyStepStatus } from "../../tools/alert-notifier";
+import { getRunCheckout } from "../../tools/pipeline-runs";
+import { exportPatchArtifacts, PATCH_ARTIFACTS, PatchExportSchema, type PatchExport } from "../../tools/local-source";
+import { cliToolMetrics } from "../../tools/cli-tool";
+import { exec } from "child_process";
+
+const ALERTS_ONLY = (process.env.ALERTS_ONLY === 'true') || (process.env.LOG_MODE === 'alerts_only') || (process.env.MASTRA_LOG_MODE === 'alerts_only');
+
+function sh(cmd: string): Promise<{ stdout: string; stderr: string }>{
+    return new Promise((resolve, reject) => {
+        exec(cmd, { maxBuffer: 1024 * 1024 * 10 }, (error, stdout, stderr) => {
+            if (error) {
+                reject(new Error(stderr || error.message));
+            } else {
+                resolve({ stdout, stderr });
+            }
+        });
+    });
+}
+
+function shellEscape(str: string): string {
+    return "'" + str.replace(/'/g, "'\"'\"'") + "'";
+}
+
+async function dockerExec(containerId: string, repoPath: string, command: string): Promise<{ stdout: string; stderr: string }> {
+    try {
+        return await sh(`docker exec ${containerId} bash -lc ${shellEscape(`cd ${repoPath} && ${command}`)}`);
+    } catch (error) {
+        throw new Error(`Docker exec failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+// ============================================================================
+// Patch export: commit the tests in the sandbox and hand them back as a patch and a bundle
+// ============================================================================
+export const exportPatchStep = createStep({
+    id: "export-patch-step",
+    inputSchema: z.object({
+        containerId: z.string().describe("Docker container ID"),
+        repoPath: z.string().optional().describe("Absolute path to the repository inside the container"),
+        projectId: z.string().describe("Project ID associated with this workflow run"),
+        testGeneration: z.any().optional(),
+        repoAnalysis: z.any().optional(),
+        testSpecs: z.any().optional(),
+        result: z.string().optional(),
+        success: z.boolean().optional(),
+        toolCallCount: z.number().optional(),
+        contextPath: z.string().optional(),
+    }),
+    outputSchema: z.object({
+        containerId: z.string(),
+        projectId: z.string(),
+        repoPath: z.string(),
+        prUrl: z.string().describe("Always empty; patch exports do not open a PR"),
+        patch: PatchExportSchema.optional().describe("Absent when the run produced no changes"),
+        result: z.string().optional(),
+        success: z.boolean().optional(),
+        toolCallCount: z.number().optional(),
+        contextPath: z.string().optional(),
+    }),
+    execute: async ({ inputData, mastra, runId }) => {
+        const logger = ALERTS_ONLY ? null : mastra?.getLogger();
+        const { containerId, projectId } = inputData;
+
+        await notifyStepStatus({
+            stepId: "export-patch-step",
+            status: "starting",
+            runId,
+            containerId,
+            projectId,
+            title: "Export tests as patch",
+            subtitle: "Committing tests in the sandbox",
+        });
+
+        let repoPath = inputData.repoPath || "";
+        if (!repoPath) {
+            const { stdout } = await sh(`docker exec ${containerId} bash -lc "for d in /app/*; do if [ -d \\"\\$d/.git\\" ]; then echo \\"\\$d\\"; break; fi; done"`);
+            repoPath = stdout.trim() || "/app";
+        }
+
+        // The clone step recorded the baseline commit; the patch is everything committed after it
+        const checkout = getRunCheckout(runId);
+        const baseSha = checkout?.sha || (await dockerExec(containerId, repoPath, "git rev-parse HEAD")).stdout.trim();
+
+        const ts = new Date().toISOString().replace(/[-:TZ\.]/g, "").slice(0, 14);
+        const suffix = (runId || Math.random().toString(36).slice(2)).toString().slice(0, 8);
+        const branchName = `ai/tests/${ts}-${suffix}`;
+
+        try {
+            await dockerExec(containerId, repoPath, "git config user.email 'mastra-bot@local'");
+            await dockerExec(containerId, repoPath, "git config user.name 'Mastra Bot'");
+            await dockerExec(containerId, repoPath, `git checkout -B ${branchName}`);
+
+            // Only the generated test files that passed go into the patch; anything else in the sandbox
+            // (installed deps, failed or half-written tests) stays out of it. Paths that no longer exist are
+            // skipped, since git rejects a pathspec that matches nothing.
+            const candidates: string[] = ((inputData as any)?.testGeneration?.testFiles || [])
+                .filter((f: any) => f?.success && f?.testFile)
+                .map((f: any) => f.testFile);
+            const { stdout: existing } = candidates.length > 0
+                ? await dockerExec(containerId, repoPath, `for f in ${candidates.map(shellEscape).join(" ")}; do [ -f "$f" ] && printf '%s\\n' "$f"; done; true`)
+                : { stdout: "" };
+            const testFiles = existing.split("\n").filter(Boolean);
+            if (testFiles.length > 0) {
+                await dockerExec(containerId, repoPath, `git add -A -- ${testFiles.map(shellEscape).join(" ")}`);
+            }
+        } catch (err) {
+            throw new Error(`Failed to stage tests: ${err instanceof Error ? err.message : String(err)}`);
+        }
+
+        const { stdout: statusOut } = await dockerExec(containerId, repoPath, "git diff --cached --name-only");
+        if (!statusOut.trim()) {
+            await notifyStepStatus({
+                stepId: "export-patch-step",
+                status: "completed",
+                runId,
+                containerId,
+                projectId,
+                title: "No changes detected",
+                subtitle: "Nothing to export",
+                toolCallCount: cliToolMetrics.callCount,
+            });
+            return { containerId, projectId, repoPath, prUrl: "", result: inputData.result, success: inputData.success, toolCallCount: inputData.toolCallCount, contextPath: inputData.contextPath };
+        }
+
+        const tg = (inputData as any)?.testGeneration || {};
+        const testsSummary = tg?.summary ? `functions: ${tg.summary.totalFunctions}, cases: ${tg.summary.totalTestCases}` : "generated tests";
+        await dockerExec(containerId, repoPath, `git commit -m ${shellEscape(`Add comprehensive unit tests (${testsSummary})`)} --no-verify`);
+
+        const headSha = (await dockerExec(containerId, repoPath, "git rev-parse HEAD")).stdout.trim();
+        const { stdout: changed } = await dockerExec(containerId, repoPath, `git diff --name-only ${baseSha} ${headSha}`);
+        const files = changed.split(/\r?\n/).map((f) => f.trim()).filter(Boolean);
+
+        try {
+            await exportPatchArtifacts({ runId, containerId, repoPath, baseSha, branchName, fullHistory: checkout?.baselineCreated === true });
+        } catch (err) {
+            throw new Error(`Failed to export patch: ${err instanceof Error ? err.message : String(err)}`);
+        }
+        logger?.info("Exported tests patch", { files: files.length, baseSha, headSha, type: "PATCH_EXPORT", runId });
+
+        const patch: PatchExport = {
+            branchName,
+            baseSha,
+            headSha,
+            files,
+            artifacts: PATCH_ARTIFACTS.map((name) => ({ name, url: `/pipeline-runs/${runId}/artifacts/${name}` })),
+        };
+
+        await notifyStepStatus({
+            stepId: "export-patch-step",
+            status: "completed",
+            runId,
+            containerId,
+            projectId,
+            title: "Tests exported",
+            subtitle: `${files.length} file(s) in tests.patch and tests.bundle`,
+            toolCallCount: cliToolMetrics.callCount,
+            metadata: { patch },
+        });
+
+        return {
+            containerId,
+            projectId,
+            repoPath,
+            prUrl: "",
+            patch,
+            result: inputData.result,
+            success: inputData.success,
+            toolCallCount: inputData.toolCallCount,
+            contextPath: inputData.contextPath,
+        };
+    },
+});
+
+// ============================================================================
+// Standalone Workflow (04, patch export mode)
+// ============================================================================
+export const patchExportWorkflow = createWorkflow({
+    id: "patch-export-workflow",
+    description: "Commit generated tests in the sandbox and export them as a git patch and bundle",
+    inputSchema: z.object({
+        containerId: z.string(),
+        repoPath: z.string().optional(),
+        projectId: z.string(),
+        testGeneration: z.any().optional(),
+        repoAnalysis: z.any().optional(),
+        testSpecs: z.any().optional(),
+        contextPath: z.string().optional(),
+    }),
+    outputSchema: z.object({
+        prUrl: z.string(),
+        projectId: z.string(),
+        patch: PatchExportSchema.optional(),
+    }),
+})
+.then(exportPatchStep as any)
+.commit();
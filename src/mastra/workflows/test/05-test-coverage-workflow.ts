@@ -1,7 +1,11 @@
 import { createStep, createWorkflow } from "@mastra/core";
 import z from "zod";
 import { notifyStepStatus } from "../../tools/alert-notifier";
+import { getRunAbortSignal } from "../../tools/pipeline-runs";
+import { setSandboxNetworkPhase } from "../../tools/sandbox-network";
 import { cliToolMetrics } from "../../tools/cli-tool";
+import { detectScriptTestFramework } from "../../tools/test-frameworks";
+import { resolveRepoPath } from "../../tools/source-analysis";
 import { mastra } from "../..";
 
 const ALERTS_ONLY = (process.env.ALERTS_ONLY === 'true') || (process.env.LOG_MODE === 'alerts_only') || (process.env.MASTRA_LOG_MODE === 'alerts_only');
@@ -61,20 +65,44 @@ export const runTypescriptVitestCoverageStep = createStep({
             status: "starting",
             runId,
             containerId: inputData.containerId,
-            title: "Run TypeScript + Vitest coverage",
+            title: "Run TypeScript coverage",
             subtitle: "Using intelligent agent to validate and calculate coverage",
         });
 
         const logger = ALERTS_ONLY ? null : mastra.getLogger();
+
+        // Coverage executes repository code, so cut the network again after the push phase
+        try {
+            await setSandboxNetworkPhase(inputData.containerId, "offline");
+        } catch (err) {
+            logger?.warn("Failed to disable sandbox network", { error: err instanceof Error ? err.message : String(err), type: "NETWORK", runId });
+        }
+
+        // The runner comes from the project's config, the same detection the generation workflow uses
+        let runner: "Vitest" | "Jest" | undefined;
+        try {
+            const repoPath = await resolveRepoPath(inputData.containerId, inputData.repoPath);
+            const detected = await detectScriptTestFramework(inputData.containerId, repoPath);
+            runner = detected === "jest" ? "Jest" : detected === "vitest" ? "Vitest" : undefined;
+        } catch (err) {
+            logger?.warn("Failed to detect the test runner, leaving it to the agent", { error: err instanceof Error ? err.message : String(err), runId });
+        }
+        const coverageCommands = {
+            Vitest: `docker exec ${inputData.containerId} bash -c "cd DISCOVERED_REPO_PATH && npx vitest run --coverage"`,
+            Jest: `docker exec ${inputData.containerId} bash -c "cd DISCOVERED_REPO_PATH && npx jest --coverage --ci"`,
+        };
+
         const agent = mastra.getAgent("typescriptVitestCoverageAgent");
         if (!agent) throw new Error("typescriptVitestCoverageAgent not registered");
 
-        const prompt = `CRITICAL: Analyze this TypeScript + Vitest project for coverage.
+        const prompt = `CRITICAL: Analyze this TypeScript ${runner || 'Vitest/Jest'} project for coverage.
 
 Container ID: ${inputData.containerId}
 Repo Path Hint: ${inputData.repoPath || 'Not provided - please discover'}
+Test Runner: ${runner ? `${runner} (detected from the project's config - do not detect it again)` : 'Not detected - detect it with coverage_detection'}
 
 CRITICAL: Node.js may NOT be available in the container. Handle gracefully!
+NOTE: The container has NO network access. Dependencies were preinstalled during sandbox provisioning, so do NOT run npm ci/npm install: it cannot download anything. If node_modules is missing, use the ALGORITHMIC approach.
 
 YOUR MISSION:
 1. DISCOVER REPOSITORY PATH DYNAMICALLY (works for ANY repository):
@@ -87,19 +115,23 @@ YOUR MISSION:
 2. Check Node.js availability FIRST:
    - Run: docker exec ${inputData.containerId} which node
    - If "command not found" → Use ALGORITHMIC approach
-   - If found → Use standard Vitest approach
+   - If found → Use the project's test runner (${runner || 'Vitest or Jest'})
 
 3. IF NODE.JS MISSING (likely scenario):
    - Read package.json: docker exec ${inputData.containerId} cat DISCOVERED_REPO_PATH/package.json
-   - Manually parse JSON to check for "typescript" and "vitest" in dependencies/devDependencies
+   - Manually parse JSON to check for "typescript" and "vitest" or "jest" in dependencies/devDependencies
    - Count ALL TypeScript files: docker exec ${inputData.containerId} find DISCOVERED_REPO_PATH -name "*.ts" -o -name "*.tsx" -not -path "*/node_modules/*" -not -path "*/dist/*" -not -path "*/build/*" | wc -l
    - Count test files ANYWHERE: docker exec ${inputData.containerId} find DISCOVERED_REPO_PATH \\( -name "*.test.ts" -o -name "*.spec.ts" -o -name "*.test.tsx" -o -name "*.spec.tsx" \\) -not -path "*/node_modules/*" | wc -l
    - Calculate: source_files = total_files - test_files, coverage = min(1.0, test_count / max(source_count, 1) * 2.5)
    - IMPORTANT: Tests may be co-located with source files, not in separate test/ folder
 
 4. IF NODE.JS AVAILABLE:
-   - Install: docker exec ${inputData.containerId} bash -c "cd DISCOVERED_REPO_PATH && npm ci --no-audit --no-fund"
-   - Run: docker exec ${inputData.containerId} bash -c "cd DISCOVERED_REPO_PATH && npx vitest run --coverage"
+   - Check the preinstalled dependencies: docker exec ${inputData.containerId} test -d DISCOVERED_REPO_PATH/node_modules (missing → ALGORITHMIC approach)
+${runner
+    ? `   - ${runner}: ${coverageCommands[runner]}`
+    : `   - Detect the runner with coverage_detection (it reads jest.config.*, vitest.config.* and package.json)
+   - Vitest: ${coverageCommands.Vitest}
+   - Jest: ${coverageCommands.Jest}`}
 
 5. Return ONLY JSON - no explanatory text or markdown!
 
@@ -108,7 +140,7 @@ REQUIRED JSON OUTPUT:
   "isValid": boolean,
   "repoPath": string, 
   "language": "TypeScript",
-  "framework": "Vitest",
+  "framework": ${runner ? `"${runner}"` : '"Vitest" | "Jest"'},
   "coverage": number,
   "method": string,
   "stats": {
@@ -123,9 +155,9 @@ REQUIRED JSON OUTPUT:
 
 BE SPECIFIC: Include exact commands you tried and their outputs in the reason field if anything fails.
 
-CRITICAL: This solution must work for ANY TypeScript + Vitest repository in any container setup - never hardcode paths or repository names!`;
+CRITICAL: This solution must work for ANY TypeScript + Vitest or Jest repository in any container setup - never hardcode paths or repository names!`;
 
-        const result: any = await agent.generate(prompt, { maxSteps: 100, maxRetries: 2 });
+        const result: any = await agent.generate(prompt, { maxSteps: 100, maxRetries: 2, abortSignal: getRunAbortSignal(runId) });
         const text = String(result?.text || "{}");
         
         // Extract JSON from response - improved parsing
@@ -178,12 +210,13 @@ CRITICAL: This solution must work for ANY TypeScript + Vitest repository in any
                 toolCallCount: cliToolMetrics.callCount,
             });
 
-            throw new Error(`Invalid project for TypeScript + Vitest coverage: ${parsed.reason}`);
+            throw new Error(`Invalid project for TypeScript + ${runner || 'Vitest/Jest'} coverage: ${parsed.reason}`);
         }
 
         const coverage = Math.max(0, Math.min(1, Number(parsed.coverage) || 0));
         
-        logger?.info?.("TypeScript + Vitest coverage analysis completed", { 
+        const framework = runner || (parsed.framework === "Jest" ? "Jest" : "Vitest");
+        logger?.info?.(`TypeScript + ${framework} coverage analysis completed`, { 
             coverage, 
             method: parsed.method, 
             files: parsed.files,
@@ -195,7 +228,7 @@ CRITICAL: This solution must work for ANY TypeScript + Vitest repository in any
             status: "completed",
             runId,
             containerId: inputData.containerId,
-            title: "TypeScript + Vitest coverage calculated",
+            title: `TypeScript + ${framework} coverage calculated`,
             subtitle: `${(coverage * 100).toFixed(2)}% via ${parsed.method} (${parsed.files} files)`,
             toolCallCount: cliToolMetrics.callCount,
         });
@@ -206,7 +239,7 @@ CRITICAL: This solution must work for ANY TypeScript + Vitest repository in any
             coverage,
             repoPath: parsed.repoPath,
             language: "TypeScript",
-            framework: "Vitest",
+            framework,
             method: parsed.method,
             stats: parsed.stats || {
                 statements: { total: 0, covered: 0, pct: coverage * 100 },
@@ -308,7 +341,7 @@ export const postTestCoverageStep = createStep({
             status: "starting",
             runId,
             containerId: inputData.containerId,
-            title: "Post TypeScript + Vitest coverage",
+            title: `Post TypeScript + ${inputData.framework} coverage`,
             subtitle: `${(inputData.coverage * 100).toFixed(2)}% (${inputData.method}) → ${url}`,
         });
 
@@ -334,7 +367,7 @@ export const postTestCoverageStep = createStep({
             status: "completed",
             runId,
             containerId: inputData.containerId,
-            title: "TypeScript + Vitest coverage posted",
+            title: `TypeScript + ${inputData.framework} coverage posted`,
             subtitle: `${(inputData.coverage * 100).toFixed(2)}% (${inputData.files} files, ${inputData.method} method)`,
             toolCallCount: cliToolMetrics.callCount,
         });
@@ -345,7 +378,7 @@ export const postTestCoverageStep = createStep({
 
 export const typescriptVitestCoverageWorkflow = createWorkflow({
     id: "typescript-vitest-coverage-workflow",
-    description: "Calculate TypeScript + Vitest test coverage using algorithms/statistics and POST to backend",
+    description: "Calculate TypeScript (Vitest or Jest) test coverage using algorithms/statistics and POST to backend",
     inputSchema: z.object({
         containerId: z.string(),
         projectId: z.string(),